@@ -51,13 +51,13 @@ test.describe('Horse Racing Betting Game', () => {
     await page.waitForSelector('text=Calculating odds...', { state: 'detached', timeout: 30000 });
 
     // Place win bet
-    await page.locator('select').selectOption('win');
+    await page.locator('[data-testid="bet-type-select"]').selectOption('win');
     const firstCheckbox = page.locator('input[type="checkbox"]').first();
     await firstCheckbox.click();
     await page.locator('button:has-text("Add Bet")').click();
 
     // Place quinella bet
-    await page.locator('select').selectOption('quinella');
+    await page.locator('[data-testid="bet-type-select"]').selectOption('quinella');
     const checkboxes = page.locator('input[type="checkbox"]');
     await checkboxes.nth(1).click();
     await checkboxes.nth(2).click();
@@ -1,9 +1,68 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useGameStore } from './state/store';
 import { useOddsWorker } from './hooks/useOddsWorker';
-import type { Bet, BetType } from './engine/types';
-import { MIN_BET, INITIAL_BANKROLL } from './engine/types';
+import type {
+  Bet,
+  BetType,
+  OddsFormat,
+  OddsRange,
+  PricingMode,
+  RaceTimes,
+  TicketMethod,
+} from './engine/types';
+import { MIN_BET, INITIAL_BANKROLL, BET_SELECTION_COUNTS, DIFFICULTY_CONFIGS } from './engine/types';
+import { getRaceModel } from './engine/models';
+import {
+  describeAptitudes,
+  describeConditions,
+  describeDrawBias,
+  getEffectiveRating,
+} from './engine/conditions';
 import { TrifectaLearning } from './components/TrifectaLearning';
+import { MeetingCard } from './components/MeetingCard';
+import { MultiLegBetSlip } from './components/MultiLegBetSlip';
+import { DutchingCalculator } from './components/DutchingCalculator';
+import { PortfolioOptimizer } from './components/PortfolioOptimizer';
+import { StakeAssistant } from './components/StakeAssistant';
+import { ValueBoard } from './components/ValueBoard';
+import { ReplayViewer } from './components/ReplayViewer';
+import { ChallengePanel } from './components/ChallengePanel';
+import { isSameChallenge, parseChallengeSearch } from './engine/challenge';
+import { addBetsToPools, poolsToOddsTable } from './engine/pool';
+import { getBracketNumber, getSelectionKey } from './engine/odds';
+import { formatRaceTime, getDistanceCovered } from './engine/physics';
+import { getMeetingRace } from './engine/meeting';
+import { MULTI_LEG_LABELS } from './engine/multileg';
+import {
+  ODDS_FORMATS,
+  ODDS_FORMAT_LABELS,
+  formatImpliedProbability,
+  formatOdds,
+  formatOddsRange,
+  formatReturn,
+} from './engine/odds-format';
+import { PACE_LABELS, PACE_SCENARIOS, RUNNING_STYLE_LABELS, getPaceProbabilities } from './engine/pace';
+import { getOddsForBet, getOddsRangeForBet, isBetRefunded } from './engine/payout';
+import { formatExpectedValue, getBetValue, getSlipValue } from './engine/value';
+import {
+  createTicket,
+  describeTicketLegs,
+  expandSelections,
+  getTicketLegCount,
+  summarizeTickets,
+} from './engine/ticket';
+
+// Value (EV) is green when the price beats the fair odds
+const getValueClass = (ev: number) => (ev >= 0 ? 'text-green-400' : 'text-red-400');
+
+const formatProbability = (probability: number) => `${(probability * 100).toFixed(1)}%`;
+
+const TICKET_METHOD_LABELS: Record<TicketMethod, string> = {
+  single: 'Single (通常)',
+  box: 'Box (ボックス)',
+  wheel: 'Wheel (流し)',
+  formation: 'Formation (フォーメーション)',
+};
 
 function App() {
   const {
@@ -11,15 +70,28 @@ function App() {
     raceNumber,
     settings,
     currentHorses,
+    meeting,
+    currentRace,
+    multiLegBets,
+    challenge,
+    startChallenge,
     currentBets,
     currentOdds,
+    currentCommitment,
+    commitRace,
     gameOver,
     startNewGame,
+    resumeMeeting,
     generateNewRace,
+    currentTickets,
     addBet,
+    addTicket,
     removeBet,
+    removeTicket,
+    scratchHorse,
     runRace,
     continueAfterGameOver,
+    updateSettings,
     getCurrentRaceConfig,
     setOdds,
     setOddsLoading,
@@ -28,19 +100,62 @@ function App() {
     oddsProgress,
   } = useGameStore();
 
-  const { calculateOdds, loading: workerLoading, progress: workerProgress, odds: workerOdds } = useOddsWorker();
+  const {
+    calculateOdds,
+    loading: workerLoading,
+    sampling: oddsSampling,
+    progress: workerProgress,
+    odds: workerOdds,
+    deviation: oddsDeviation,
+    precision: oddsPrecision,
+  } = useOddsWorker();
   const [betType, setBetType] = useState<BetType>('win');
-  const [selectedHorses, setSelectedHorses] = useState<number[]>([]);
+  const [ticketMethod, setTicketMethod] = useState<TicketMethod>('single');
+  const [legs, setLegs] = useState<number[][]>([[]]);
+  const [activeLeg, setActiveLeg] = useState(0);
   const [stake, setStake] = useState(MIN_BET);
   const [showResult, setShowResult] = useState(false);
   const [lastResult, setLastResult] = useState<ReturnType<typeof runRace> | null>(null);
   const [isRacing, setIsRacing] = useState(false);
   const [raceProgress, setRaceProgress] = useState<Record<number, number>>({});
+  const [raceTimes, setRaceTimes] = useState<RaceTimes | null>(null);
+  const [raceClock, setRaceClock] = useState(0);
+
+  // In pari-mutuel mode the player's own stakes move the pool
+  // (stakes on scratched horses are refunded, so they stay out of it)
+  const displayOdds = useMemo(() => {
+    if (!currentOdds?.pools) return currentOdds;
+    const scratched = currentHorses.filter((h) => h.scratched).map((h) => h.id);
+    const pooledBets = currentBets.filter(
+      (bet) => !isBetRefunded(bet, scratched, currentHorses.length)
+    );
+    return {
+      ...poolsToOddsTable(addBetsToPools(currentOdds.pools, pooledBets), currentHorses),
+      fair: currentOdds.fair,
+    };
+  }, [currentOdds, currentBets, currentHorses]);
+
+  // Fair probabilities and EV give the ratings away, so they need training mode
+  const showValue = settings.showRatings || settings.trainingMode;
 
-  // Initialize game on first load
+  const meetingRace = getMeetingRace(meeting, currentRace);
+  const currentConditions = meetingRace?.conditions ?? null;
+
+  // Initialize game on first load: start a challenge from a shared link, or resume the saved meeting
   useEffect(() => {
-    if (currentHorses.length === 0) {
-      startNewGame();
+    const linked = parseChallengeSearch(window.location.search);
+    if (linked) {
+      window.history.replaceState(null, '', window.location.pathname);
+    }
+
+    if (
+      linked &&
+      !(challenge && isSameChallenge(challenge, linked)) &&
+      confirm(`Start challenge ${linked.seed}? Your bankroll is set to ${linked.startingBankroll}pt.`)
+    ) {
+      startChallenge(linked);
+    } else if (currentHorses.length === 0) {
+      resumeMeeting();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -49,11 +164,22 @@ function App() {
   useEffect(() => {
     if (currentHorses.length > 0 && !currentOdds) {
       const config = getCurrentRaceConfig();
-      calculateOdds(currentHorses, config, settings.monteCarloTrials);
+      calculateOdds(currentHorses, config, {
+        maxTrials: settings.monteCarloTrials,
+        targetPrecision: settings.monteCarloPrecision,
+        timeBudgetMs: settings.monteCarloTimeBudgetMs,
+      });
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentHorses]);
 
+  // Publish the seed commitment before betting opens
+  useEffect(() => {
+    if (currentHorses.length > 0 && !currentCommitment) {
+      commitRace().catch((error) => console.warn('Could not commit to the race seed', error));
+    }
+  }, [currentHorses, currentCommitment, commitRace]);
+
   // Sync worker state to store
   useEffect(() => {
     setOddsLoading(workerLoading);
@@ -69,8 +195,46 @@ function App() {
     }
   }, [workerOdds, setOdds]);
 
+  // The checkboxes edit the active leg (key/partners for wheel, a position for formation)
+  const selectedHorses = legs[activeLeg] ?? [];
+  const setSelectedHorses = (horses: number[]) => {
+    setLegs(legs.map((leg, idx) => (idx === activeLeg ? horses : leg)));
+  };
+
+  const resetSelection = (type: BetType, method: TicketMethod) => {
+    setLegs(Array.from({ length: getTicketLegCount(type, method) }, () => []));
+    setActiveLeg(0);
+  };
+
+  const getLegLabel = (idx: number) => {
+    if (ticketMethod === 'wheel') return idx === 0 ? 'Key' : 'Partners';
+    if (ticketMethod === 'formation') return `${['1st', '2nd', '3rd'][idx]}`;
+    return 'Horses';
+  };
+
+  // Bracket quinella is bet on the brackets of the selected horses
+  const toBetSelection = (horses: number[]) =>
+    betType === 'bracketQuinella'
+      ? horses.map((id) => getBracketNumber(id, currentHorses.length))
+      : [...horses];
+
+  const ticketSelections =
+    ticketMethod === 'single'
+      ? []
+      : expandSelections(betType, ticketMethod, legs.map(toBetSelection));
+
   const handleAddBet = () => {
-    const requiredHorses = betType === 'win' || betType === 'place' ? 1 : betType === 'quinella' ? 2 : 3;
+    if (ticketMethod !== 'single') {
+      if (ticketSelections.length === 0) {
+        alert(`Selection does not make any ${betType} bets`);
+        return;
+      }
+      addTicket(createTicket(betType, ticketMethod, legs.map(toBetSelection), stake));
+      resetSelection(betType, ticketMethod);
+      return;
+    }
+
+    const requiredHorses = BET_SELECTION_COUNTS[betType];
 
     if (selectedHorses.length !== requiredHorses) {
       alert(`Select ${requiredHorses} horse(s) for ${betType} bet`);
@@ -79,7 +243,7 @@ function App() {
 
     const bet: Bet = {
       type: betType,
-      horses: [...selectedHorses],
+      horses: toBetSelection(selectedHorses),
       stake,
     };
 
@@ -96,40 +260,41 @@ function App() {
     const result = runRace();
     if (!result) return;
 
-    // Animate race for 5 seconds
+    const finish = () => {
+      setIsRacing(false);
+      setLastResult(result);
+      setShowResult(true);
+    };
+
+    const times = result.result.times;
+    if (!times) {
+      finish();
+      return;
+    }
+    setRaceTimes(times);
+
+    // Replay the simulated race in 5 seconds
     const RACE_DURATION = 5000;
     const startTime = Date.now();
-
-    const finishOrder = result.result.finishOrder;
+    const distance = times.segments.reduce((sum, segment) => sum + segment.length, 0);
+    const lastFinish = Math.max(...times.runs.map((run) => run.time));
 
     const animate = () => {
-      const elapsed = Date.now() - startTime;
-      const progress = Math.min(1, elapsed / RACE_DURATION);
-
-      if (progress >= 1) {
-        // Race finished - show final positions
-        const finalProgress: Record<number, number> = {};
-        finishOrder.forEach((horseId, index) => {
-          // Winners finish at 100%, others spread out based on position
-          finalProgress[horseId] = 100 - (index * 2);
-        });
-        setRaceProgress(finalProgress);
-        setIsRacing(false);
-        setLastResult(result);
-        setShowResult(true);
-        return;
-      }
+      const progress = Math.min(1, (Date.now() - startTime) / RACE_DURATION);
+      const clock = progress * lastFinish;
 
-      // Update progress for each horse
+      // Position of each horse on the track at this point of the race
       const currentProgress: Record<number, number> = {};
-      finishOrder.forEach((horseId, index) => {
-        // Each horse progresses at different rate based on final position
-        // Add some randomness for visual interest
-        const baseSpeed = 1 - (index * 0.08);
-        const randomVariation = Math.sin(elapsed / 100 + horseId) * 3;
-        currentProgress[horseId] = (progress * baseSpeed * 100) + randomVariation;
+      times.runs.forEach((run) => {
+        currentProgress[run.horseId] = (getDistanceCovered(run, times.segments, clock) / distance) * 100;
       });
       setRaceProgress(currentProgress);
+      setRaceClock(clock);
+
+      if (progress >= 1) {
+        finish();
+        return;
+      }
 
       requestAnimationFrame(animate);
     };
@@ -141,11 +306,18 @@ function App() {
     setShowResult(false);
     setLastResult(null);
     setRaceProgress({});
+    setRaceTimes(null);
     generateNewRace();
   };
 
   const toggleHorseSelection = (horseId: number) => {
-    const maxSelection = betType === 'win' || betType === 'place' ? 1 : betType === 'quinella' ? 2 : 3;
+    const required = BET_SELECTION_COUNTS[betType];
+    const maxSelection =
+      ticketMethod === 'single'
+        ? required
+        : ticketMethod === 'wheel' && activeLeg === 0
+          ? required - 1
+          : currentHorses.length;
 
     if (selectedHorses.includes(horseId)) {
       setSelectedHorses(selectedHorses.filter(id => id !== horseId));
@@ -155,14 +327,67 @@ function App() {
   };
 
   const getOddsForHorse = (horseId: number, type: BetType) => {
-    if (!currentOdds) return '-';
-    if (type === 'win') return currentOdds.win[horseId - 1].toFixed(2);
-    if (type === 'place') return currentOdds.place[horseId - 1].toFixed(2);
+    if (currentHorses[horseId - 1]?.scratched) return '取消';
+    if (!displayOdds) return '-';
+    if (type === 'win') return formatOdds(displayOdds.win[horseId - 1], settings.oddsFormat);
+    if (type === 'place') {
+      const range = displayOdds.placeRange?.[horseId - 1];
+      return range
+        ? formatOddsRange(range, settings.oddsFormat)
+        : formatOdds(displayOdds.place[horseId - 1], settings.oddsFormat);
+    }
     return '-';
   };
 
+  // Fair probability and EV of the win and place prices (training mode)
+  const renderHorseValue = (horseId: number) =>
+    displayOdds &&
+    (['win', 'place'] as const).map((type) => {
+      const value = getBetValue({ type, horses: [horseId], stake: MIN_BET }, displayOdds);
+      return (
+        value && (
+          <span key={type} className={`block ${getValueClass(value.ev)}`}>
+            {type === 'win' ? '単' : '複'} {formatProbability(value.probability)}{' '}
+            {formatExpectedValue(value.ev)}
+          </span>
+        )
+      );
+    });
+
+  const selectionBet: Bet | null =
+    displayOdds && ticketMethod === 'single' && selectedHorses.length === BET_SELECTION_COUNTS[betType]
+      ? { type: betType, horses: toBetSelection(selectedHorses), stake }
+      : null;
+  const selectionOdds = selectionBet && displayOdds ? getOddsForBet(selectionBet, displayOdds) : null;
+  const selectionRange = selectionBet && displayOdds ? getOddsRangeForBet(selectionBet, displayOdds) : undefined;
+  const selectionValue = selectionBet && displayOdds ? getBetValue(selectionBet, displayOdds) : null;
+  const selectionBand = selectionBet
+    ? displayOdds?.bands?.[selectionBet.type]?.get(getSelectionKey(selectionBet.type, selectionBet.horses))
+    : undefined;
+
+  // 95% Monte Carlo band of a price, e.g. "3.10–3.40"
+  const formatBand = (band: OddsRange | undefined) =>
+    band ? formatOddsRange(band, settings.oddsFormat) : null;
+
   const totalStake = currentBets.reduce((sum, bet) => sum + bet.stake, 0);
 
+  // Expected profit of a group of bets on the slip (training mode)
+  const scratchedIds = currentHorses.filter((h) => h.scratched).map((h) => h.id);
+  const getBetsValue = (bets: Bet[]) =>
+    showValue && displayOdds ? getSlipValue(bets, displayOdds, scratchedIds, currentHorses.length) : null;
+  const slipValue = getBetsValue(currentBets);
+  const renderBetsValue = (bets: Bet[]) => {
+    const value = getBetsValue(bets);
+    return (
+      value && (
+        <div className={getValueClass(value.ev)}>
+          EV {formatExpectedValue(value.ev)} ({value.expectedProfit >= 0 ? '+' : ''}
+          {Math.round(value.expectedProfit)}pt)
+        </div>
+      )
+    );
+  };
+
   if (gameOver) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -194,8 +419,54 @@ function App() {
         <h1 className="text-3xl font-bold text-center">Horse Racing Betting Game</h1>
         <div className="flex justify-between mt-2 text-sm">
           <span>Bankroll: <span className="text-yellow-400 font-bold">{bankroll}pt</span></span>
-          <span>Race #{raceNumber}</span>
-          <span className="capitalize">{settings.difficulty} Mode</span>
+          <span>
+            Race #{raceNumber}
+            {meeting && meetingRace && (
+              <span className="text-gray-400">
+                {' '}({meeting.venue} R{meetingRace.number} {meetingRace.name} · {meetingRace.postTime})
+              </span>
+            )}
+          </span>
+          <span>
+            <span className="capitalize">{settings.difficulty} Mode</span>{' '}
+            <span className="text-gray-400">
+              ({getRaceModel(DIFFICULTY_CONFIGS[settings.difficulty].model!).label})
+            </span>
+          </span>
+          <label>
+            Pricing:{' '}
+            <select
+              value={settings.pricingMode}
+              onChange={(e) => updateSettings({ pricingMode: e.target.value as PricingMode })}
+              className="bg-gray-700 rounded px-1"
+            >
+              <option value="fixed">Fixed Odds</option>
+              <option value="parimutuel">Pari-mutuel (next race)</option>
+            </select>
+          </label>
+          <label>
+            Odds:{' '}
+            <select
+              value={settings.oddsFormat}
+              onChange={(e) => updateSettings({ oddsFormat: e.target.value as OddsFormat })}
+              className="bg-gray-700 rounded px-1"
+            >
+              {ODDS_FORMATS.map((format) => (
+                <option key={format} value={format}>
+                  {ODDS_FORMAT_LABELS[format]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label title="Show fair probabilities and expected value (EV) for every price">
+            <input
+              type="checkbox"
+              checked={settings.trainingMode}
+              onChange={(e) => updateSettings({ trainingMode: e.target.checked })}
+              className="mr-1"
+            />
+            Training mode
+          </label>
         </div>
       </header>
 
@@ -205,23 +476,113 @@ function App() {
             <h2 className="text-2xl font-bold mb-4">Race Result</h2>
             <div className="mb-4">
               <h3 className="font-bold mb-2">Finish Order:</h3>
+              {lastResult.result.pace && (
+                <p className="text-sm text-gray-400 mb-2">Pace: {PACE_LABELS[lastResult.result.pace]}</p>
+              )}
               {lastResult.result.finishOrder.map((horseId: number, idx: number) => {
                 const horse = currentHorses.find(h => h.id === horseId);
+                const position = lastResult.result.positions[idx];
+                const tied = lastResult.result.positions.filter((p) => p === position).length > 1;
+                const run = lastResult.result.times?.runs[idx];
                 return (
                   <div key={idx} className="flex items-center gap-2 mb-1">
-                    <span className="font-bold">{idx + 1}.</span>
+                    <span className="font-bold">{position}{tied ? '=' : ''}.</span>
                     <span style={{ color: horse?.color }}>{horse?.name}</span>
+                    {tied && <span className="text-xs text-yellow-400">同着</span>}
+                    {run && (
+                      <span className="ml-auto text-sm font-mono text-gray-300">
+                        {formatRaceTime(run.time)}
+                        {run.margin && run.margin !== '同着' && (
+                          <span className="ml-2 text-gray-400">{run.margin}</span>
+                        )}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+              {lastResult.result.scratched.map((horseId: number) => {
+                const horse = currentHorses.find(h => h.id === horseId);
+                return (
+                  <div key={horseId} className="flex items-center gap-2 mb-1 text-gray-500">
+                    <span className="font-bold">取消</span>
+                    <span>{horse?.name}</span>
                   </div>
                 );
               })}
             </div>
+            <div className="border-t border-gray-700 pt-4 mb-4">
+              <h3 className="font-bold mb-2">Payouts:</h3>
+              {summarizeTickets(lastResult.tickets, lastResult.result.payouts).map((summary) => (
+                <div key={summary.ticket.id} className="text-sm mb-1">
+                  <span className="capitalize">
+                    {summary.ticket.type} {TICKET_METHOD_LABELS[summary.ticket.method]}
+                  </span>{' '}
+                  ({describeTicketLegs(summary.ticket)}): {summary.totalPayout}pt / {summary.totalStake}pt
+                  {summary.hits.map((hit) => (
+                    <span key={hit.bet.horses.join('-')} className="ml-2 text-green-400">
+                      ✓ {hit.bet.horses.join('-')} @ {formatOdds(hit.odds, settings.oddsFormat)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+              {lastResult.result.payouts.filter((p) => !p.bet.ticketId).map((p, idx) => (
+                <div key={idx} className="text-sm mb-1">
+                  <span className="capitalize">{p.bet.type}</span> {p.bet.horses.join('-')}:{' '}
+                  <span className={p.won ? 'text-green-400' : 'text-gray-400'}>
+                    {p.refunded
+                      ? `返還 ${p.payout}pt`
+                      : p.won
+                        ? `✓ ${p.payout}pt @ ${formatOdds(p.odds, settings.oddsFormat)}${p.deadHeatFactor < 1 ? ` (dead heat ×${p.deadHeatFactor.toFixed(2)})` : ''}`
+                        : '✗'}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {lastResult.multiLeg && (
+              <div className="border-t border-gray-700 pt-4 mb-4">
+                <h3 className="font-bold mb-2">Multi-Race Bets:</h3>
+                {lastResult.multiLeg.map((settlement) => (
+                  <div key={settlement.type} className="text-sm mb-1">
+                    {MULTI_LEG_LABELS[settlement.type]}:{' '}
+                    {settlement.dividend > 0
+                      ? `paid ${formatOdds(settlement.dividend, settings.oddsFormat)}`
+                      : `no winning ticket, ${settlement.carryoverOut.toLocaleString()}pt carried over`}
+                    {settlement.payouts.map((p) => (
+                      <span key={p.bet.id} className={p.won ? 'text-green-400' : 'text-red-400'}>
+                        {' '}· {p.won ? `+${p.payout}pt` : 'lost'}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="border-t border-gray-700 pt-4">
               <p>Total Stake: {lastResult.result.totalStake}pt</p>
               <p>Total Payout: {lastResult.result.totalPayout}pt</p>
+              {lastResult.result.totalRefund > 0 && (
+                <p className="text-gray-300">Refunded (返還): {lastResult.result.totalRefund}pt</p>
+              )}
               <p className={lastResult.result.netProfit >= 0 ? 'text-green-400' : 'text-red-400'}>
                 Net Profit: {lastResult.result.netProfit >= 0 ? '+' : ''}{lastResult.result.netProfit}pt
               </p>
             </div>
+            {lastResult.reveal && lastResult.commitment && (
+              <div className="border-t border-gray-700 pt-2 mt-2 text-xs text-gray-400 break-all">
+                <p>
+                  Seed revealed: <span className="font-mono">{lastResult.reveal.seed}</span>
+                  {lastResult.reveal.nonce && (
+                    <>
+                      {' '}
+                      · nonce <span className="font-mono">{lastResult.reveal.nonce}</span>
+                    </>
+                  )}
+                </p>
+                <p>
+                  Committed SHA-256: <span className="font-mono">{lastResult.commitment.hash}</span>
+                </p>
+                <p>Check it in Race Replay.</p>
+              </div>
+            )}
             <button
               onClick={handleNextRace}
               className="mt-4 w-full px-6 py-3 bg-blue-600 rounded hover:bg-blue-700"
@@ -232,24 +593,65 @@ function App() {
         </div>
       )}
 
+      {/* Meeting card and multi-race bets */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+        <div className="lg:col-span-2">
+          <MeetingCard />
+        </div>
+        <MultiLegBetSlip />
+      </div>
+
+      {/* Daily and shared challenges */}
+      <div className="mb-4">
+        <ChallengePanel />
+      </div>
+
       {/* Trifecta Learning Panel */}
       <div className="mb-4">
         <TrifectaLearning />
       </div>
 
+      {/* Replay of a past race */}
+      <div className="mb-4">
+        <ReplayViewer />
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
         {/* Horses Table */}
         <div className="lg:col-span-2 bg-gray-800 p-4 rounded-lg">
-          <h2 className="text-xl font-bold mb-4">Horses</h2>
-          {oddsLoading && (
+          <h2 className="text-xl font-bold mb-1">Horses</h2>
+          {currentConditions && (
+            <p className="text-sm text-gray-300 mb-1">
+              {describeConditions(currentConditions)}
+              <span className="text-gray-400"> · {describeDrawBias(currentConditions.drawBias)}</span>
+            </p>
+          )}
+          <p className="text-xs text-gray-500 mb-1 break-all" title="SHA-256 of the race seed and a secret nonce; both are revealed after the race">
+            Seed commitment:{' '}
+            <span className="font-mono">{currentCommitment ? currentCommitment.hash : 'committing…'}</span>
+          </p>
+          {currentHorses.length > 0 && (
+            <p className="text-sm text-gray-400 mb-4">
+              Pace outlook:{' '}
+              {PACE_SCENARIOS.map((pace) => {
+                const chance = getPaceProbabilities(currentHorses.filter((h) => !h.scratched))[pace];
+                return `${PACE_LABELS[pace]} ${Math.round(chance * 100)}%`;
+              }).join(' · ')}
+            </p>
+          )}
+          {(oddsLoading || oddsSampling) && (
             <div className="mb-4">
               <div className="w-full bg-gray-700 rounded-full h-2">
                 <div
                   className="bg-blue-600 h-2 rounded-full transition-all"
-                  style={{ width: `${oddsProgress}%` }}
+                  style={{ width: `${oddsLoading ? 0 : oddsProgress}%` }}
                 />
               </div>
-              <p className="text-sm text-center mt-1">Calculating odds... {oddsProgress}%</p>
+              <p className="text-sm text-center mt-1">
+                {oddsLoading
+                  ? 'Calculating odds...'
+                  : `${currentOdds?.pools ? 'Monte Carlo check' : 'Sampling price bands'}... ${oddsProgress}%`}
+              </p>
             </div>
           )}
           <div className="overflow-x-auto">
@@ -257,24 +659,36 @@ function App() {
               <thead>
                 <tr className="border-b border-gray-700">
                   <th className="p-2 text-left">Select</th>
+                  <th className="p-2">枠</th>
+                  <th className="p-2">馬番</th>
                   <th className="p-2 text-left">Horse</th>
+                  <th className="p-2">脚質</th>
+                  <th className="p-2 text-left">Aptitude</th>
                   {settings.showRatings && <th className="p-2">Rating</th>}
                   <th className="p-2">Win</th>
                   <th className="p-2">Place</th>
+                  {showValue && <th className="p-2">EV</th>}
+                  {displayOdds?.pools && <th className="p-2">Win Pool</th>}
+                  <th className="p-2"></th>
                 </tr>
               </thead>
               <tbody>
                 {currentHorses.map((horse) => (
-                  <tr key={horse.id} className="border-b border-gray-700 hover:bg-gray-700">
+                  <tr
+                    key={horse.id}
+                    className={`border-b border-gray-700 hover:bg-gray-700 ${horse.scratched ? 'opacity-40 line-through' : ''}`}
+                  >
                     <td className="p-2">
                       <input
                         type="checkbox"
                         checked={selectedHorses.includes(horse.id)}
                         onChange={() => toggleHorseSelection(horse.id)}
-                        disabled={oddsLoading}
+                        disabled={oddsLoading || horse.scratched}
                         className="w-4 h-4"
                       />
                     </td>
+                    <td className="p-2 text-center">{getBracketNumber(horse.id, currentHorses.length)}</td>
+                    <td className="p-2 text-center">{horse.id}</td>
                     <td className="p-2">
                       <div className="flex items-center gap-2">
                         <span
@@ -284,26 +698,108 @@ function App() {
                         <span>{horse.name}</span>
                       </div>
                     </td>
+                    <td className="p-2 text-center text-sm">{RUNNING_STYLE_LABELS[horse.style]}</td>
+                    <td className="p-2 text-xs text-gray-300 whitespace-nowrap">
+                      {describeAptitudes(horse.aptitudes)}
+                    </td>
                     {settings.showRatings && (
-                      <td className="p-2 text-center">{horse.rating.toFixed(1)}</td>
+                      <td className="p-2 text-center">
+                        {horse.rating.toFixed(1)}
+                        {currentConditions && (
+                          <span className="block text-xs text-gray-400">
+                            today{' '}
+                            {getEffectiveRating(horse, {
+                              numHorses: currentHorses.length,
+                              conditions: currentConditions,
+                            }).toFixed(1)}
+                          </span>
+                        )}
+                      </td>
                     )}
-                    <td className="p-2 text-center">{getOddsForHorse(horse.id, 'win')}</td>
+                    <td className="p-2 text-center">
+                      {getOddsForHorse(horse.id, 'win')}
+                      {!horse.scratched && displayOdds?.bands && (
+                        <span className="block text-xs text-gray-400">
+                          {formatBand(displayOdds.bands.win?.get(String(horse.id))) ?? '-'}
+                        </span>
+                      )}
+                    </td>
                     <td className="p-2 text-center">{getOddsForHorse(horse.id, 'place')}</td>
+                    {showValue && (
+                      <td className="p-2 text-center text-xs whitespace-nowrap">
+                        {!horse.scratched && renderHorseValue(horse.id)}
+                      </td>
+                    )}
+                    {displayOdds?.pools && (
+                      <td className="p-2 text-right text-sm text-gray-300">
+                        {Math.round(displayOdds.pools.win.stakes.get(String(horse.id)) || 0).toLocaleString()}pt
+                      </td>
+                    )}
+                    <td className="p-2 text-center">
+                      {!horse.scratched && (
+                        <button
+                          onClick={() => scratchHorse(horse.id)}
+                          disabled={oddsLoading || isRacing || showResult}
+                          className="text-xs px-2 py-1 bg-gray-600 rounded hover:bg-gray-500 disabled:opacity-50"
+                          title="Withdraw this horse (bets on it are refunded)"
+                        >
+                          Scratch
+                        </button>
+                      )}
+                    </td>
                   </tr>
                 ))}
               </tbody>
             </table>
           </div>
+          {displayOdds?.pools && (
+            <div className="text-xs text-gray-400 mt-2 flex flex-wrap gap-x-4">
+              {Object.entries(displayOdds.pools).map(([type, pool]) => (
+                <span key={type} className="capitalize">
+                  {type} pool: {Math.round(pool.total).toLocaleString()}pt (takeout{' '}
+                  {(pool.takeout * 100).toFixed(1)}%)
+                </span>
+              ))}
+            </div>
+          )}
+          {showValue && displayOdds && !oddsLoading && (
+            <ValueBoard odds={displayOdds} oddsFormat={settings.oddsFormat} />
+          )}
+          {showValue && displayOdds?.fair && !oddsLoading && !isRacing && (
+            <PortfolioOptimizer odds={displayOdds} />
+          )}
+          {oddsDeviation && !oddsLoading && (
+            <p className="text-xs text-gray-400 mt-2">
+              Monte Carlo check ({oddsDeviation.trials.toLocaleString()} trials): max deviation{' '}
+              {(Math.max(...Object.values(oddsDeviation.maxDeviation)) * 100).toFixed(2)}%
+              {oddsPrecision && (
+                <>
+                  {' '}· relative SE {(oddsPrecision.precision * 100).toFixed(1)}% (target{' '}
+                  {(oddsPrecision.targetPrecision * 100).toFixed(1)}%
+                  {oddsPrecision.precisionMet ? ', met' : ', time/trial limit reached'}) in{' '}
+                  {(oddsPrecision.elapsedMs / 1000).toFixed(1)}s.
+                  {displayOdds?.bands && ' Grey ranges are 95% Monte Carlo bands.'}
+                </>
+              )}
+            </p>
+          )}
 
           {/* Race Track Animation */}
           {(isRacing || Object.keys(raceProgress).length > 0) && (
             <div className="mt-6 bg-gray-900 p-4 rounded-lg">
               <h3 className="text-lg font-bold mb-4 text-center">
                 {isRacing ? '🏁 Racing... 🏁' : '🏆 Race Finished! 🏆'}
+                {raceTimes && (
+                  <span className="block text-sm font-mono text-gray-400">
+                    {formatRaceTime(raceClock)}
+                  </span>
+                )}
               </h3>
               <div className="space-y-3">
-                {currentHorses.map((horse) => {
+                {currentHorses.filter((horse) => !horse.scratched).map((horse) => {
                   const progress = raceProgress[horse.id] || 0;
+                  const run = raceTimes?.runs.find((r) => r.horseId === horse.id);
+                  const finished = run !== undefined && raceClock >= run.time;
                   return (
                     <div key={horse.id} className="flex items-center gap-3">
                       <div className="w-32 text-sm font-semibold" style={{ color: horse.color }}>
@@ -321,7 +817,7 @@ function App() {
                         </div>
                       </div>
                       <div className="w-16 text-right text-sm font-mono">
-                        {Math.round(progress)}%
+                        {finished ? formatRaceTime(run.time) : `${Math.round(progress)}%`}
                       </div>
                     </div>
                   );
@@ -340,20 +836,65 @@ function App() {
             <select
               value={betType}
               onChange={(e) => {
-                setBetType(e.target.value as BetType);
-                setSelectedHorses([]);
+                const type = e.target.value as BetType;
+                const method = BET_SELECTION_COUNTS[type] > 1 ? ticketMethod : 'single';
+                setBetType(type);
+                setTicketMethod(method);
+                resetSelection(type, method);
               }}
               className="w-full p-2 bg-gray-700 rounded"
+              data-testid="bet-type-select"
             >
               <option value="win">Win (1st)</option>
               <option value="place">Place (Top 2-3)</option>
               <option value="quinella">Quinella (1-2 any order)</option>
+              <option value="exacta">Exacta (1-2 exact)</option>
+              <option value="wide">Wide (both in top 3)</option>
+              <option value="trio">Trio (1-2-3 any order)</option>
               <option value="trifecta">Trifecta (1-2-3 exact)</option>
+              <option value="bracketQuinella">Bracket Quinella (枠 of 1-2)</option>
             </select>
+            {betType === 'bracketQuinella' && (
+              <p className="text-xs text-gray-400 mt-1">
+                Pick a horse from each bracket (two from one bracket for a same-bracket bet)
+              </p>
+            )}
           </div>
 
+          {BET_SELECTION_COUNTS[betType] > 1 && (
+            <div className="mb-4">
+              <label className="block mb-2">Method:</label>
+              <select
+                value={ticketMethod}
+                onChange={(e) => {
+                  const method = e.target.value as TicketMethod;
+                  setTicketMethod(method);
+                  resetSelection(betType, method);
+                }}
+                className="w-full p-2 bg-gray-700 rounded"
+              >
+                {Object.entries(TICKET_METHOD_LABELS).map(([method, label]) => (
+                  <option key={method} value={method}>{label}</option>
+                ))}
+              </select>
+              {legs.length > 1 && (
+                <div className="flex gap-2 mt-2">
+                  {legs.map((leg, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => setActiveLeg(idx)}
+                      className={`flex-1 px-2 py-1 rounded text-sm ${idx === activeLeg ? 'bg-blue-600' : 'bg-gray-700'}`}
+                    >
+                      {getLegLabel(idx)}: {leg.length > 0 ? leg.join(',') : '-'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="mb-4">
-            <label className="block mb-2">Stake:</label>
+            <label className="block mb-2">Stake{ticketMethod !== 'single' && ' per bet'}:</label>
             <input
               type="number"
               value={stake}
@@ -364,12 +905,54 @@ function App() {
             />
           </div>
 
+          {displayOdds && !oddsLoading && !isRacing && (
+            <StakeAssistant odds={displayOdds} selection={selectionBet} onSelectionStake={setStake} />
+          )}
+
+          {selectionOdds !== null && (
+            <p className="mb-2 text-sm">
+              Odds:{' '}
+              <span className="font-bold text-yellow-400">
+                {selectionRange
+                  ? formatOddsRange(selectionRange, settings.oddsFormat)
+                  : formatOdds(selectionOdds, settings.oddsFormat)}
+              </span>
+              <span className="ml-2 text-xs text-gray-400">
+                implied {formatImpliedProbability(selectionOdds)} · {stake}pt{' '}
+                {formatReturn(stake, selectionOdds, settings.oddsFormat)}
+              </span>
+              {formatBand(selectionBand) && (
+                <span className="ml-2 text-xs text-gray-400">
+                  (MC 95%: {formatBand(selectionBand)})
+                </span>
+              )}
+              {showValue && selectionValue && (
+                <span className={`block text-xs ${getValueClass(selectionValue.ev)}`}>
+                  fair {formatProbability(selectionValue.probability)} · EV{' '}
+                  {formatExpectedValue(selectionValue.ev)}
+                  {selectionRange && ' (at the lowest dividend)'}
+                </span>
+              )}
+            </p>
+          )}
+
+          {ticketMethod !== 'single' && (
+            <p className="mb-2 text-sm">
+              {ticketSelections.length} bets × {stake}pt ={' '}
+              <span className="font-bold text-yellow-400">{ticketSelections.length * stake}pt</span>
+            </p>
+          )}
+
           <button
             onClick={handleAddBet}
-            disabled={selectedHorses.length === 0 || oddsLoading}
+            disabled={
+              (ticketMethod === 'single' ? selectedHorses.length === 0 : ticketSelections.length === 0) ||
+              oddsLoading ||
+              !currentCommitment
+            }
             className="w-full mb-4 px-4 py-2 bg-green-600 rounded hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
           >
-            Add Bet
+            {ticketMethod === 'single' ? 'Add Bet' : `Add Ticket (${ticketSelections.length} bets)`}
           </button>
 
           <div className="border-t border-gray-700 pt-4">
@@ -378,12 +961,33 @@ function App() {
               <p className="text-gray-400 text-sm">No bets placed</p>
             ) : (
               <div className="space-y-2 max-h-48 overflow-y-auto">
-                {currentBets.map((bet, idx) => (
+                {currentTickets.map((ticket) => (
+                  <div key={ticket.id} className="bg-gray-700 p-2 rounded flex justify-between items-center text-sm">
+                    <div>
+                      <div className="font-bold capitalize">
+                        {ticket.type} {TICKET_METHOD_LABELS[ticket.method]}
+                      </div>
+                      <div>Horses: {describeTicketLegs(ticket)}</div>
+                      <div>
+                        {ticket.count} bets × {ticket.stakePerBet}pt = {ticket.count * ticket.stakePerBet}pt
+                      </div>
+                      {renderBetsValue(currentBets.filter((bet) => bet.ticketId === ticket.id))}
+                    </div>
+                    <button
+                      onClick={() => removeTicket(ticket.id)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+                {currentBets.map((bet, idx) => !bet.ticketId && (
                   <div key={idx} className="bg-gray-700 p-2 rounded flex justify-between items-center text-sm">
                     <div>
                       <div className="font-bold capitalize">{bet.type}</div>
                       <div>Horses: {bet.horses.join(', ')}</div>
                       <div>Stake: {bet.stake}pt</div>
+                      {renderBetsValue([bet])}
                     </div>
                     <button
                       onClick={() => removeBet(idx)}
@@ -397,15 +1001,30 @@ function App() {
             )}
             <div className="mt-4 pt-4 border-t border-gray-700">
               <p className="font-bold">Total Stake: {totalStake}pt</p>
+              {slipValue && (
+                <p className={`text-sm ${getValueClass(slipValue.ev)}`}>
+                  Slip EV: {formatExpectedValue(slipValue.ev)} (expected{' '}
+                  {slipValue.expectedProfit >= 0 ? '+' : ''}
+                  {Math.round(slipValue.expectedProfit)}pt)
+                </p>
+              )}
               <p className="text-sm text-gray-400">
                 Max: {Math.floor(bankroll * settings.maxBetPercentage)}pt
               </p>
             </div>
           </div>
 
+          {displayOdds && !oddsLoading && !isRacing && <DutchingCalculator odds={displayOdds} />}
+
           <button
             onClick={handleRunRace}
-            disabled={currentBets.length === 0 || oddsLoading || totalStake > bankroll || isRacing}
+            disabled={
+              (currentBets.length === 0 && multiLegBets.length === 0) ||
+              oddsLoading ||
+              !currentCommitment ||
+              totalStake > bankroll ||
+              isRacing
+            }
             className="w-full mt-4 px-4 py-3 bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed font-bold"
             data-testid="start-race-btn"
           >
@@ -0,0 +1,255 @@
+/**
+ * Challenge Panel Component
+ * Daily and shared seeded challenges, and a local leaderboard whose
+ * results can be re-verified from their proofs
+ */
+
+import { useState } from 'react';
+import { useGameStore } from '../state/store';
+import {
+  challengeToSearch,
+  createChallenge,
+  getDailyChallenge,
+  isSameChallenge,
+  parseChallengeProof,
+  rankLeaderboard,
+} from '../engine/challenge';
+import type { Challenge, ChallengeVerification, LeaderboardEntry } from '../engine/types';
+import { useChallengeWorker } from '../hooks/useChallengeWorker';
+
+const getChallengeUrl = (challenge: Challenge) =>
+  `${window.location.origin}${window.location.pathname}${challengeToSearch(challenge)}`;
+
+const copyText = (text: string) => {
+  navigator.clipboard?.writeText(text).catch((error) => console.warn('Could not copy to the clipboard', error));
+};
+
+export function ChallengePanel() {
+  const {
+    bankroll,
+    settings,
+    challenge,
+    challengeRaces,
+    leaderboard,
+    startChallenge,
+    abandonChallenge,
+    addLeaderboardEntry,
+    removeLeaderboardEntry,
+  } = useGameStore();
+  const daily = getDailyChallenge(new Date());
+  const [shown, setShown] = useState<Challenge>(challenge ?? daily);
+  const [checks, setChecks] = useState<Record<string, ChallengeVerification>>({});
+  const [proofText, setProofText] = useState('');
+  const [player, setPlayer] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [verifying, setVerifying] = useState<string[]>([]); // Entries being re-run (by finishedAt)
+  const [importing, setImporting] = useState(false);
+  const { verify } = useChallengeWorker();
+
+  // Challenges with a leaderboard, plus today's and the one being played
+  const challenges = [daily, ...(challenge ? [challenge] : []), ...leaderboard.map((e) => e.proof.challenge)].filter(
+    (c, idx, all) => all.findIndex((other) => isSameChallenge(other, c)) === idx
+  );
+  const ranked = rankLeaderboard(leaderboard, shown);
+
+  const handleStart = (next: Challenge) => {
+    if (!confirm(`Start challenge ${next.seed}? Your bankroll is set to ${next.startingBankroll}pt.`)) return;
+    startChallenge(next);
+    setShown(next);
+  };
+
+  // Re-running a proof takes seconds, so it runs in a worker
+  const handleVerify = async (entry: LeaderboardEntry) => {
+    setVerifying((ids) => [...ids, entry.finishedAt]);
+    let verification: ChallengeVerification;
+    try {
+      verification = await verify(entry.proof);
+    } catch (error) {
+      verification = {
+        valid: false,
+        races: 0,
+        finalBankroll: entry.proof.finalBankroll,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    setChecks((prev) => ({ ...prev, [entry.finishedAt]: verification }));
+    setVerifying((ids) => ids.filter((id) => id !== entry.finishedAt));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportMessage('Verifying…');
+    try {
+      const proof = parseChallengeProof(proofText);
+      const verification = await verify(proof);
+      if (!verification.valid) {
+        setImportMessage(`Proof does not verify: ${verification.error}`);
+        return;
+      }
+      const entry = { player: player.trim() || 'Guest', finishedAt: new Date().toISOString(), proof };
+      addLeaderboardEntry(entry);
+      setChecks((prev) => ({ ...prev, [entry.finishedAt]: verification }));
+      setShown(proof.challenge);
+      setProofText('');
+      setImportMessage(`Verified: ${proof.finalBankroll}pt on ${proof.challenge.seed}`);
+    } catch (error) {
+      setImportMessage(error instanceof Error ? error.message : 'Could not read the proof');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-xl font-bold mb-2">Challenges</h2>
+
+      {challenge ? (
+        <div className="text-sm space-y-2 mb-3">
+          <p>
+            Playing <span className="font-mono">{challenge.seed}</span>: race{' '}
+            {Math.min(challengeRaces.length + 1, challenge.races)} of {challenge.races} · bankroll {bankroll}pt
+            (started {challenge.startingBankroll}pt)
+          </p>
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={getChallengeUrl(challenge)}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 p-1 bg-gray-700 rounded font-mono text-xs"
+            />
+            <button
+              onClick={() => copyText(getChallengeUrl(challenge))}
+              className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700"
+            >
+              Copy link
+            </button>
+            <button onClick={abandonChallenge} className="px-3 py-1 bg-gray-600 rounded hover:bg-gray-500">
+              Abandon
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 mb-3 text-sm">
+          <button onClick={() => handleStart(daily)} className="px-3 py-2 bg-blue-600 rounded hover:bg-blue-700">
+            Daily challenge ({daily.seed})
+          </button>
+          <button
+            onClick={() => handleStart(createChallenge(`challenge-${Date.now().toString(36)}`, settings))}
+            className="px-3 py-2 bg-gray-700 rounded hover:bg-gray-600"
+          >
+            New challenge with current settings
+          </button>
+          <span className="text-gray-400 self-center">
+            {daily.races} races · {daily.startingBankroll}pt · no multi-race bets
+          </span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <h3 className="font-semibold">Leaderboard</h3>
+        <select
+          value={challenges.findIndex((c) => isSameChallenge(c, shown))}
+          onChange={(e) => setShown(challenges[Number(e.target.value)])}
+          className="flex-1 p-1 bg-gray-700 rounded"
+        >
+          {challenges.map((c, idx) => (
+            <option key={idx} value={idx}>
+              {c.seed} · {c.races} races · {c.difficulty} · {c.numHorses} runners · {c.pricingMode}
+            </option>
+          ))}
+        </select>
+        <button onClick={() => copyText(getChallengeUrl(shown))} className="px-2 py-1 bg-gray-700 rounded hover:bg-gray-600">
+          Share
+        </button>
+      </div>
+
+      {ranked.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-3">No finished runs yet.</p>
+      ) : (
+        <table className="w-full text-sm mb-3">
+          <thead>
+            <tr className="text-gray-400">
+              <th className="text-left">#</th>
+              <th className="text-left">Player</th>
+              <th className="text-right">Final</th>
+              <th className="text-right">Profit</th>
+              <th className="text-right">Races</th>
+              <th className="text-left pl-2">Finished</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((entry, idx) => {
+              const check = checks[entry.finishedAt];
+              const profit = entry.proof.finalBankroll - entry.proof.challenge.startingBankroll;
+              return (
+                <tr key={entry.finishedAt}>
+                  <td>{idx + 1}</td>
+                  <td>{entry.player}</td>
+                  <td className="text-right">{entry.proof.finalBankroll}pt</td>
+                  <td className={`text-right ${profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {profit >= 0 ? '+' : ''}
+                    {profit}pt
+                  </td>
+                  <td className="text-right">{entry.proof.races.length}</td>
+                  <td className="pl-2">{new Date(entry.finishedAt).toLocaleString()}</td>
+                  <td className="text-right space-x-1 whitespace-nowrap">
+                    {check && (
+                      <span title={check.error} className={check.valid ? 'text-green-400' : 'text-red-400'}>
+                        {check.valid ? '✓ Verified' : '✗ Failed'}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handleVerify(entry)}
+                      disabled={verifying.includes(entry.finishedAt)}
+                      className="px-2 bg-gray-700 rounded hover:bg-gray-600 disabled:text-gray-400"
+                    >
+                      {verifying.includes(entry.finishedAt) ? 'Verifying…' : 'Verify'}
+                    </button>
+                    <button
+                      onClick={() => copyText(JSON.stringify(entry.proof))}
+                      className="px-2 bg-gray-700 rounded hover:bg-gray-600"
+                    >
+                      Copy proof
+                    </button>
+                    <button
+                      onClick={() => removeLeaderboardEntry(entry.finishedAt)}
+                      className="px-2 bg-gray-700 rounded hover:bg-gray-600"
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <h3 className="font-semibold text-sm mb-1">Add someone else's run</h3>
+      <textarea
+        value={proofText}
+        onChange={(e) => setProofText(e.target.value)}
+        placeholder="Paste a proof (from Copy proof)…"
+        rows={2}
+        className="w-full p-2 bg-gray-700 rounded font-mono text-xs mb-1"
+      />
+      <div className="flex gap-2 text-sm">
+        <input
+          value={player}
+          onChange={(e) => setPlayer(e.target.value)}
+          placeholder="Player name"
+          className="flex-1 p-1 bg-gray-700 rounded"
+        />
+        <button
+          onClick={handleImport}
+          disabled={!proofText.trim() || importing}
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-600"
+        >
+          {importing ? 'Verifying…' : 'Verify and add'}
+        </button>
+      </div>
+      {importMessage && <p className="text-sm text-gray-300 mt-1">{importMessage}</p>}
+    </div>
+  );
+}
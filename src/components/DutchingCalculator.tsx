@@ -0,0 +1,204 @@
+/**
+ * Dutching and Hedging Calculator Component
+ * Win bets on several horses that pay the same whichever wins, or covers
+ * sized against the bets already on the slip
+ */
+
+import { useState } from 'react';
+import { useGameStore } from '../state/store';
+import type { Bet, DutchResult, HedgeMode, OddsTable } from '../engine/types';
+import { MIN_BET } from '../engine/types';
+import {
+  HEDGE_MODE_LABELS,
+  dutchByBudget,
+  dutchForProfit,
+  hedgeSlip,
+  toBets,
+} from '../engine/dutching';
+import { getOddsForBet, validateBet } from '../engine/payout';
+import { formatOdds } from '../engine/odds-format';
+
+type CalculatorMode = 'dutch' | 'hedge';
+type DutchTarget = 'budget' | 'profit';
+
+interface DutchingCalculatorProps {
+  odds: OddsTable;
+}
+
+export function DutchingCalculator({ odds }: DutchingCalculatorProps) {
+  const { bankroll, settings, currentHorses, currentBets, addBet } = useGameStore();
+  const [mode, setMode] = useState<CalculatorMode>('dutch');
+  const [horses, setHorses] = useState<number[]>([]);
+  const [target, setTarget] = useState<DutchTarget>('budget');
+  const [amount, setAmount] = useState(1000);
+  const [hedgeMode, setHedgeMode] = useState<HedgeMode>('breakEven');
+  const [hedgedIdx, setHedgedIdx] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const selections: Bet[] = horses.map((id) => ({ type: 'win', horses: [id], stake: MIN_BET }));
+  const hedgedBet = currentBets[hedgedIdx];
+  const result: DutchResult | null =
+    selections.length === 0
+      ? null
+      : mode === 'dutch'
+        ? target === 'budget'
+          ? dutchByBudget(selections.map((bet) => getOddsForBet(bet, odds)), amount, MIN_BET)
+          : dutchForProfit(selections.map((bet) => getOddsForBet(bet, odds)), amount, MIN_BET)
+        : hedgeSlip(selections, odds, currentBets, hedgeMode, MIN_BET, hedgedBet);
+
+  const toggleHorse = (horseId: number) => {
+    setHorses(
+      horses.includes(horseId)
+        ? horses.filter((id) => id !== horseId)
+        : [...horses, horseId].sort((a, b) => a - b)
+    );
+    setError(null);
+  };
+
+  const handleAdd = () => {
+    if (!result) return;
+    const bets = toBets(selections, result);
+    let staked = currentBets.reduce((sum, bet) => sum + bet.stake, 0);
+    for (const bet of bets) {
+      const validation = validateBet(bet, bankroll, staked, settings.maxBetPercentage, MIN_BET, currentHorses.length);
+      if (!validation.valid) {
+        setError(validation.error ?? 'Invalid bet');
+        return;
+      }
+      staked += bet.stake;
+    }
+    bets.forEach((bet) => addBet(bet));
+    setHorses([]);
+    setError(null);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900 p-3 rounded text-sm">
+      <div className="flex gap-2 mb-2">
+        {(['dutch', 'hedge'] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`flex-1 px-2 py-1 rounded ${m === mode ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {m === 'dutch' ? 'Dutching' : 'Hedging'}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-400 mb-1">{mode === 'dutch' ? 'Win bets on:' : 'Cover with win bets on:'}</p>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {currentHorses.map((horse) => (
+          <button
+            key={horse.id}
+            title={horse.name}
+            disabled={horse.scratched}
+            onClick={() => toggleHorse(horse.id)}
+            className={`w-7 h-7 rounded text-xs disabled:opacity-30 ${horses.includes(horse.id) ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {horse.id}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'dutch' ? (
+        <div className="flex gap-2 items-center mb-2">
+          <select
+            value={target}
+            onChange={(e) => setTarget(e.target.value as DutchTarget)}
+            className="p-1 bg-gray-700 rounded"
+          >
+            <option value="budget">Spend</option>
+            <option value="profit">Win at least</option>
+          </select>
+          <input
+            type="number"
+            value={amount}
+            min={MIN_BET}
+            step={MIN_BET}
+            onChange={(e) => setAmount(Math.max(0, Number(e.target.value)))}
+            className="w-24 p-1 bg-gray-700 rounded"
+          />
+          pt
+        </div>
+      ) : currentBets.length === 0 ? (
+        <p className="text-xs text-gray-400 mb-2">Add bets to the slip first.</p>
+      ) : (
+        <div className="space-y-1 mb-2">
+          <select
+            value={hedgeMode}
+            onChange={(e) => setHedgeMode(e.target.value as HedgeMode)}
+            className="w-full p-1 bg-gray-700 rounded"
+          >
+            {Object.entries(HEDGE_MODE_LABELS).map(([m, label]) => (
+              <option key={m} value={m}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {hedgeMode === 'lockIn' && (
+            <select
+              value={hedgedIdx}
+              onChange={(e) => setHedgedIdx(Number(e.target.value))}
+              className="w-full p-1 bg-gray-700 rounded capitalize"
+            >
+              {currentBets.map((bet, idx) => (
+                <option key={idx} value={idx}>
+                  {bet.type} {bet.horses.join('-')} ({bet.stake}pt)
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      {selections.length > 0 && !result && (
+        <p className="text-xs text-yellow-400">
+          {mode === 'dutch' && target === 'budget'
+            ? `The budget needs at least ${selections.length * MIN_BET}pt.`
+            : 'These prices cannot return a profit on every horse (book of 100% or more).'}
+        </p>
+      )}
+      {result && (mode === 'dutch' || currentBets.length > 0) && (
+        <>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-left">Horse</th>
+                <th className="text-right">Odds</th>
+                <th className="text-right">Stake</th>
+                <th className="text-right">Returns</th>
+                <th className="text-right">Profit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.lines.map((line, i) => (
+                <tr key={horses[i]}>
+                  <td>{horses[i]}</td>
+                  <td className="text-right">{formatOdds(line.odds, settings.oddsFormat)}</td>
+                  <td className="text-right">{line.stake}pt</td>
+                  <td className="text-right">{line.payout}pt</td>
+                  <td className={`text-right ${line.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                    {line.profit >= 0 ? '+' : ''}
+                    {line.profit}pt
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mt-1">
+            Total {result.totalStake}pt · book {(result.bookPercentage * 100).toFixed(1)}% · payouts rounded down
+            {odds.pools && ' · pari-mutuel prices move with these stakes'}
+          </p>
+          {error && <p className="text-xs text-red-400 mt-1">{error}</p>}
+          <button
+            onClick={handleAdd}
+            className="w-full mt-2 px-2 py-1 bg-green-600 rounded hover:bg-green-700"
+          >
+            Add {result.lines.length} bets to slip
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Meeting Card Component
+ * Today's races with post times, conditions and results so far
+ */
+
+import { useGameStore } from '../state/store';
+import { describeConditions } from '../engine/conditions';
+
+export function MeetingCard() {
+  const { meeting, currentRace } = useGameStore();
+
+  if (!meeting) return null;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-xl font-bold mb-2">
+        {meeting.venue} · Meeting {meeting.number}
+      </h2>
+      <table className="w-full text-sm">
+        <tbody>
+          {meeting.races.map((race) => {
+            const winners = race.result?.winners
+              .map((id) => race.horses.find((horse) => horse.id === id)?.name ?? id)
+              .join(' / ');
+            return (
+              <tr
+                key={race.number}
+                className={`border-b border-gray-700 ${race.number === currentRace ? 'bg-gray-700 font-bold' : ''} ${race.result ? 'text-gray-500' : ''}`}
+              >
+                <td className="p-1">R{race.number}</td>
+                <td className="p-1 font-mono">{race.postTime}</td>
+                <td className="p-1">{race.name}</td>
+                <td className="p-1 whitespace-nowrap">{describeConditions(race.conditions)}</td>
+                <td className="p-1 text-right">{winners ? `1着 ${winners}` : race.number === currentRace ? 'Next' : ''}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+/**
+ * Multi-Race Bet Slip Component
+ * Daily double, pick 4 and WIN5 on the last races of the meeting
+ */
+
+import { useState } from 'react';
+import { useGameStore } from '../state/store';
+import { MIN_BET } from '../engine/types';
+import type { MultiLegBetType } from '../engine/types';
+import {
+  MULTI_LEG_BET_TYPES,
+  MULTI_LEG_LABELS,
+  MULTI_LEG_LEG_COUNTS,
+  MULTI_LEG_POOL_SIZES,
+  createMultiLegBet,
+  getCombinationCount,
+  getLegRaceNumbers,
+  isMultiLegOpen,
+  validateMultiLegBet,
+} from '../engine/multileg';
+
+export function MultiLegBetSlip() {
+  const { meeting, bankroll, carryover, multiLegBets, challenge, addMultiLegBet, removeMultiLegBet } =
+    useGameStore();
+  const [type, setType] = useState<MultiLegBetType>('win5');
+  const [legs, setLegs] = useState<number[][]>(() => Array.from({ length: MULTI_LEG_LEG_COUNTS.win5 }, () => []));
+  const [stake, setStake] = useState(MIN_BET);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!meeting) return null;
+
+  if (challenge) {
+    return (
+      <div className="bg-gray-800 p-4 rounded-lg">
+        <h2 className="text-xl font-bold mb-2">Multi-Race Bets</h2>
+        <p className="text-sm text-gray-400">Multi-race bets are closed during a challenge.</p>
+      </div>
+    );
+  }
+
+  const legRaces = getLegRaceNumbers(type, meeting.races.length).map((number) => meeting.races[number - 1]);
+  const open = isMultiLegOpen(type, meeting);
+  const combinations = getCombinationCount(legs);
+
+  const selectType = (next: MultiLegBetType) => {
+    setType(next);
+    setLegs(Array.from({ length: MULTI_LEG_LEG_COUNTS[next] }, () => []));
+    setError(null);
+  };
+
+  const toggleHorse = (legIdx: number, horseId: number) => {
+    setLegs(
+      legs.map((leg, idx) =>
+        idx !== legIdx
+          ? leg
+          : leg.includes(horseId)
+            ? leg.filter((id) => id !== horseId)
+            : [...leg, horseId].sort((a, b) => a - b)
+      )
+    );
+  };
+
+  const handleAdd = () => {
+    const bet = createMultiLegBet(type, meeting.number, legs, stake);
+    const validation = validateMultiLegBet(bet, meeting, bankroll, MIN_BET);
+    if (!validation.valid) {
+      setError(validation.error ?? 'Invalid bet');
+      return;
+    }
+    addMultiLegBet(bet);
+    setLegs(Array.from({ length: MULTI_LEG_LEG_COUNTS[type] }, () => []));
+    setError(null);
+  };
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-xl font-bold mb-2">Multi-Race Bets</h2>
+
+      <div className="flex gap-2 mb-2">
+        {MULTI_LEG_BET_TYPES.map((t) => (
+          <button
+            key={t}
+            onClick={() => selectType(t)}
+            className={`px-2 py-1 rounded text-sm ${t === type ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {MULTI_LEG_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-400 mb-2">
+        R{legRaces[0].number}–R{legRaces[legRaces.length - 1].number} · Pool{' '}
+        {MULTI_LEG_POOL_SIZES[type].toLocaleString()}pt
+        {carryover[type] > 0 && (
+          <span className="text-yellow-400"> + carryover {carryover[type].toLocaleString()}pt</span>
+        )}
+      </p>
+
+      {open ? (
+        <>
+          {legRaces.map((race, legIdx) => (
+            <div key={race.number} className="mb-2">
+              <div className="text-sm font-semibold">
+                R{race.number} {race.name}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {race.horses.map((horse) => (
+                  <button
+                    key={horse.id}
+                    title={horse.name}
+                    onClick={() => toggleHorse(legIdx, horse.id)}
+                    className={`w-7 h-7 rounded text-xs ${legs[legIdx]?.includes(horse.id) ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+                  >
+                    {horse.id}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <label className="block text-sm mb-1">Stake per combination:</label>
+          <input
+            type="number"
+            value={stake}
+            min={MIN_BET}
+            step={MIN_BET}
+            onChange={(e) => setStake(Number(e.target.value))}
+            className="w-full p-2 bg-gray-700 rounded mb-2"
+          />
+          <p className="text-sm mb-2">
+            {combinations} combinations × {stake}pt = {combinations * stake}pt
+          </p>
+          {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+          <button
+            onClick={handleAdd}
+            disabled={combinations === 0}
+            className="w-full px-4 py-2 bg-green-600 rounded hover:bg-green-700 disabled:bg-gray-600"
+          >
+            Buy {MULTI_LEG_LABELS[type]}
+          </button>
+        </>
+      ) : (
+        <p className="text-sm text-gray-400">Sales closed: the first leg has been run.</p>
+      )}
+
+      {multiLegBets.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h3 className="font-bold text-sm">Open bets</h3>
+          {multiLegBets.map((bet) => (
+            <div key={bet.id} className="bg-gray-700 p-2 rounded flex justify-between items-center text-sm">
+              <div>
+                <div className="font-bold">{MULTI_LEG_LABELS[bet.type]}</div>
+                <div>{bet.legs.map((leg) => leg.join(',')).join(' / ')}</div>
+                <div>
+                  {getCombinationCount(bet.legs)} × {bet.stake}pt
+                </div>
+              </div>
+              {meeting.number === bet.meetingNumber && isMultiLegOpen(bet.type, meeting) && (
+                <button
+                  onClick={() => removeMultiLegBet(bet.id)}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
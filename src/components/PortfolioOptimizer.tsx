@@ -0,0 +1,195 @@
+/**
+ * Portfolio Optimizer Component
+ * Builds a bet slip on chosen horses within a budget and shows the
+ * return distribution of the whole slip (training mode)
+ */
+
+import { useState } from 'react';
+import { useGameStore } from '../state/store';
+import type { OddsTable, PortfolioObjective, PortfolioResult } from '../engine/types';
+import { MIN_BET } from '../engine/types';
+import { PORTFOLIO_OBJECTIVE_LABELS, optimizePortfolio } from '../engine/portfolio';
+import { validateBet } from '../engine/payout';
+
+interface PortfolioOptimizerProps {
+  odds: OddsTable;
+}
+
+export function PortfolioOptimizer({ odds }: PortfolioOptimizerProps) {
+  const { bankroll, settings, currentHorses, currentBets, addBet } = useGameStore();
+  const totalStake = currentBets.reduce((sum, bet) => sum + bet.stake, 0);
+  const available = Math.max(0, Math.floor(bankroll * settings.maxBetPercentage) - totalStake);
+
+  const [candidates, setCandidates] = useState<number[]>([]);
+  const [objective, setObjective] = useState<PortfolioObjective>('growth');
+  const [budget, setBudget] = useState(1000);
+  const [targetEv, setTargetEv] = useState(0);
+  const [result, setResult] = useState<PortfolioResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleCandidate = (horseId: number) => {
+    setCandidates(
+      candidates.includes(horseId)
+        ? candidates.filter((id) => id !== horseId)
+        : [...candidates, horseId].sort((a, b) => a - b)
+    );
+    setResult(null);
+  };
+
+  const handleOptimize = () => {
+    setError(null);
+    setResult(
+      optimizePortfolio(
+        candidates,
+        odds,
+        {
+          bankroll,
+          maxBetPercentage: settings.maxBetPercentage,
+          minBet: MIN_BET,
+          numHorses: currentHorses.length,
+          scratched: currentHorses.filter((h) => h.scratched).map((h) => h.id),
+        },
+        { objective, budget: Math.min(budget, available), targetEv: targetEv / 100 }
+      )
+    );
+  };
+
+  const handlePlace = () => {
+    if (!result) return;
+    let staked = totalStake;
+    for (const bet of result.bets) {
+      const validation = validateBet(bet, bankroll, staked, settings.maxBetPercentage, MIN_BET, currentHorses.length);
+      if (!validation.valid) {
+        setError(validation.error ?? 'Invalid bet');
+        return;
+      }
+      staked += bet.stake;
+    }
+    result.bets.forEach((bet) => addBet(bet));
+    setResult(null);
+  };
+
+  const largest = result ? Math.max(...result.distribution.map((o) => o.probability)) : 1;
+
+  return (
+    <div className="mt-4 bg-gray-900 p-3 rounded-lg text-sm">
+      <h3 className="font-bold mb-2">Portfolio optimizer (training)</h3>
+
+      <div className="flex flex-wrap gap-1 mb-2">
+        {currentHorses.map((horse) => (
+          <button
+            key={horse.id}
+            title={horse.name}
+            disabled={horse.scratched}
+            onClick={() => toggleCandidate(horse.id)}
+            className={`w-7 h-7 rounded text-xs disabled:opacity-30 ${candidates.includes(horse.id) ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {horse.id}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center mb-2">
+        <select
+          value={objective}
+          onChange={(e) => {
+            setObjective(e.target.value as PortfolioObjective);
+            setResult(null);
+          }}
+          className="p-1 bg-gray-700 rounded"
+        >
+          {Object.entries(PORTFOLIO_OBJECTIVE_LABELS).map(([o, label]) => (
+            <option key={o} value={o}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label>
+          Budget{' '}
+          <input
+            type="number"
+            value={budget}
+            min={MIN_BET}
+            step={MIN_BET}
+            onChange={(e) => setBudget(Math.max(MIN_BET, Number(e.target.value)))}
+            className="w-20 p-1 bg-gray-700 rounded"
+          />
+          <span className="text-xs text-gray-400"> (max {available}pt)</span>
+        </label>
+        {objective !== 'growth' && (
+          <label>
+            {objective === 'hitRate' ? 'EV floor' : 'Target EV'}{' '}
+            <input
+              type="number"
+              value={targetEv}
+              step={5}
+              onChange={(e) => setTargetEv(Number(e.target.value))}
+              className="w-16 p-1 bg-gray-700 rounded"
+            />
+            %
+          </label>
+        )}
+        <button
+          onClick={handleOptimize}
+          disabled={candidates.length === 0}
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-600"
+        >
+          Optimize
+        </button>
+      </div>
+
+      {result && (
+        <>
+          {result.note && <p className="text-xs text-yellow-400 mb-2">{result.note}</p>}
+          {result.bets.length > 0 && (
+            <>
+              <div className="max-h-40 overflow-y-auto mb-2">
+                {result.bets.map((bet, idx) => (
+                  <div key={idx} className="flex justify-between capitalize">
+                    <span>
+                      {bet.type} {bet.horses.join('-')}
+                    </span>
+                    <span>{bet.stake}pt</span>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-300">
+                Stake {result.totalStake}pt · expected {result.expectedProfit >= 0 ? '+' : ''}
+                {Math.round(result.expectedProfit)}pt · σ {Math.round(result.stdDev)}pt · hit{' '}
+                {(result.hitProbability * 100).toFixed(1)}% · log-growth{' '}
+                {(result.expectedLogGrowth * 100).toFixed(2)}%
+              </p>
+
+              <h4 className="font-semibold mt-2 mb-1 text-xs">Return distribution</h4>
+              <div className="max-h-48 overflow-y-auto space-y-0.5">
+                {result.distribution.map((outcome) => (
+                  <div key={outcome.profit} className="flex items-center gap-2 text-xs font-mono">
+                    <span className={`w-20 text-right ${outcome.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {outcome.profit >= 0 ? '+' : ''}
+                      {outcome.profit}pt
+                    </span>
+                    <div className="flex-1 bg-gray-800 h-3 rounded">
+                      <div
+                        className="bg-blue-500 h-3 rounded"
+                        style={{ width: `${(outcome.probability / largest) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-14 text-right">{(outcome.probability * 100).toFixed(2)}%</span>
+                  </div>
+                ))}
+              </div>
+
+              {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+              <button
+                onClick={handlePlace}
+                className="w-full mt-2 px-2 py-1 bg-green-600 rounded hover:bg-green-700"
+              >
+                Place this slip ({result.bets.length} bets)
+              </button>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * Replay Viewer Component
+ * Rebuilds a past race from its seed and config and checks the field,
+ * prices, finish and payouts against the history, and the revealed seed
+ * against the commitment published before betting
+ */
+
+import { useState } from 'react';
+import { useGameStore } from '../state/store';
+import { replayRace } from '../engine/replay';
+import { verifyCommitment } from '../engine/commitment';
+import { getOddsForBet } from '../engine/payout';
+import { describeConditions } from '../engine/conditions';
+import { formatOdds } from '../engine/odds-format';
+import type { CommitmentCheck, RaceReplay, ReplayChecks } from '../engine/types';
+
+const CHECK_LABELS: Record<keyof ReplayChecks, string> = {
+  horses: 'Horses',
+  odds: 'Odds',
+  finishOrder: 'Finish',
+  payouts: 'Payouts',
+};
+
+const COMMITMENT_LABELS: Record<keyof CommitmentCheck, string> = {
+  commitment: 'Seed and nonce match commitment',
+  finishOrder: 'Finish from revealed seed and nonce',
+};
+
+export function ReplayViewer() {
+  const { history, settings } = useGameStore();
+  const [selected, setSelected] = useState<number | null>(null);
+  const [replay, setReplay] = useState<RaceReplay | null>(null);
+  const [commitmentCheck, setCommitmentCheck] = useState<CommitmentCheck | null>(null);
+
+  const replayable = history.filter((entry) => entry.config);
+  if (replayable.length === 0) return null;
+
+  const entry = replayable.find((e) => e.raceNumber === selected);
+
+  const handleReplay = () => {
+    setReplay(entry ? replayRace(entry) : null);
+    setCommitmentCheck(null);
+    if (entry) {
+      verifyCommitment(entry)
+        .then(setCommitmentCheck)
+        .catch((error) => console.warn('Could not verify the seed commitment', error));
+    }
+  };
+
+  const horseName = (id: number) => replay?.horses.find((horse) => horse.id === id)?.name ?? id;
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg">
+      <h2 className="text-xl font-bold mb-2">Race Replay</h2>
+      <div className="flex gap-2 mb-3">
+        <select
+          value={selected ?? ''}
+          onChange={(e) => {
+            setSelected(e.target.value ? Number(e.target.value) : null);
+            setReplay(null);
+            setCommitmentCheck(null);
+          }}
+          className="flex-1 p-2 bg-gray-700 rounded text-sm"
+        >
+          <option value="">Choose a past race…</option>
+          {[...replayable].reverse().map((e) => (
+            <option key={e.raceNumber} value={e.raceNumber}>
+              Race {e.raceNumber} · {e.seed} · {e.result.netProfit >= 0 ? '+' : ''}
+              {e.result.netProfit}pt
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleReplay}
+          disabled={!entry}
+          className="px-4 py-2 bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-600"
+        >
+          Replay
+        </button>
+      </div>
+
+      {replay && entry?.config && (
+        <div className="text-sm space-y-3">
+          <p className="text-gray-400">
+            Seed <span className="font-mono">{entry.seed}</span> · {describeConditions(entry.config.conditions)} ·{' '}
+            {entry.config.numHorses} runners · {entry.config.difficulty} · {entry.config.pricing}
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(CHECK_LABELS) as (keyof ReplayChecks)[]).map((check) => (
+              <span
+                key={check}
+                className={`px-2 py-1 rounded text-xs ${replay.checks[check] ? 'bg-green-700' : 'bg-red-700'}`}
+              >
+                {replay.checks[check] ? '✓' : '✗'} {CHECK_LABELS[check]}
+              </span>
+            ))}
+            {commitmentCheck &&
+              (Object.keys(COMMITMENT_LABELS) as (keyof CommitmentCheck)[]).map((check) => (
+                <span
+                  key={check}
+                  className={`px-2 py-1 rounded text-xs ${commitmentCheck[check] ? 'bg-green-700' : 'bg-red-700'}`}
+                >
+                  {commitmentCheck[check] ? '✓' : '✗'} {COMMITMENT_LABELS[check]}
+                </span>
+              ))}
+          </div>
+
+          {entry.commitment && entry.reveal ? (
+            <p className="text-xs text-gray-400 break-all">
+              Committed SHA-256 <span className="font-mono">{entry.commitment.hash}</span> at{' '}
+              {new Date(entry.commitment.committedAt).toLocaleTimeString()} · revealed seed{' '}
+              <span className="font-mono">{entry.reveal.seed}</span>
+              {entry.reveal.nonce && (
+                <>
+                  {' '}
+                  · nonce <span className="font-mono">{entry.reveal.nonce}</span>
+                </>
+              )}
+            </p>
+          ) : (
+            <p className="text-xs text-gray-400">No seed commitment was saved with this race.</p>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <h3 className="font-semibold mb-1">Finish</h3>
+              <ol className="space-y-0.5">
+                {replay.result.finishOrder.map((id, idx) => (
+                  <li key={id}>
+                    {replay.result.positions[idx]}. #{id} {horseName(id)}{' '}
+                    <span className="text-gray-400">{formatOdds(replay.odds.win[id - 1], settings.oddsFormat)}</span>
+                  </li>
+                ))}
+              </ol>
+              {replay.result.scratched.length > 0 && (
+                <p className="text-gray-400 mt-1">Scratched: {replay.result.scratched.map(horseName).join(', ')}</p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="font-semibold mb-1">Bets</h3>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left">Bet</th>
+                    <th className="text-right">Odds</th>
+                    <th className="text-right">Replayed</th>
+                    <th className="text-right">Recorded</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {replay.result.payouts.map((payout, idx) => (
+                    <tr key={idx} className="capitalize">
+                      <td>
+                        {payout.bet.type} {payout.bet.horses.join('-')} ({payout.bet.stake}pt)
+                      </td>
+                      <td className="text-right">
+                        {formatOdds(getOddsForBet(payout.bet, replay.odds), settings.oddsFormat)}
+                      </td>
+                      <td className="text-right">{payout.payout}pt</td>
+                      <td className="text-right">{entry.result.payouts[idx]?.payout ?? '—'}pt</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-1">
+                Total payout {replay.result.totalPayout}pt (recorded {entry.result.totalPayout}pt)
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Stake Assistant Component
+ * Suggests stakes for the selection and the single bets on the slip
+ * (Kelly needs the fair probabilities, so only in training mode)
+ */
+
+import { useGameStore } from '../state/store';
+import type { Bet, OddsTable, StakingMethod } from '../engine/types';
+import { MIN_BET } from '../engine/types';
+import { KELLY_METHODS, STAKING_METHOD_LABELS, planStakes } from '../engine/staking';
+import { formatExpectedValue } from '../engine/value';
+
+interface StakeAssistantProps {
+  odds: OddsTable;
+  selection: Bet | null; // Bet being built in the slip (not added yet)
+  onSelectionStake: (stake: number) => void;
+}
+
+const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+export function StakeAssistant({ odds, selection, onSelectionStake }: StakeAssistantProps) {
+  const { bankroll, settings, currentBets, currentHorses, restakeBets, updateSettings } = useGameStore();
+  const staking = settings.staking;
+  const showValue = settings.showRatings || settings.trainingMode;
+  const method = !showValue && KELLY_METHODS.includes(staking.method) ? 'flat' : staking.method;
+
+  // Single bets are re-sized; ticket bets keep their stakes
+  const singleIndices = currentBets.flatMap((bet, idx) => (bet.ticketId ? [] : [idx]));
+  const bets = [...singleIndices.map((idx) => currentBets[idx]), ...(selection ? [selection] : [])];
+  const heldBets = currentBets.filter((bet) => bet.ticketId);
+
+  if (bets.length === 0) return null;
+
+  const plan = planStakes(
+    bets,
+    heldBets,
+    odds,
+    {
+      bankroll,
+      maxBetPercentage: settings.maxBetPercentage,
+      minBet: MIN_BET,
+      numHorses: currentHorses.length,
+      scratched: currentHorses.filter((h) => h.scratched).map((h) => h.id),
+    },
+    { ...staking, method }
+  );
+
+  const handleApply = () => {
+    restakeBets(new Map(singleIndices.map((betIdx, i) => [betIdx, plan.suggestions[i].bet.stake])));
+    const selectionStake = selection ? plan.suggestions[bets.length - 1].bet.stake : 0;
+    if (selectionStake > 0) onSelectionStake(selectionStake);
+  };
+
+  return (
+    <div className="mb-4 bg-gray-900 p-3 rounded text-sm">
+      <div className="flex gap-2 items-center mb-2">
+        <label className="font-bold">Sizing:</label>
+        <select
+          value={method}
+          onChange={(e) => updateSettings({ staking: { ...staking, method: e.target.value as StakingMethod } })}
+          className="flex-1 p-1 bg-gray-700 rounded"
+        >
+          {Object.entries(STAKING_METHOD_LABELS).map(([m, label]) => (
+            <option key={m} value={m} disabled={!showValue && KELLY_METHODS.includes(m as StakingMethod)}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {method === 'fractionalKelly' && (
+          <select
+            value={staking.kellyFraction}
+            onChange={(e) => updateSettings({ staking: { ...staking, kellyFraction: Number(e.target.value) } })}
+            className="p-1 bg-gray-700 rounded"
+          >
+            {[0.25, 0.5, 0.75].map((fraction) => (
+              <option key={fraction} value={fraction}>
+                ×{fraction}
+              </option>
+            ))}
+          </select>
+        )}
+        {method === 'fixedFraction' && (
+          <input
+            type="number"
+            value={staking.fixedFraction * 100}
+            min={0.5}
+            max={100}
+            step={0.5}
+            onChange={(e) =>
+              updateSettings({ staking: { ...staking, fixedFraction: Math.max(0, Number(e.target.value)) / 100 } })
+            }
+            className="w-16 p-1 bg-gray-700 rounded"
+            title="% of bankroll per bet"
+          />
+        )}
+        {method === 'flat' && (
+          <input
+            type="number"
+            value={staking.flatStake}
+            min={MIN_BET}
+            step={MIN_BET}
+            onChange={(e) =>
+              updateSettings({ staking: { ...staking, flatStake: Math.max(MIN_BET, Number(e.target.value)) } })
+            }
+            className="w-20 p-1 bg-gray-700 rounded"
+            title="Points per bet"
+          />
+        )}
+      </div>
+      {!showValue && (
+        <p className="text-xs text-gray-400 mb-1">Kelly staking needs training mode (it uses the fair probabilities).</p>
+      )}
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400">
+            <th className="text-left">Bet</th>
+            {showValue && <th className="text-right">Edge</th>}
+            {showValue && <th className="text-right">Variance</th>}
+            {showValue && <th className="text-right">Kelly</th>}
+            <th className="text-right">Suggested</th>
+            <th className="text-right">Stake</th>
+          </tr>
+        </thead>
+        <tbody>
+          {plan.suggestions.map((s, i) => (
+            <tr key={i} className={i === bets.length - 1 && selection ? 'text-yellow-400' : ''}>
+              <td className="capitalize">
+                {s.bet.type} {s.bet.horses.join('-')}
+              </td>
+              {showValue && <td className="text-right">{s.edge === null ? '-' : formatExpectedValue(s.edge)}</td>}
+              {showValue && <td className="text-right">{s.variance === null ? '-' : s.variance.toFixed(2)}</td>}
+              {showValue && (
+                <td className="text-right">{s.kellyFraction === null ? '-' : formatPercent(s.kellyFraction)}</td>
+              )}
+              <td className="text-right">{formatPercent(s.fraction)}</td>
+              <td className="text-right font-bold">{s.bet.stake}pt</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mt-1">
+        {bets.length > 1 && KELLY_METHODS.includes(method) && 'Sized together over every top-3 finish. '}
+        {plan.scale < 1 &&
+          `Scaled ×${plan.scale.toFixed(2)} to stay within ${Math.round(settings.maxBetPercentage * 100)}% of bankroll (${plan.limit}pt left). `}
+        Rounded down to {MIN_BET}pt units; 0pt means no bet.
+      </p>
+      <button onClick={handleApply} className="w-full mt-2 px-2 py-1 bg-gray-700 rounded hover:bg-gray-600">
+        Apply suggested stakes
+      </button>
+    </div>
+  );
+}
@@ -1,32 +1,45 @@
 /**
  * Trifecta Learning Component
- * Auto-bets and learns patterns to predict trifecta outcomes
+ * Auto-bets with a chosen strategy, learns patterns to predict trifecta
+ * outcomes, and compares other strategies on the same races
  */
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useMemo, useState, useCallback } from 'react';
 import { useGameStore } from '../state/store';
-import { globalPredictor } from '../engine/trifecta-predictor';
+import { MIN_TRAINING_RACES, globalPredictor } from '../engine/trifecta-predictor';
 import type { TrifectaPrediction } from '../engine/trifecta-predictor';
+import { DEFAULT_BOX_SIZE, getBuiltInStrategies, predictorStrategy } from '../engine/strategies';
+import { acceptBets, settleStrategyBets, summarizeBacktest } from '../engine/backtest';
+import { evaluatePredictions, scorePredictions } from '../engine/evaluation';
+import type { BacktestRaceLog, ScoredPrediction } from '../engine/types';
+import { MIN_BET } from '../engine/types';
+import { formatOdds } from '../engine/odds-format';
+import { exportTrainingData, mergeTrainingData, parseTrainingData } from '../engine/training-data';
+import { appendPredictorRace, loadPredictorHistory, replacePredictorHistory } from '../state/predictor-db';
 
 export function TrifectaLearning() {
   const [isLearning, setIsLearning] = useState(false);
-  const [learningStats, setLearningStats] = useState({
-    totalRaces: 0,
-    wins: 0,
-    losses: 0,
-    winRate: 0,
-    totalProfit: 0,
-    avgConfidence: 0,
-  });
   const [predictions, setPredictions] = useState<TrifectaPrediction[]>([]);
   const [autoBetSpeed, setAutoBetSpeed] = useState(1000); // ms delay between races
+  const [strategyId, setStrategyId] = useState(predictorStrategy.id);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [boxSize, setBoxSize] = useState(DEFAULT_BOX_SIZE);
+  // Each strategy's races this session, with its own bankroll
+  const [sessions, setSessions] = useState<Record<string, BacktestRaceLog[]>>({});
+  const [startingBankroll, setStartingBankroll] = useState(0);
+  const [scored, setScored] = useState<ScoredPrediction[]>([]); // Every prediction this session, scored
+  const [mergeImport, setMergeImport] = useState(true);
+  const [dataMessage, setDataMessage] = useState<string | null>(null);
+  const [, setDataRevision] = useState(0); // Re-render when the training data is loaded or imported
 
   const store = useGameStore();
+  const strategies = useMemo(() => getBuiltInStrategies(boxSize), [boxSize]);
 
   const runAutoBet = useCallback(async () => {
-    const { currentHorses, currentOdds, addBet, runRace, clearBets } = store;
+    const { currentHorses, currentOdds, currentCommitment, bankroll, settings, raceNumber, addBet, runRace, clearBets } =
+      store;
 
-    if (!currentOdds || currentHorses.length === 0) {
+    if (!currentOdds || !currentCommitment || currentHorses.length === 0) {
       console.log('[Learning] Waiting for odds...');
       return;
     }
@@ -35,71 +48,91 @@ export function TrifectaLearning() {
     clearBets();
 
     // Get predictions
-    const newPredictions = globalPredictor.predict(currentHorses, currentOdds);
+    const newPredictions = globalPredictor.predict(currentHorses, currentOdds, settings.difficulty);
     setPredictions(newPredictions);
 
-    // Bet on the highest confidence prediction
-    if (newPredictions.length > 0) {
-      const bestPrediction = newPredictions[0];
-
-      // Place trifecta bet
-      addBet({
-        type: 'trifecta',
-        horses: [...bestPrediction.horses],
-        stake: 100, // Fixed stake for learning
+    // Every strategy in the session bets from its own bankroll and history
+    const config = store.getCurrentRaceConfig();
+    const entries = strategies
+      .filter((strategy) => strategy.id === strategyId || compareIds.includes(strategy.id))
+      .map((strategy) => {
+        const history = sessions[strategy.id] ?? [];
+        const context = {
+          horses: currentHorses,
+          odds: currentOdds,
+          difficulty: settings.difficulty,
+          bankroll: history[history.length - 1]?.bankroll ?? startingBankroll,
+          history,
+          minBet: MIN_BET,
+          maxBetPercentage: settings.maxBetPercentage,
+        };
+        return { strategy, context, bets: strategy.placeBets(context) };
       });
 
-      console.log(`[Learning] Betting on trifecta: ${bestPrediction.horses.join('-')} (confidence: ${bestPrediction.confidence}%)`);
+    // The chosen strategy's bets go on the real slip
+    const active = entries.find((entry) => entry.strategy.id === strategyId);
+    const placed = active ? acceptBets(active.bets, bankroll, settings.maxBetPercentage, MIN_BET, currentHorses.length) : [];
+    placed.forEach((bet) => addBet(bet));
+    if (placed.length > 0) {
+      console.log(`[Learning] ${active?.strategy.name}: ${placed.map((bet) => `${bet.type} ${bet.horses.join('-')}`).join(', ')}`);
     }
 
-    // Run the race
+    // Run the race (a race the chosen strategy passes is still run, for the card and the others)
     const result = runRace();
+    if (!result) return;
+    const outcome = result.result;
 
-    if (result) {
-      // Record the race for learning
-      const trifecta: [number, number, number] = [
-        result.result.finishOrder[0],
-        result.result.finishOrder[1],
-        result.result.finishOrder[2],
-      ];
-
-      const trifectaKey = `${trifecta[0]}-${trifecta[1]}-${trifecta[2]}`;
-      const trifectaOdds = currentOdds.trifecta.get(trifectaKey) || 0;
-
-      globalPredictor.recordRace({
-        raceNumber: result.raceNumber,
-        horses: currentHorses,
-        odds: currentOdds,
-        actualResult: result.result.finishOrder,
-        trifecta,
-        trifectaOdds,
-      });
+    // Record the race for learning
+    const trifecta: [number, number, number] = [
+      outcome.finishOrder[0],
+      outcome.finishOrder[1],
+      outcome.finishOrder[2],
+    ];
 
-      // Update stats
-      const won = result.result.netProfit > 0;
-      setLearningStats((prev) => {
-        const totalRaces = prev.totalRaces + 1;
-        const wins = prev.wins + (won ? 1 : 0);
-        const losses = prev.losses + (won ? 0 : 1);
-        const winRate = (wins / totalRaces) * 100;
-        const totalProfit = prev.totalProfit + result.result.netProfit;
-
-        return {
-          totalRaces,
-          wins,
-          losses,
-          winRate,
-          totalProfit,
-          avgConfidence: newPredictions[0]?.confidence || 0,
-        };
-      });
+    const trifectaKey = `${trifecta[0]}-${trifecta[1]}-${trifecta[2]}`;
+    const trifectaOdds = currentOdds.trifecta.get(trifectaKey) || 0;
 
-      // Auto-continue to next race
-      setTimeout(() => {
-        store.generateNewRace();
-      }, 100);
-    }
-  }, [store, setPredictions, setLearningStats]);
+    const dataPoint = {
+      raceNumber: result.raceNumber,
+      seed: config.seed,
+      horses: currentHorses,
+      odds: { win: currentOdds.win },
+      difficulty: settings.difficulty,
+      actualResult: outcome.finishOrder,
+      trifecta,
+      trifectaOdds,
+    };
+    globalPredictor.recordRace(dataPoint);
+    appendPredictorRace(dataPoint).catch((error) => console.warn('[Learning] Could not save the race:', error));
+
+    setScored((prev) => [...prev, ...scorePredictions(newPredictions, outcome.finishOrder, dataPoint.raceNumber)]);
+
+    // Settle every strategy on the same finish
+    setSessions((prev) => {
+      const next = { ...prev };
+      for (const { strategy, context, bets } of entries) {
+        const log = settleStrategyBets({ ...context, index: raceNumber, seed: config.seed }, bets, outcome);
+        next[strategy.id] = [...(prev[strategy.id] ?? []), log];
+      }
+      return next;
+    });
+
+    // Auto-continue to next race
+    setTimeout(() => {
+      store.generateNewRace();
+    }, 100);
+  }, [store, strategies, strategyId, compareIds, sessions, startingBankroll]);
+
+  // Pick up the training data saved in earlier sessions
+  useEffect(() => {
+    loadPredictorHistory()
+      .then((saved) => {
+        if (saved.length === 0) return;
+        globalPredictor.importHistory(mergeTrainingData(saved, globalPredictor.exportHistory()));
+        setDataRevision((revision) => revision + 1);
+      })
+      .catch((error) => console.warn('[Learning] Could not load saved training data:', error));
+  }, []);
 
   useEffect(() => {
     let interval: number | null = null;
@@ -117,20 +150,68 @@ export function TrifectaLearning() {
 
   const startLearning = () => {
     setIsLearning(true);
-    setLearningStats({
-      totalRaces: 0,
-      wins: 0,
-      losses: 0,
-      winRate: 0,
-      totalProfit: 0,
-      avgConfidence: 0,
-    });
+    setSessions({});
+    setScored([]);
+    setStartingBankroll(store.bankroll);
   };
 
   const stopLearning = () => {
     setIsLearning(false);
   };
 
+  const handleExport = () => {
+    const blob = new Blob([exportTrainingData(globalPredictor.exportHistory())], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `keiba-dash-training-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Import one or more files (e.g. from teammates), merged into one training set
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    try {
+      const datasets = await Promise.all(files.map(async (file) => parseTrainingData(await file.text())));
+      const current = mergeImport ? [globalPredictor.exportHistory()] : [];
+      globalPredictor.importHistory(mergeTrainingData(...current, ...datasets));
+      setDataMessage(
+        `Read ${datasets.reduce((sum, races) => sum + races.length, 0)} races from ${files.length} file(s); ` +
+          `${globalPredictor.getStats().totalRaces} races in the training set`
+      );
+    } catch (error) {
+      setDataMessage(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    setDataRevision((revision) => revision + 1);
+    replacePredictorHistory(globalPredictor.exportHistory()).catch((error) =>
+      console.warn('[Learning] Could not save the imported data:', error)
+    );
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(compareIds.includes(id) ? compareIds.filter((other) => other !== id) : [...compareIds, id]);
+  };
+
+  const reports = strategies
+    .filter((strategy) => sessions[strategy.id])
+    .map((strategy) => ({ strategy, report: summarizeBacktest(sessions[strategy.id], startingBankroll, false) }));
+  const activeReport = reports.find(({ strategy }) => strategy.id === strategyId)?.report;
+  const hits = activeReport ? Math.round(activeReport.hitRate * activeReport.racesBet) : 0;
+  const learningStats = {
+    totalRaces: activeReport?.racesBet ?? 0,
+    wins: hits,
+    losses: (activeReport?.racesBet ?? 0) - hits,
+    winRate: (activeReport?.hitRate ?? 0) * 100,
+    totalProfit: activeReport?.profit ?? 0,
+  };
+  const evaluations = evaluatePredictions(scored);
+  const activeStrategy = strategies.find((strategy) => strategy.id === strategyId);
+
   const predictorStats = globalPredictor.getStats();
 
   return (
@@ -157,9 +238,21 @@ export function TrifectaLearning() {
             <div className="col-span-2">
               <span className="text-slate-400">Ready:</span>
               <span className={`ml-2 font-bold ${predictorStats.readyForPrediction ? 'text-green-400' : 'text-yellow-400'}`}>
-                {predictorStats.readyForPrediction ? '✓ Yes' : `Need ${10 - predictorStats.totalRaces} more races`}
+                {predictorStats.readyForPrediction ? '✓ Yes' : `Need ${MIN_TRAINING_RACES - predictorStats.totalRaces} more races`}
               </span>
             </div>
+            {predictorStats.model && predictorStats.model.races > 0 && (
+              <div className="col-span-2">
+                <span className="text-slate-400">Log-likelihood / race:</span>
+                <span className="ml-2 font-bold">
+                  {(predictorStats.model.logLikelihood / predictorStats.model.races).toFixed(3)}
+                </span>
+                <span className="text-slate-500">
+                  {' '}
+                  (market {(predictorStats.model.marketLogLikelihood / predictorStats.model.races).toFixed(3)})
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -194,6 +287,109 @@ export function TrifectaLearning() {
           </div>
         </div>
 
+        {/* Prediction Quality */}
+        {evaluations.length > 0 && (
+          <div className="bg-slate-700 rounded p-4">
+            <h3 className="font-semibold mb-2 text-lg">Prediction Quality</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 text-xs">
+                  <th className="text-left">Predictor</th>
+                  <th className="text-right">Predictions</th>
+                  <th className="text-right">Hit</th>
+                  <th className="text-right">Race hit</th>
+                  <th className="text-right">Brier</th>
+                  <th className="text-right">Log-loss</th>
+                </tr>
+              </thead>
+              <tbody>
+                {evaluations.map((evaluation) => (
+                  <tr key={evaluation.strategy}>
+                    <td>{evaluation.strategy}</td>
+                    <td className="text-right">{evaluation.predictions}</td>
+                    <td className="text-right">{(evaluation.hitRate * 100).toFixed(1)}%</td>
+                    <td className="text-right">{(evaluation.raceHitRate * 100).toFixed(1)}%</td>
+                    <td className="text-right">{evaluation.brierScore.toFixed(4)}</td>
+                    <td className="text-right">{evaluation.logLoss.toFixed(4)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {evaluations.map((evaluation) => (
+              <div key={evaluation.strategy} className="mt-3">
+                <h4 className="text-xs text-slate-400 mb-1">Calibration: {evaluation.strategy}</h4>
+                <div className="space-y-0.5">
+                  {evaluation.calibration.map((bin) => (
+                    <div key={bin.low} className="flex items-center gap-2 text-xs font-mono">
+                      <span className="w-20 text-right">
+                        {(bin.low * 100).toFixed(0)}–{(bin.high * 100).toFixed(0)}%
+                      </span>
+                      <div className="flex-1 bg-slate-800 h-3 rounded relative">
+                        <div
+                          className="bg-blue-500 h-3 rounded"
+                          style={{ width: `${Math.min(100, bin.observedRate * 100)}%` }}
+                        />
+                        <div
+                          className="absolute top-0 h-3 w-0.5 bg-amber-400"
+                          style={{ left: `${Math.min(100, bin.meanProbability * 100)}%` }}
+                        />
+                      </div>
+                      <span className="w-32 text-right">
+                        {(bin.meanProbability * 100).toFixed(1)}% → {(bin.observedRate * 100).toFixed(1)}% (n={bin.count})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-slate-500 mt-1">
+              Predicted chance (amber) against how often it came in (blue); a calibrated predictor lines them up.
+            </p>
+          </div>
+        )}
+
+        {/* Strategy Comparison */}
+        {reports.length > 1 && (
+          <div className="bg-slate-700 rounded p-4">
+            <h3 className="font-semibold mb-2 text-lg">Strategy Comparison</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-slate-400 text-xs">
+                  <th className="text-left">Strategy</th>
+                  <th className="text-right">Races</th>
+                  <th className="text-right">Staked</th>
+                  <th className="text-right">P&L</th>
+                  <th className="text-right">ROI</th>
+                  <th className="text-right">Hit</th>
+                  <th className="text-right">Max DD</th>
+                  <th className="text-right">Bankroll</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reports.map(({ strategy, report }) => (
+                  <tr key={strategy.id} className={strategy.id === strategyId ? 'text-amber-300' : ''}>
+                    <td>{strategy.name}</td>
+                    <td className="text-right">{report.racesBet}</td>
+                    <td className="text-right">{report.totalStake}pt</td>
+                    <td className={`text-right ${report.profit >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                      {report.profit >= 0 ? '+' : ''}
+                      {report.profit}pt
+                    </td>
+                    <td className="text-right">{report.roi.toFixed(1)}%</td>
+                    <td className="text-right">{(report.hitRate * 100).toFixed(1)}%</td>
+                    <td className="text-right">{report.maxDrawdown}pt</td>
+                    <td className="text-right">{report.finalBankroll}pt</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500 mt-1">
+              Each strategy keeps its own bankroll from {startingBankroll}pt; only the highlighted one bets for real.
+            </p>
+          </div>
+        )}
+
         {/* Current Predictions */}
         {predictions.length > 0 && (
           <div className="bg-slate-700 rounded p-4">
@@ -206,12 +402,12 @@ export function TrifectaLearning() {
                       {pred.horses[0]} → {pred.horses[1]} → {pred.horses[2]}
                     </div>
                     <div className="text-xs px-2 py-1 bg-blue-600 rounded">
-                      {pred.confidence}% confidence
+                      {pred.confidence}% chance
                     </div>
                   </div>
                   <div className="text-xs text-slate-400">{pred.reasoning}</div>
                   <div className="text-xs text-slate-500 mt-1">
-                    Expected odds: {pred.expectedOdds.toFixed(2)}x
+                    Expected odds: {formatOdds(pred.expectedOdds, store.settings.oddsFormat)}
                   </div>
                 </div>
               ))}
@@ -221,6 +417,55 @@ export function TrifectaLearning() {
 
         {/* Controls */}
         <div className="space-y-3">
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Betting Strategy</label>
+            <select
+              value={strategyId}
+              onChange={(e) => setStrategyId(e.target.value)}
+              className="w-full p-2 bg-slate-700 rounded"
+              disabled={isLearning}
+            >
+              {strategies.map((strategy) => (
+                <option key={strategy.id} value={strategy.id}>
+                  {strategy.name}
+                </option>
+              ))}
+            </select>
+            {activeStrategy && <div className="text-xs text-slate-500 mt-1">{activeStrategy.description}</div>}
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Compare on the same races</label>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {strategies
+                .filter((strategy) => strategy.id !== strategyId)
+                .map((strategy) => (
+                  <label key={strategy.id} className="flex items-center gap-1" title={strategy.description}>
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(strategy.id)}
+                      onChange={() => toggleCompare(strategy.id)}
+                      disabled={isLearning}
+                    />
+                    {strategy.name}
+                  </label>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Trifecta Box Size</label>
+            <input
+              type="number"
+              min={3}
+              max={6}
+              value={boxSize}
+              onChange={(e) => setBoxSize(Math.min(6, Math.max(3, Number(e.target.value))))}
+              className="w-20 p-1 bg-slate-700 rounded"
+              disabled={isLearning}
+            />
+          </div>
+
           <div>
             <label className="block text-sm text-slate-400 mb-1">
               Auto-bet Speed (ms delay)
@@ -258,14 +503,51 @@ export function TrifectaLearning() {
           </div>
         </div>
 
+        {/* Training Data */}
+        <div className="bg-slate-700 rounded p-4 text-sm">
+          <h3 className="font-semibold mb-2 text-lg">Training Data</h3>
+          <div className="flex flex-wrap gap-2 items-center">
+            <button
+              onClick={handleExport}
+              disabled={predictorStats.totalRaces === 0}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded disabled:bg-slate-600"
+            >
+              Export JSON
+            </button>
+            <label
+              className={`px-3 py-1 rounded ${isLearning ? 'bg-slate-600' : 'bg-blue-600 hover:bg-blue-700 cursor-pointer'}`}
+            >
+              Import JSON
+              <input
+                type="file"
+                accept=".json,application/json"
+                multiple
+                onChange={handleImport}
+                disabled={isLearning}
+                className="hidden"
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={mergeImport} onChange={(e) => setMergeImport(e.target.checked)} />
+              Merge with current data
+            </label>
+          </div>
+          {dataMessage && <p className="text-xs text-slate-300 mt-2">{dataMessage}</p>}
+          <p className="text-xs text-slate-500 mt-1">
+            Recorded races are saved in this browser. Several files can be imported at once; races already in the set
+            are skipped.
+          </p>
+        </div>
+
         {/* Info */}
         <div className="text-xs text-slate-400 bg-slate-900 rounded p-3">
           <p className="mb-1">
-            <strong>How it works:</strong> The system automatically places trifecta bets and learns from results.
+            <strong>How it works:</strong> The chosen strategy places bets automatically and the predictor learns from results.
           </p>
           <p>
-            It analyzes odds patterns, favorite performance, upset frequency, and historical correlations
-            to improve predictions over time.
+            Predictions come from a Plackett-Luce rating model: each runner's strength is built from its implied win
+            probability and odds rank, adjusted for field size and difficulty. The weights are refitted by maximum
+            likelihood on the recorded finishes, and follow the market until there is enough history.
           </p>
         </div>
       </div>
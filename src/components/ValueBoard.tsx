@@ -0,0 +1,78 @@
+/**
+ * Value Board Component
+ * Best-value prices of each bet type against the model's fair probability
+ * (training mode: it gives the ratings away)
+ */
+
+import { useState } from 'react';
+import type { BetType, OddsFormat, OddsTable } from '../engine/types';
+import { formatOdds } from '../engine/odds-format';
+import { formatExpectedValue, listSelectionValues } from '../engine/value';
+
+const VALUE_BET_TYPES: { type: BetType; label: string }[] = [
+  { type: 'win', label: 'Win' },
+  { type: 'place', label: 'Place' },
+  { type: 'quinella', label: 'Quinella' },
+  { type: 'exacta', label: 'Exacta' },
+  { type: 'wide', label: 'Wide' },
+  { type: 'trio', label: 'Trio' },
+  { type: 'trifecta', label: 'Trifecta' },
+  { type: 'bracketQuinella', label: 'Bracket' },
+];
+
+const ROWS_SHOWN = 10;
+
+interface ValueBoardProps {
+  odds: OddsTable;
+  oddsFormat: OddsFormat;
+}
+
+export function ValueBoard({ odds, oddsFormat }: ValueBoardProps) {
+  const [type, setType] = useState<BetType>('win');
+  const values = listSelectionValues(type, odds);
+
+  if (!odds.fair) return null;
+
+  return (
+    <div className="mt-4 bg-gray-900 p-3 rounded-lg">
+      <h3 className="font-bold mb-2">Value (training)</h3>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {VALUE_BET_TYPES.map((t) => (
+          <button
+            key={t.type}
+            onClick={() => setType(t.type)}
+            className={`px-2 py-1 rounded text-xs ${t.type === type ? 'bg-blue-600' : 'bg-gray-700 hover:bg-gray-600'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-700 text-gray-400">
+            <th className="p-1 text-left">Selection</th>
+            <th className="p-1 text-right">Fair</th>
+            <th className="p-1 text-right">Odds</th>
+            <th className="p-1 text-right">EV</th>
+          </tr>
+        </thead>
+        <tbody>
+          {values.slice(0, ROWS_SHOWN).map((value) => (
+            <tr key={value.key} className="border-b border-gray-800">
+              <td className="p-1 font-mono">{value.key}</td>
+              <td className="p-1 text-right">{(value.probability * 100).toFixed(2)}%</td>
+              <td className="p-1 text-right">{formatOdds(value.odds, oddsFormat)}</td>
+              <td className={`p-1 text-right ${value.ev >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {formatExpectedValue(value.ev)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-gray-400 mt-1">
+        {values.length} prices · EV = fair probability × odds − 1
+        {(type === 'place' || type === 'wide') && ' (at the lowest dividend)'}
+      </p>
+    </div>
+  );
+}
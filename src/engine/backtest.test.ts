@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { runBacktest, summarizeBacktest } from './backtest';
+import type { BacktestOptions, BacktestRaceLog, BacktestStrategy } from './types';
+import { MIN_BET } from './types';
+
+describe('backtest', () => {
+  // Flat 100 on the shortest-priced horse
+  const favourite: BacktestStrategy = ({ odds }) => {
+    const best = odds.win.indexOf(Math.min(...odds.win));
+    return [{ type: 'win', horses: [best + 1], stake: MIN_BET }];
+  };
+
+  const options: BacktestOptions = {
+    strategy: favourite,
+    startingBankroll: 10000,
+    seedPrefix: 'backtest-test',
+    fromSeed: 1,
+    toSeed: 30,
+    baseConfig: {
+      numHorses: 8,
+      temperature: 20,
+      margin: 0.18,
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+    },
+    maxBetPercentage: 0.5,
+    minBet: MIN_BET,
+  };
+
+  it('gives the same report for the same seeds', () => {
+    const first = runBacktest(options);
+    const second = runBacktest(options);
+    expect(second).toEqual(first);
+    expect(first.races).toBe(30);
+    expect(first.log[0].seed).toBe('backtest-test-1');
+
+    const other = runBacktest({ ...options, seedPrefix: 'backtest-other' });
+    expect(other.log.map((race) => race.finishOrder)).not.toEqual(first.log.map((race) => race.finishOrder));
+  });
+
+  it('keeps the bankroll path consistent with the race results', () => {
+    const report = runBacktest(options);
+    expect(report.bankrollPath).toHaveLength(31);
+    expect(report.finalBankroll).toBe(10000 + report.profit);
+    expect(report.totalStake).toBe(30 * MIN_BET);
+    report.log.forEach((race, idx) => {
+      expect(race.bankroll).toBe(report.bankrollPath[idx] + race.profit);
+    });
+    expect(report.hitRate).toBeGreaterThan(0);
+    expect(report.roi).toBeCloseTo((report.profit / report.totalStake) * 100);
+  });
+
+  it('rejects bets the game would refuse', () => {
+    const greedy: BacktestStrategy = ({ bankroll }) => [
+      { type: 'win', horses: [1], stake: MIN_BET },
+      { type: 'win', horses: [2], stake: bankroll }, // Over the per-race limit
+      { type: 'win', horses: [3], stake: 50 }, // Under the minimum
+    ];
+    const report = runBacktest({ ...options, strategy: greedy, toSeed: 3 });
+    report.log.forEach((race) => {
+      expect(race.bets).toHaveLength(1);
+      expect(race.rejected).toBe(2);
+    });
+  });
+
+  it('stops when the bankroll runs out', () => {
+    const allIn: BacktestStrategy = ({ bankroll }) => [
+      { type: 'trifecta', horses: [8, 7, 6], stake: Math.floor(bankroll / MIN_BET) * MIN_BET },
+    ];
+    const report = runBacktest({ ...options, strategy: allIn, startingBankroll: 500, maxBetPercentage: 1 });
+    expect(report.busted).toBe(true);
+    expect(report.races).toBeLessThan(30);
+    expect(report.finalBankroll).toBeLessThan(MIN_BET);
+  });
+
+  it('measures drawdown, hit rate and losing streaks', () => {
+    const race = (profit: number, bankroll: number, stake = 100): BacktestRaceLog => ({
+      index: 0,
+      seed: '',
+      bets: [],
+      rejected: 0,
+      finishOrder: [],
+      stake,
+      payout: stake + profit,
+      profit,
+      hit: profit > -stake,
+      bankroll,
+    });
+    const report = summarizeBacktest(
+      [race(-100, 900), race(-100, 800), race(0, 800, 0), race(-100, 700), race(400, 1100), race(-100, 1000)],
+      1000,
+      false
+    );
+    expect(report.racesBet).toBe(5);
+    expect(report.hitRate).toBeCloseTo(1 / 5);
+    expect(report.longestLosingStreak).toBe(3); // Races without bets don't end a streak
+    expect(report.maxDrawdown).toBe(300);
+    expect(report.maxDrawdownPercentage).toBeCloseTo(0.3);
+    expect(report.profit).toBe(0);
+    expect(report.bankrollPath).toEqual([1000, 900, 800, 800, 700, 1100, 1000]);
+  });
+});
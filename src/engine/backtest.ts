@@ -0,0 +1,164 @@
+/**
+ * Headless strategy backtesting
+ * Runs a betting strategy over a range of seeded races through the same
+ * pipeline as the game (conditions, field, prices, race, settlement) with
+ * no store or UI, so the same seeds always give the same report
+ */
+
+import { generateRaceConditions } from './conditions';
+import { generateHorses, simulateRaceOutcome } from './race';
+import { priceRace } from './pool';
+import { resolveRace, validateBet } from './payout';
+import type { BacktestOptions, BacktestRace, BacktestRaceLog, BacktestReport, Bet, RaceOutcome } from './types';
+
+/**
+ * Seed of race n in a backtest
+ */
+export function getBacktestSeed(seedPrefix: string, n: number): string {
+  return `${seedPrefix}-${n}`;
+}
+
+/**
+ * Build a seeded race as the game would show it before betting
+ */
+export function createBacktestRace(
+  index: number,
+  seed: string,
+  options: BacktestOptions,
+  bankroll: number,
+  history: BacktestRaceLog[]
+): BacktestRace {
+  const config = { ...options.baseConfig, seed, conditions: generateRaceConditions(seed) };
+  const horses = generateHorses(config);
+  return {
+    index,
+    seed,
+    config,
+    horses,
+    odds: priceRace(horses, config),
+    difficulty: config.difficulty,
+    bankroll,
+    history,
+    minBet: options.minBet,
+    maxBetPercentage: options.maxBetPercentage,
+  };
+}
+
+/**
+ * Keep the bets that pass the game's checks, in order, counting stakes already kept
+ */
+export function acceptBets(
+  bets: Bet[],
+  bankroll: number,
+  maxBetPercentage: number,
+  minBet: number,
+  numHorses?: number
+): Bet[] {
+  const accepted: Bet[] = [];
+  let staked = 0;
+  for (const bet of bets) {
+    if (validateBet(bet, bankroll, staked, maxBetPercentage, minBet, numHorses).valid) {
+      accepted.push(bet);
+      staked += bet.stake;
+    }
+  }
+  return accepted;
+}
+
+/**
+ * Settle a strategy's bets on a finished race
+ * Bets the game would refuse are dropped and counted as rejected
+ */
+export function settleStrategyBets(
+  context: Pick<BacktestRace, 'index' | 'seed' | 'odds' | 'bankroll' | 'minBet' | 'maxBetPercentage'>,
+  proposed: Bet[],
+  outcome: RaceOutcome
+): BacktestRaceLog {
+  const numHorses = context.odds.win.length; // One price per horse in the field
+  const bets = acceptBets(proposed, context.bankroll, context.maxBetPercentage, context.minBet, numHorses);
+  const result = resolveRace(bets, outcome, context.odds);
+
+  return {
+    index: context.index,
+    seed: context.seed,
+    bets,
+    rejected: proposed.length - bets.length,
+    finishOrder: result.finishOrder,
+    stake: result.totalStake,
+    payout: result.totalPayout,
+    profit: result.netProfit,
+    hit: result.payouts.some((payout) => payout.won),
+    bankroll: context.bankroll + result.netProfit,
+  };
+}
+
+/**
+ * Summarise a run from its race logs
+ */
+export function summarizeBacktest(
+  log: BacktestRaceLog[],
+  startingBankroll: number,
+  busted: boolean
+): BacktestReport {
+  const bankrollPath = [startingBankroll, ...log.map((race) => race.bankroll)];
+  const betRaces = log.filter((race) => race.stake > 0);
+  const totalStake = betRaces.reduce((sum, race) => sum + race.stake, 0);
+  const totalPayout = betRaces.reduce((sum, race) => sum + race.payout, 0);
+  const profit = totalPayout - totalStake;
+
+  let peak = startingBankroll;
+  let maxDrawdown = 0;
+  let maxDrawdownPercentage = 0;
+  for (const bankroll of bankrollPath) {
+    peak = Math.max(peak, bankroll);
+    maxDrawdown = Math.max(maxDrawdown, peak - bankroll);
+    if (peak > 0) maxDrawdownPercentage = Math.max(maxDrawdownPercentage, (peak - bankroll) / peak);
+  }
+
+  let streak = 0;
+  let longestLosingStreak = 0;
+  for (const race of betRaces) {
+    streak = race.hit ? 0 : streak + 1;
+    longestLosingStreak = Math.max(longestLosingStreak, streak);
+  }
+
+  return {
+    races: log.length,
+    racesBet: betRaces.length,
+    totalStake,
+    totalPayout,
+    profit,
+    roi: totalStake > 0 ? (profit / totalStake) * 100 : 0,
+    hitRate: betRaces.length > 0 ? betRaces.filter((race) => race.hit).length / betRaces.length : 0,
+    maxDrawdown,
+    maxDrawdownPercentage,
+    longestLosingStreak,
+    finalBankroll: bankrollPath[bankrollPath.length - 1],
+    bankrollPath,
+    busted,
+    log,
+  };
+}
+
+/**
+ * Backtest a strategy over races fromSeed..toSeed
+ * Stops early once the bankroll can no longer cover the minimum bet
+ */
+export function runBacktest(options: BacktestOptions): BacktestReport {
+  const log: BacktestRaceLog[] = [];
+  let bankroll = options.startingBankroll;
+  let busted = false;
+
+  for (let n = options.fromSeed; n <= options.toSeed; n++) {
+    if (bankroll < options.minBet) {
+      busted = true;
+      break;
+    }
+    const race = createBacktestRace(n, getBacktestSeed(options.seedPrefix, n), options, bankroll, log);
+    const entry = settleStrategyBets(race, options.strategy(race), simulateRaceOutcome(race.horses, race.config));
+    log.push(entry);
+    bankroll = entry.bankroll;
+  }
+
+  return summarizeBacktest(log, options.startingBankroll, busted || bankroll < options.minBet);
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  challengeToSearch,
+  createChallenge,
+  createChallengeProof,
+  getDailyChallenge,
+  getSessionMeetingSeed,
+  parseChallengeProof,
+  parseChallengeSearch,
+  rankLeaderboard,
+  verifyChallenge,
+} from './challenge';
+import { generateMeeting, getBaseRaceConfig } from './meeting';
+import { priceRace } from './pool';
+import { resolveRace } from './payout';
+import { simulateRaceOutcome } from './race';
+import type { Challenge, ChallengeRace } from './types';
+
+describe('challenge', () => {
+  const challenge: Challenge = {
+    ...createChallenge('challenge-test', {
+      difficulty: 'easy',
+      numHorses: 8,
+      pricingMode: 'fixed',
+      maxBetPercentage: 0.5,
+    }),
+    races: 3,
+  };
+
+  // Play the challenge the way the store does: a win bet on the favourite, horse 8 scratched in race 2
+  const play = (passed: number[] = []) => {
+    const baseConfig = getBaseRaceConfig(challenge.difficulty, challenge.numHorses, challenge.pricingMode);
+    const meeting = generateMeeting(1, getSessionMeetingSeed(challenge.seed, 1), baseConfig);
+    const races: ChallengeRace[] = [];
+    let bankroll = challenge.startingBankroll;
+
+    meeting.races.slice(0, challenge.races).forEach((race, idx) => {
+      const scratched = idx === 1 ? [8] : [];
+      const horses = race.horses.map((horse) => (scratched.includes(horse.id) ? { ...horse, scratched: true } : horse));
+      const config = { ...baseConfig, seed: race.seed, conditions: race.conditions };
+      const odds = priceRace(horses, config);
+      const favourite = horses
+        .filter((horse) => !horse.scratched)
+        .reduce((best, horse) => (odds.win[horse.id - 1] < odds.win[best.id - 1] ? horse : best));
+      const bets = passed.includes(idx) ? [] : [{ type: 'win' as const, horses: [favourite.id], stake: 500 }];
+      bankroll = Math.max(0, bankroll + resolveRace(bets, simulateRaceOutcome(horses, config), odds).netProfit);
+      races.push({ bets, scratched });
+    });
+
+    return createChallengeProof(challenge, races, bankroll);
+  };
+
+  it('round-trips a challenge through a URL and seeds the daily one from the date', () => {
+    expect(parseChallengeSearch(challengeToSearch(challenge))).toEqual(challenge);
+    expect(parseChallengeSearch('?challenge=abc&horses=2')).toBeNull();
+    expect(parseChallengeSearch('?challenge=abc&horses=17')).toBeNull();
+    expect(parseChallengeSearch('?challenge=abc&horses=16')?.numHorses).toBe(16);
+    expect(parseChallengeSearch('?foo=bar')).toBeNull();
+    expect(getDailyChallenge(new Date('2026-10-18T12:00:00Z')).seed).toBe('daily-2026-10-18');
+    expect(parseChallengeSearch('?challenge=daily-2026-10-18')).toEqual(getDailyChallenge(new Date('2026-10-18')));
+  });
+
+  it('verifies a run by re-running the engine', () => {
+    const proof = parseChallengeProof(JSON.stringify(play()));
+    const verification = verifyChallenge(proof);
+    expect(verification).toEqual({ valid: true, races: 3, finalBankroll: proof.finalBankroll });
+  });
+
+  it('verifies a run with a race passed without bets', () => {
+    expect(verifyChallenge(play([0])).valid).toBe(true);
+  });
+
+  it('rejects a wrong final bankroll, an unfinished run and bets over the limit', () => {
+    const proof = play();
+    expect(verifyChallenge({ ...proof, finalBankroll: proof.finalBankroll + 100 }).valid).toBe(false);
+    expect(verifyChallenge({ ...proof, races: proof.races.slice(0, 2) }).error).toMatch(/2 of 3/);
+
+    const oversized = proof.races.map((race) => ({
+      ...race,
+      bets: [{ ...race.bets[0], stake: challenge.startingBankroll }],
+    }));
+    expect(verifyChallenge({ ...proof, races: oversized }).valid).toBe(false);
+  });
+
+  it('ranks a challenge leaderboard by final bankroll', () => {
+    const proof = play();
+    const other = { ...challenge, seed: 'other' };
+    const entries = [
+      { player: 'A', finishedAt: '2026-10-18T10:00:00Z', proof: { ...proof, finalBankroll: 9000 } },
+      { player: 'B', finishedAt: '2026-10-18T11:00:00Z', proof: { ...proof, finalBankroll: 12000 } },
+      { player: 'C', finishedAt: '2026-10-18T09:00:00Z', proof: { ...proof, finalBankroll: 12000 } },
+      { player: 'D', finishedAt: '2026-10-18T09:00:00Z', proof: { ...proof, challenge: other } },
+    ];
+    expect(rankLeaderboard(entries, challenge).map((entry) => entry.player)).toEqual(['C', 'B', 'A']);
+    expect(() => parseChallengeProof('{"version": 1}')).toThrow('Not a challenge proof');
+  });
+
+  it('rejects a proof with settings out of range or malformed races', () => {
+    const proof = play();
+    const read = (value: unknown) => () => parseChallengeProof(JSON.stringify(value));
+    expect(read({ ...proof, challenge: { ...challenge, numHorses: 2 } })).toThrow('invalid challenge');
+    expect(read({ ...proof, challenge: { ...challenge, numHorses: 17 } })).toThrow('invalid challenge');
+    expect(read({ ...proof, challenge: { ...challenge, maxBetPercentage: '0.5' } })).toThrow('invalid challenge');
+    expect(read({ ...proof, races: [...proof.races.slice(0, 2), { bets: [] }] })).toThrow('Race 3');
+    const withBet = (bet: unknown) => ({ ...proof, races: [{ ...proof.races[0], bets: [bet] }] });
+    expect(read(withBet({ type: 'lottery', horses: [1, 2], stake: 100 }))).toThrow('Race 1');
+    expect(read(withBet({ type: 'win', horses: ['1'], stake: 100 }))).toThrow('Race 1');
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Seeded challenges
+ * A challenge fixes the session seed, the settings, the number of races and
+ * the starting bankroll, so everyone who plays it gets the same races. A
+ * finished run is kept as a proof (the bets and scratches of every race and
+ * the final bankroll) that anyone can check by re-running the engine
+ */
+
+import type {
+  Challenge,
+  ChallengeProof,
+  ChallengeRace,
+  ChallengeVerification,
+  Difficulty,
+  GameSettings,
+  LeaderboardEntry,
+  Meeting,
+  PricingMode,
+} from './types';
+import { BET_SELECTION_COUNTS, DIFFICULTY_CONFIGS, DEFAULT_SETTINGS, INITIAL_BANKROLL, MIN_BET } from './types';
+import { RACES_PER_MEETING, generateMeeting, getBaseRaceConfig } from './meeting';
+import { simulateRaceOutcome } from './race';
+import { priceRace } from './pool';
+import { resolveRace, validateAllBets } from './payout';
+
+export const CHALLENGE_RACES = RACES_PER_MEETING;
+export const CHALLENGE_PROOF_VERSION = 1;
+
+// Settings that shape the races; they are fixed while a challenge runs
+export const CHALLENGE_SETTINGS = ['difficulty', 'numHorses', 'pricingMode', 'maxBetPercentage'] as const;
+
+const PRICING_MODES: PricingMode[] = ['fixed', 'parimutuel'];
+// Field sizes the game offers (RaceConfig.numHorses)
+const MIN_HORSES = 6;
+const MAX_HORSES = 16;
+
+/**
+ * Seed of meeting n in a seeded session
+ */
+export function getSessionMeetingSeed(sessionSeed: string, meetingNumber: number): string {
+  return `${sessionSeed}-M${meetingNumber}`;
+}
+
+/**
+ * A challenge on a seed with the given settings
+ */
+export function createChallenge(
+  seed: string,
+  settings: Pick<GameSettings, (typeof CHALLENGE_SETTINGS)[number]>
+): Challenge {
+  return {
+    seed,
+    races: CHALLENGE_RACES,
+    startingBankroll: INITIAL_BANKROLL,
+    difficulty: settings.difficulty,
+    numHorses: settings.numHorses,
+    pricingMode: settings.pricingMode,
+    maxBetPercentage: settings.maxBetPercentage,
+  };
+}
+
+/**
+ * The day's challenge: seeded from the UTC date, with the default settings
+ */
+export function getDailyChallenge(date: Date): Challenge {
+  return createChallenge(`daily-${date.toISOString().slice(0, 10)}`, DEFAULT_SETTINGS);
+}
+
+/**
+ * URL query string that starts a challenge
+ */
+export function challengeToSearch(challenge: Challenge): string {
+  const params = new URLSearchParams({
+    challenge: challenge.seed,
+    races: String(challenge.races),
+    bankroll: String(challenge.startingBankroll),
+    difficulty: challenge.difficulty,
+    horses: String(challenge.numHorses),
+    pricing: challenge.pricingMode,
+    maxbet: String(challenge.maxBetPercentage),
+  });
+  return `?${params.toString()}`;
+}
+
+/**
+ * Read a challenge from a URL query string; missing settings take the defaults
+ * Returns null when there is no challenge or a setting is out of range
+ */
+export function parseChallengeSearch(search: string): Challenge | null {
+  const params = new URLSearchParams(search);
+  const seed = params.get('challenge');
+  if (!seed) return null;
+
+  const number = (key: string, fallback: number) => (params.has(key) ? Number(params.get(key)) : fallback);
+  const challenge: Challenge = {
+    ...createChallenge(seed, DEFAULT_SETTINGS),
+    races: number('races', CHALLENGE_RACES),
+    startingBankroll: number('bankroll', INITIAL_BANKROLL),
+    difficulty: (params.get('difficulty') ?? DEFAULT_SETTINGS.difficulty) as Difficulty,
+    numHorses: number('horses', DEFAULT_SETTINGS.numHorses),
+    pricingMode: (params.get('pricing') ?? DEFAULT_SETTINGS.pricingMode) as PricingMode,
+    maxBetPercentage: number('maxbet', DEFAULT_SETTINGS.maxBetPercentage),
+  };
+
+  return isValidChallenge(challenge) ? challenge : null;
+}
+
+/**
+ * Whether a challenge read from a link or a proof has a seed and every setting in range
+ */
+function isValidChallenge(challenge: Challenge): boolean {
+  return (
+    typeof challenge.seed === 'string' &&
+    challenge.seed !== '' &&
+    Number.isInteger(challenge.races) &&
+    challenge.races >= 1 &&
+    Number.isInteger(challenge.startingBankroll) &&
+    challenge.startingBankroll >= MIN_BET &&
+    typeof challenge.difficulty === 'string' &&
+    challenge.difficulty in DIFFICULTY_CONFIGS &&
+    Number.isInteger(challenge.numHorses) &&
+    challenge.numHorses >= MIN_HORSES &&
+    challenge.numHorses <= MAX_HORSES &&
+    PRICING_MODES.includes(challenge.pricingMode) &&
+    typeof challenge.maxBetPercentage === 'number' &&
+    challenge.maxBetPercentage > 0 &&
+    challenge.maxBetPercentage <= 1
+  );
+}
+
+const isIntegerList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((item) => Number.isInteger(item));
+
+/**
+ * Whether a race read from a proof has well-formed bets and scratches
+ * (the rules themselves are checked when the race is re-run)
+ */
+function isValidChallengeRace(race: ChallengeRace): boolean {
+  return (
+    !!race &&
+    typeof race === 'object' &&
+    isIntegerList(race.scratched) &&
+    Array.isArray(race.bets) &&
+    race.bets.every(
+      (bet) =>
+        !!bet &&
+        typeof bet === 'object' &&
+        typeof bet.type === 'string' &&
+        bet.type in BET_SELECTION_COUNTS &&
+        isIntegerList(bet.horses) &&
+        typeof bet.stake === 'number' &&
+        Number.isFinite(bet.stake)
+    )
+  );
+}
+
+/**
+ * Whether two challenges give the same races
+ */
+export function isSameChallenge(a: Challenge, b: Challenge): boolean {
+  return (
+    a.seed === b.seed &&
+    a.races === b.races &&
+    a.startingBankroll === b.startingBankroll &&
+    a.difficulty === b.difficulty &&
+    a.numHorses === b.numHorses &&
+    a.pricingMode === b.pricingMode &&
+    a.maxBetPercentage === b.maxBetPercentage
+  );
+}
+
+/**
+ * A challenge is over after its last race, or once the bankroll cannot cover the minimum bet
+ */
+export function isChallengeOver(challenge: Challenge, racesRun: number, bankroll: number): boolean {
+  return racesRun >= challenge.races || bankroll < MIN_BET;
+}
+
+/**
+ * Re-run a challenge from its proof: the same meetings, fields, prices and
+ * races, with the recorded scratches and bets, and compare the final bankroll
+ */
+export function verifyChallenge(proof: ChallengeProof): ChallengeVerification {
+  const { challenge, races } = proof;
+  const baseConfig = getBaseRaceConfig(challenge.difficulty, challenge.numHorses, challenge.pricingMode);
+  let bankroll = challenge.startingBankroll;
+  let meeting: Meeting | null = null;
+
+  const fail = (error: string, raced: number): ChallengeVerification => ({
+    valid: false,
+    races: raced,
+    finalBankroll: bankroll,
+    error,
+  });
+
+  for (let idx = 0; idx < races.length; idx++) {
+    if (isChallengeOver(challenge, idx, bankroll)) {
+      return fail(`Race ${idx + 1} was run after the challenge ended`, idx);
+    }
+
+    const meetingNumber = Math.floor(idx / RACES_PER_MEETING) + 1;
+    if (meeting?.number !== meetingNumber) {
+      meeting = generateMeeting(
+        meetingNumber,
+        getSessionMeetingSeed(challenge.seed, meetingNumber),
+        baseConfig
+      );
+    }
+    const race = meeting.races[idx % RACES_PER_MEETING];
+    const { bets, scratched } = races[idx];
+
+    const horses = race.horses.map((horse) =>
+      scratched.includes(horse.id) ? { ...horse, scratched: true } : horse
+    );
+    if (
+      scratched.some((id) => !race.horses.some((horse) => horse.id === id)) ||
+      horses.filter((horse) => !horse.scratched).length < 2
+    ) {
+      return fail(`Race ${idx + 1}: invalid scratches`, idx);
+    }
+
+    // A race can be run without bets (the auto-bettor passes some)
+    const validation =
+      bets.length === 0
+        ? { valid: true, errors: [] }
+        : validateAllBets(bets, bankroll, challenge.maxBetPercentage, MIN_BET, horses.length);
+    if (!validation.valid) {
+      return fail(`Race ${idx + 1}: ${validation.errors.join('; ')}`, idx);
+    }
+
+    const config = { ...baseConfig, seed: race.seed, conditions: race.conditions };
+    const result = resolveRace(bets, simulateRaceOutcome(horses, config), priceRace(horses, config));
+    bankroll = Math.max(0, bankroll + result.netProfit);
+  }
+
+  if (!isChallengeOver(challenge, races.length, bankroll)) {
+    return fail(`Only ${races.length} of ${challenge.races} races were run`, races.length);
+  }
+  if (bankroll !== proof.finalBankroll) {
+    return fail(`Claimed ${proof.finalBankroll}pt, but the races give ${bankroll}pt`, races.length);
+  }
+  return { valid: true, races: races.length, finalBankroll: bankroll };
+}
+
+/**
+ * Proof of a finished run
+ */
+export function createChallengeProof(
+  challenge: Challenge,
+  races: ChallengeRace[],
+  finalBankroll: number
+): ChallengeProof {
+  return { version: CHALLENGE_PROOF_VERSION, challenge, races, finalBankroll };
+}
+
+/**
+ * Read a proof pasted or shared as JSON
+ */
+export function parseChallengeProof(json: string): ChallengeProof {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+
+  const proof = data as Partial<ChallengeProof> | null;
+  if (
+    !proof ||
+    typeof proof !== 'object' ||
+    typeof proof.version !== 'number' ||
+    !proof.challenge ||
+    typeof proof.challenge !== 'object' ||
+    !Array.isArray(proof.races) ||
+    typeof proof.finalBankroll !== 'number'
+  ) {
+    throw new Error('Not a challenge proof');
+  }
+  if (proof.version > CHALLENGE_PROOF_VERSION) {
+    throw new Error(`Proof version ${proof.version} is newer than this game supports (${CHALLENGE_PROOF_VERSION})`);
+  }
+  if (!isValidChallenge(proof.challenge)) {
+    throw new Error('The proof has an invalid challenge');
+  }
+  const malformed = proof.races.findIndex((race) => !isValidChallengeRace(race));
+  if (malformed >= 0) {
+    throw new Error(`Race ${malformed + 1} of the proof has malformed bets or scratches`);
+  }
+  return proof as ChallengeProof;
+}
+
+/**
+ * Leaderboard entries for one challenge, best final bankroll first (earlier finish breaks ties)
+ */
+export function rankLeaderboard(entries: LeaderboardEntry[], challenge: Challenge): LeaderboardEntry[] {
+  return entries
+    .filter((entry) => isSameChallenge(entry.proof.challenge, challenge))
+    .sort(
+      (a, b) =>
+        b.proof.finalBankroll - a.proof.finalBankroll || a.finishedAt.localeCompare(b.finishedAt)
+    );
+}
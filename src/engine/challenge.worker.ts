@@ -0,0 +1,40 @@
+/**
+ * Web Worker for challenge verification
+ * Re-running every race of a proof takes seconds, so it runs off the main thread
+ */
+
+import type { ChallengeProof, ChallengeVerification } from './types';
+import { verifyChallenge } from './challenge';
+
+export interface ChallengeWorkerInput {
+  id: number; // Echoed back so each reply finds its request
+  proof: ChallengeProof;
+}
+
+export interface ChallengeWorkerResult {
+  type: 'result';
+  id: number;
+  verification: ChallengeVerification;
+}
+
+export interface ChallengeWorkerError {
+  type: 'error';
+  id: number;
+  error: string;
+}
+
+export type ChallengeWorkerMessage = ChallengeWorkerResult | ChallengeWorkerError;
+
+// Listen for messages from main thread
+self.onmessage = (event: MessageEvent<ChallengeWorkerInput>) => {
+  const { id, proof } = event.data;
+
+  try {
+    const result: ChallengeWorkerResult = { type: 'result', id, verification: verifyChallenge(proof) };
+    self.postMessage(result);
+  } catch (error) {
+    console.error('[Challenge Worker] Error:', error);
+    const message: ChallengeWorkerError = { type: 'error', id, error: String(error) };
+    self.postMessage(message);
+  }
+};
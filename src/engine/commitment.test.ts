@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { commitSeed, createNonce, hashSeed, revealSeed, verifyCommitment } from './commitment';
+import { generateRaceConditions } from './conditions';
+import { generateMeeting } from './meeting';
+import { priceRace } from './pool';
+import { resolveRace } from './payout';
+import { getOutcomeSeed, simulateRace, simulateRaceOutcome } from './race';
+import { rebuildHorses, replayRace } from './replay';
+import type { HistoryEntry, RaceConfig } from './types';
+
+describe('commitment', () => {
+  const baseConfig: Omit<RaceConfig, 'seed' | 'conditions'> = {
+    numHorses: 12,
+    temperature: 20,
+    margin: 0.18,
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+  };
+
+  // Commit, run and reveal a race the way the store does
+  const recordRace = async (seed = 'commitment-test', nonce = 'a1b2c3'): Promise<HistoryEntry> => {
+    const config: RaceConfig = { ...baseConfig, seed, conditions: generateRaceConditions(seed) };
+    const commitment = await commitSeed(seed, nonce, '2026-10-18T10:00:00.000Z');
+    const horses = rebuildHorses(config, [3]);
+    const bets = [{ type: 'win' as const, horses: [1], stake: 100 }];
+    const outcome = simulateRaceOutcome(horses, { ...config, seed: getOutcomeSeed(seed, nonce) });
+    const result = resolveRace(bets, outcome, priceRace(horses, config));
+    return {
+      raceNumber: 1,
+      seed,
+      config,
+      commitment,
+      reveal: revealSeed(seed, nonce, '2026-10-18T10:05:00.000Z'),
+      horses,
+      bets,
+      tickets: [],
+      result,
+      bankrollBefore: 10000,
+      bankrollAfter: 10000 + result.netProfit,
+      roi: 0,
+    };
+  };
+
+  it('hashes seeds with SHA-256 and draws random nonces', async () => {
+    expect(await hashSeed('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(createNonce()).toMatch(/^[0-9a-f]{32}$/);
+    expect(createNonce()).not.toBe(createNonce());
+  });
+
+  it('verifies the revealed seed and nonce and the finish they give', async () => {
+    const entry = await recordRace();
+    expect(await verifyCommitment(entry)).toEqual({ commitment: true, finishOrder: true });
+    expect(replayRace(entry)?.checks.finishOrder).toBe(true);
+  });
+
+  it('catches a swapped seed, nonce or finish', async () => {
+    const entry = await recordRace();
+    const swapped = { ...entry, reveal: revealSeed('another-seed', 'a1b2c3', entry.reveal!.revealedAt) };
+    expect((await verifyCommitment(swapped))?.commitment).toBe(false);
+    const renonced = { ...entry, reveal: revealSeed(entry.seed, 'ffffff', entry.reveal!.revealedAt) };
+    expect((await verifyCommitment(renonced))?.commitment).toBe(false);
+
+    const reordered = {
+      ...entry,
+      result: { ...entry.result, finishOrder: [...entry.result.finishOrder].reverse() },
+    };
+    expect(await verifyCommitment(reordered)).toEqual({ commitment: true, finishOrder: false });
+    expect(await verifyCommitment({ ...entry, commitment: undefined })).toBeNull();
+  });
+
+  it("does not give away the next race's finish when a race is revealed", async () => {
+    const meeting = generateMeeting(1, 'commitment-meeting', baseConfig);
+    const [race1, race2] = meeting.races;
+    const revealed = await recordRace(race1.seed, 'nonce-race-1');
+    const next = await recordRace(race2.seed, 'nonce-race-2');
+    const nextConfig = next.config!;
+
+    // Everything public after race 1: the card, its seed and nonce, and race 2's commitment
+    const guesses = [getOutcomeSeed(race2.seed), getOutcomeSeed(race2.seed, revealed.reveal!.nonce)];
+    for (const seed of guesses) {
+      expect(simulateRace(next.horses, { ...nextConfig, seed })).not.toEqual(next.result.finishOrder);
+    }
+    expect(await hashSeed(race2.seed)).not.toBe(next.commitment!.hash);
+    expect((await commitSeed(race2.seed, revealed.reveal!.nonce!, '')).hash).not.toBe(next.commitment!.hash);
+  });
+});
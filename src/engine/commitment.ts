@@ -0,0 +1,70 @@
+/**
+ * Commit-reveal for race outcomes
+ * Race seeds are on the public card, so the finish is drawn from the seed plus
+ * a random nonce that stays secret until the race is run. Before betting opens
+ * the game publishes the SHA-256 of the seed and nonce; both are revealed after
+ * the race. Anyone can then hash them, compare with the commitment and re-run
+ * the race, which shows the finish order was fixed before any bet was placed.
+ * Revealing one race's nonce tells nothing about the next race's
+ */
+
+import type { CommitmentCheck, HistoryEntry, SeedCommitment, SeedReveal } from './types';
+import { getOutcomeSeed, simulateRace } from './race';
+import { rebuildHorses } from './replay';
+
+const NONCE_BYTES = 16;
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 of a seed as lowercase hex (Web Crypto, works offline)
+ */
+export async function hashSeed(seed: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(seed))));
+}
+
+/**
+ * Secret nonce for one race, from the cryptographic RNG
+ */
+export function createNonce(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(NONCE_BYTES)));
+}
+
+/**
+ * What the commitment hashes: the seed and nonce, or the seed alone for races committed before nonces
+ */
+function getCommittedText(seed: string, nonce?: string): string {
+  return nonce === undefined ? seed : `${seed}:${nonce}`;
+}
+
+/**
+ * Commitment to publish before betting opens
+ */
+export async function commitSeed(seed: string, nonce: string, committedAt: string): Promise<SeedCommitment> {
+  return { hash: await hashSeed(getCommittedText(seed, nonce)), committedAt };
+}
+
+export function revealSeed(seed: string, nonce: string, revealedAt: string): SeedReveal {
+  return { seed, nonce, revealedAt };
+}
+
+/**
+ * Check a past race against its commitment: the revealed seed and nonce must hash
+ * to the commitment, and re-running the race from them must give the recorded finish
+ * Null for races saved without a commitment, reveal or config
+ */
+export async function verifyCommitment(entry: HistoryEntry): Promise<CommitmentCheck | null> {
+  const { commitment, reveal, config } = entry;
+  if (!commitment || !reveal || !config) return null;
+
+  const outcomeConfig = { ...config, seed: getOutcomeSeed(reveal.seed, reveal.nonce) };
+  const finishOrder = simulateRace(rebuildHorses(config, entry.result.scratched), outcomeConfig);
+
+  return {
+    commitment:
+      reveal.seed === config.seed && (await hashSeed(getCommittedText(reveal.seed, reveal.nonce))) === commitment.hash,
+    finishOrder:
+      finishOrder.length === entry.result.finishOrder.length &&
+      finishOrder.every((id, idx) => id === entry.result.finishOrder[idx]),
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GOING_LABELS,
+  RACE_DISTANCES,
+  describeConditions,
+  generateRaceConditions,
+  getConditionAdjustment,
+  getEffectiveRating,
+} from './conditions';
+import { calculateWinProbabilities } from './odds';
+import { generateHorses } from './race';
+import type { Horse, RaceConditions, RaceConfig } from './types';
+
+describe('conditions', () => {
+  const conditions: RaceConditions = { distance: 1600, surface: 'turf', going: 'good', drawBias: 0 };
+  const horse = (id: number, aptitudes: Partial<Horse['aptitudes']> = {}): Horse => ({
+    id,
+    name: `Horse ${id}`,
+    rating: 80,
+    color: '#000000',
+    style: 'midpack',
+    aptitudes: { distance: 1600, surface: 0, going: 0, gate: 0, ...aptitudes },
+  });
+
+  describe('generateRaceConditions', () => {
+    it('is deterministic from the race seed', () => {
+      expect(generateRaceConditions('race-1')).toEqual(generateRaceConditions('race-1'));
+    });
+
+    it('only draws valid conditions', () => {
+      for (let i = 0; i < 50; i++) {
+        const drawn = generateRaceConditions(`race-${i}`);
+        expect(RACE_DISTANCES).toContain(drawn.distance);
+        expect(['turf', 'dirt']).toContain(drawn.surface);
+        expect(Object.keys(GOING_LABELS)).toContain(drawn.going);
+        expect(Math.abs(drawn.drawBias)).toBeLessThanOrEqual(1);
+      }
+    });
+  });
+
+  describe('getConditionAdjustment', () => {
+    const config = { numHorses: 8, conditions };
+
+    it('is zero for a horse exactly suited to a fair race', () => {
+      expect(getConditionAdjustment(horse(1), config)).toBeCloseTo(0);
+    });
+
+    it('penalises horses away from their best distance', () => {
+      const stayer = horse(1, { distance: 3200 });
+      expect(getConditionAdjustment(stayer, config)).toBeCloseTo(-6);
+    });
+
+    it('favours the surface specialist on its surface', () => {
+      const turfHorse = horse(1, { surface: 1 });
+      expect(getConditionAdjustment(turfHorse, config)).toBeGreaterThan(0);
+      expect(
+        getConditionAdjustment(turfHorse, { ...config, conditions: { ...conditions, surface: 'dirt' } })
+      ).toBeLessThan(0);
+    });
+
+    it('only rewards mudlarks on soft going', () => {
+      const mudlark = horse(1, { going: 1 });
+      expect(getConditionAdjustment(mudlark, config)).toBeCloseTo(0);
+      expect(
+        getConditionAdjustment(mudlark, { ...config, conditions: { ...conditions, going: 'bad' } })
+      ).toBeGreaterThan(0);
+    });
+
+    it('favours inside gates under an inside draw bias', () => {
+      const biased = { ...config, conditions: { ...conditions, drawBias: 1 } };
+      const inside = horse(1, { gate: 1 });
+      const outside = horse(8, { gate: 1 });
+      expect(getEffectiveRating(inside, biased)).toBeGreaterThan(getEffectiveRating(outside, biased));
+    });
+  });
+
+  it('changes win probabilities through the horses aptitudes', () => {
+    const config: RaceConfig = {
+      numHorses: 8,
+      temperature: 20,
+      margin: 0.18,
+      seed: 'conditions-test',
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions,
+    };
+    const horses = generateHorses(config);
+    const sprint = calculateWinProbabilities(horses, { ...config, conditions: { ...conditions, distance: 1200 } });
+    const staying = calculateWinProbabilities(horses, { ...config, conditions: { ...conditions, distance: 3200 } });
+
+    expect(sprint).not.toEqual(staying);
+    expect(sprint.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+  });
+
+  it('describes the conditions for the race card', () => {
+    expect(describeConditions({ ...conditions, going: 'slightlyHeavy' })).toBe('芝 1600m 稍重');
+  });
+});
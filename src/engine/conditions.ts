@@ -0,0 +1,162 @@
+/**
+ * Race conditions and horse aptitudes
+ * Distance, surface, going and the gate draw adjust each horse's
+ * effective rating before it goes into the race model
+ */
+
+import { SeededRNG } from './rng';
+import type { Going, Horse, HorseAptitudes, RaceConditions, RaceConfig, Surface } from './types';
+
+export const RACE_DISTANCES = [1200, 1400, 1600, 1800, 2000, 2200, 2400, 2500, 3000, 3200];
+
+export const SURFACE_LABELS: Record<Surface, string> = {
+  turf: '芝',
+  dirt: 'ダート',
+};
+
+export const GOING_LABELS: Record<Going, string> = {
+  good: '良',
+  slightlyHeavy: '稍重',
+  heavy: '重',
+  bad: '不良',
+};
+
+/**
+ * How testing each going is (0 = 良 … 1 = 不良)
+ */
+export const GOING_SEVERITY: Record<Going, number> = {
+  good: 0,
+  slightlyHeavy: 1 / 3,
+  heavy: 2 / 3,
+  bad: 1,
+};
+
+/**
+ * Chance of each going (most races are run on good ground)
+ */
+const GOING_WEIGHTS: [Going, number][] = [
+  ['good', 0.55],
+  ['slightlyHeavy', 0.2],
+  ['heavy', 0.15],
+  ['bad', 0.1],
+];
+
+/**
+ * Rating points lost per doubling (or halving) away from the best distance
+ */
+const DISTANCE_PENALTY = 6;
+
+/**
+ * Rating points for a full surface specialist on / off its surface
+ */
+const SURFACE_EFFECT = 4;
+
+/**
+ * Rating points for a full mudlark (or firm-ground horse) on 不良 ground
+ */
+const GOING_EFFECT = 4;
+
+/**
+ * Rating points between the inside and outside gate at full draw bias
+ */
+const DRAW_EFFECT = 3;
+
+/**
+ * Generate race conditions deterministically from the race seed
+ */
+export function generateRaceConditions(seed: string): RaceConditions {
+  const rng = new SeededRNG(`${seed}-conditions`);
+  const distance = rng.choice(RACE_DISTANCES);
+  const surface: Surface = rng.next() < 0.6 ? 'turf' : 'dirt';
+
+  let roll = rng.next();
+  let going: Going = 'good';
+  for (const [candidate, weight] of GOING_WEIGHTS) {
+    going = candidate;
+    roll -= weight;
+    if (roll < 0) break;
+  }
+
+  // Sprints favour inside gates more than staying races
+  const drawBias = rng.nextRange(-0.3, 1) * (distance <= 1600 ? 1 : 0.5);
+
+  return { distance, surface, going, drawBias };
+}
+
+/**
+ * Generate a horse's aptitudes (separate RNG stream, so ratings are unchanged)
+ */
+export function generateAptitudes(rng: SeededRNG): HorseAptitudes {
+  return {
+    distance: Math.round(rng.nextRange(1200, 3200) / 100) * 100,
+    surface: rng.nextRange(-1, 1),
+    going: rng.nextRange(-1, 1),
+    gate: rng.next(),
+  };
+}
+
+/**
+ * How far inside a gate is: +1 for gate 1 … -1 for the widest gate
+ */
+function getInsideness(gate: number, numHorses: number): number {
+  return numHorses > 1 ? 1 - (2 * (gate - 1)) / (numHorses - 1) : 0;
+}
+
+/**
+ * Rating adjustment for the race conditions
+ * The gate is the horse number (馬番 = post position)
+ */
+export function getConditionAdjustment(
+  horse: Horse,
+  config: Pick<RaceConfig, 'numHorses' | 'conditions'>
+): number {
+  const { aptitudes } = horse;
+  const { distance, surface, going, drawBias } = config.conditions;
+
+  const distanceEffect = -DISTANCE_PENALTY * Math.abs(Math.log2(distance / aptitudes.distance));
+  const surfaceEffect = SURFACE_EFFECT * (surface === 'turf' ? aptitudes.surface : -aptitudes.surface);
+  const goingEffect = GOING_EFFECT * GOING_SEVERITY[going] * aptitudes.going;
+  const drawEffect =
+    (DRAW_EFFECT / 2) * drawBias * getInsideness(horse.id, config.numHorses) * aptitudes.gate;
+
+  return distanceEffect + surfaceEffect + goingEffect + drawEffect;
+}
+
+/**
+ * Rating after the race conditions
+ */
+export function getEffectiveRating(
+  horse: Horse,
+  config: Pick<RaceConfig, 'numHorses' | 'conditions'>
+): number {
+  return horse.rating + getConditionAdjustment(horse, config);
+}
+
+/**
+ * One-line race card description, e.g. "芝 1600m 稍重"
+ */
+export function describeConditions(conditions: RaceConditions): string {
+  return `${SURFACE_LABELS[conditions.surface]} ${conditions.distance}m ${GOING_LABELS[conditions.going]}`;
+}
+
+/**
+ * Draw bias in words for the race card
+ */
+export function describeDrawBias(drawBias: number): string {
+  if (drawBias > 0.15) return 'Inside draw favoured (内枠有利)';
+  if (drawBias < -0.15) return 'Outside draw favoured (外枠有利)';
+  return 'Fair draw';
+}
+
+/**
+ * Short aptitude hints for the race card, e.g. "1800m · 芝◎ · 道悪△"
+ */
+export function describeAptitudes(aptitudes: HorseAptitudes): string {
+  const grade = (value: number) => (value > 0.5 ? '◎' : value > 0 ? '○' : value > -0.5 ? '△' : '×');
+  return [
+    `${aptitudes.distance}m`,
+    `芝${grade(aptitudes.surface)}`,
+    `ダ${grade(-aptitudes.surface)}`,
+    `道悪${grade(aptitudes.going)}`,
+  ].join(' · ');
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDeadHeatDividend,
+  calculatePoolDividend,
+  getDividendRange,
+  takeoutRate,
+} from './dividend';
+import type { BetPool } from './types';
+
+describe('dividend', () => {
+  const pool: BetPool = {
+    takeout: 0.2,
+    total: 10000,
+    stakes: new Map([
+      ['1', 5000],
+      ['2', 3000],
+      ['3', 1500],
+      ['4', 500],
+    ]),
+  };
+
+  it('converts a margin to the takeout returning the same share', () => {
+    expect(1 - takeoutRate(0.18)).toBeCloseTo(1 / 1.18);
+  });
+
+  describe('calculatePoolDividend', () => {
+    it('pays (pool - takeout) / winning stake', () => {
+      expect(calculatePoolDividend(pool, ['2'], '2')).toBeCloseTo(2.6); // 8000 / 3000 = 2.66
+    });
+
+    it('splits the profit equally between several winners', () => {
+      // Profit = 8000 - (5000 + 500) = 2500, split in 2
+      expect(calculatePoolDividend(pool, ['1', '4'], '1')).toBeCloseTo(1.2); // 1 + 1250/5000
+      expect(calculatePoolDividend(pool, ['1', '4'], '4')).toBeCloseTo(3.5); // 1 + 1250/500
+    });
+
+    it('never pays below the stake (元返し)', () => {
+      expect(calculatePoolDividend(pool, ['1', '2', '3'], '1')).toBe(1);
+    });
+
+    it('splits the profit between the tie-breaks of a dead heat', () => {
+      // Dead heat between 3 and 4: profit = 8000 - 2000, half to each
+      const orders = [['3'], ['4']];
+      expect(calculateDeadHeatDividend(pool, orders, '3')).toBeCloseTo(3); // 1 + 3000/1500
+      expect(calculateDeadHeatDividend(pool, orders, '4')).toBeCloseTo(7); // 1 + 3000/500
+    });
+  });
+
+  describe('getDividendRange', () => {
+    it('spans the dividends of the possible winner sets', () => {
+      const range = getDividendRange(pool, '4', [
+        ['4', '1'], // 1 + 2500/1000
+        ['4', '3'], // 1 + 6000/1000
+      ]);
+
+      expect(range.min).toBeCloseTo(3.5);
+      expect(range.max).toBeCloseTo(7);
+    });
+  });
+});
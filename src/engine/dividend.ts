@@ -0,0 +1,92 @@
+/**
+ * Pool dividend arithmetic (JRA style)
+ * Shared by the pari-mutuel pools and the notional pools that price
+ * fixed-odds bets with several winners (place, wide)
+ */
+
+import type { BetPool, OddsRange } from './types';
+
+/**
+ * Convert a bookmaker margin to the equivalent pool takeout
+ * Overround 1 + m returns 1 / (1 + m) to players, so takeout = m / (1 + m)
+ */
+export function takeoutRate(margin: number): number {
+  return margin / (1 + margin);
+}
+
+/**
+ * Round a dividend down to 10pt per 100pt staked, never below 1.0 (元返し)
+ */
+export function roundDividend(dividend: number): number {
+  return Math.max(1, Math.floor(dividend * 10 + 1e-9) / 10);
+}
+
+/**
+ * Build a pool by spreading money over selections in proportion to belief
+ */
+export function buildPool(beliefs: Map<string, number>, size: number, takeout: number): BetPool {
+  const stakes = new Map<string, number>();
+  let total = 0;
+
+  beliefs.forEach((belief, key) => {
+    const money = belief * size;
+    if (money > 0) {
+      stakes.set(key, money);
+      total += money;
+    }
+  });
+
+  return { takeout, total, stakes };
+}
+
+/**
+ * Calculate the dividend (decimal odds) paid on a winning selection
+ * Single winner: (pool − takeout) / winning stake
+ * Several winners (place, wide): winning stakes are returned first, and the
+ * profit is split equally between the winning selections
+ */
+export function calculatePoolDividend(
+  pool: BetPool,
+  winningKeys: string[],
+  key: string
+): number {
+  return calculateDeadHeatDividend(pool, [winningKeys], key);
+}
+
+/**
+ * Calculate the dividend after a dead heat (JRA 同着 rule)
+ * winningKeysByOrder lists the winning keys for each way the tie could be
+ * broken; the profit is split equally between tie-breaks, then equally
+ * between the backed winning keys of each tie-break
+ * (e.g. a dead heat for 3rd halves the 3rd-place share of the place profit)
+ */
+export function calculateDeadHeatDividend(
+  pool: BetPool,
+  winningKeysByOrder: string[][],
+  key: string
+): number {
+  const stake = pool.stakes.get(key) || 0;
+  if (stake <= 0) return 0;
+
+  const isBacked = (k: string) => (pool.stakes.get(k) || 0) > 0;
+  const winners = new Set(winningKeysByOrder.flat().filter(isBacked));
+  const winningStakes = Array.from(winners).reduce((sum, k) => sum + (pool.stakes.get(k) || 0), 0);
+  const profit = pool.total * (1 - pool.takeout) - winningStakes;
+
+  const share = winningKeysByOrder.reduce((sum, keys) => {
+    const backed = keys.filter(isBacked);
+    return backed.includes(key) ? sum + 1 / (winningKeysByOrder.length * backed.length) : sum;
+  }, 0);
+
+  return roundDividend(1 + (profit * share) / stake);
+}
+
+/**
+ * Lowest and highest dividend a selection can pay over the possible sets
+ * of winning keys (each set must include the key)
+ */
+export function getDividendRange(pool: BetPool, key: string, outcomes: string[][]): OddsRange {
+  const dividends = outcomes.map((winningKeys) => calculatePoolDividend(pool, winningKeys, key));
+  if (dividends.length === 0) return { min: 0, max: 0 };
+  return { min: Math.min(...dividends), max: Math.max(...dividends) };
+}
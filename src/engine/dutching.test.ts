@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  dutchByBudget,
+  dutchForProfit,
+  dutchForReturn,
+  getPayout,
+  getStakeForReturn,
+  hedgeSlip,
+  toBets,
+} from './dutching';
+import type { Bet, OddsTable } from './types';
+import { MIN_BET } from './types';
+
+describe('dutching', () => {
+  it('rounds payouts down like settlement', () => {
+    expect(getPayout(100, 2.35)).toBe(235);
+    expect(getPayout(300, 1.15)).toBe(345);
+    expect(getStakeForReturn(1000, 3.3, MIN_BET)).toBe(400);
+    expect(getStakeForReturn(330, 3.3, MIN_BET)).toBe(100);
+  });
+
+  it('spreads a budget so every horse pays about the same', () => {
+    const result = dutchByBudget([2.5, 4, 10], 2000, MIN_BET)!;
+    expect(result.totalStake).toBe(2000);
+    result.lines.forEach((line) => expect(line.stake % MIN_BET).toBe(0));
+    // Within one unit's payout of each other
+    expect(result.maxProfit - result.minProfit).toBeLessThanOrEqual(MIN_BET * 10);
+    expect(result.lines.map((line) => line.stake)).toEqual([1000, 700, 300]);
+    expect(dutchByBudget([2, 3], 100, MIN_BET)).toBeNull();
+  });
+
+  it('finds the smallest stakes for a target return', () => {
+    const result = dutchForReturn([2.5, 4], 1000, MIN_BET)!;
+    expect(result.lines.map((line) => line.stake)).toEqual([400, 300]);
+    result.lines.forEach((line) => expect(line.payout).toBeGreaterThanOrEqual(1000));
+  });
+
+  it('finds the smallest stakes for a profit on every horse', () => {
+    const result = dutchForProfit([3, 5, 8], 500, MIN_BET)!;
+    result.lines.forEach((line) => expect(line.profit).toBeGreaterThanOrEqual(500));
+    // One unit less on any line misses the target
+    result.lines.forEach((line) => {
+      expect(getPayout(line.stake - MIN_BET, line.odds) - (result.totalStake - MIN_BET)).toBeLessThan(500);
+    });
+    expect(dutchForProfit([1.8, 2.2], 100, MIN_BET)).toBeNull(); // Book over 100%
+  });
+
+  it('finds profit stakes for a book just under 100%', () => {
+    // Book 99.5%: the stakes run to tens of thousands of points
+    const result = dutchForProfit([2.02, 2.02, 201], 100, MIN_BET)!;
+    expect(result).not.toBeNull();
+    result.lines.forEach((line) => expect(line.profit).toBeGreaterThanOrEqual(100));
+  });
+
+  describe('hedgeSlip', () => {
+    const odds = {
+      win: [3, 6, 12, 20],
+      place: [1.4, 2, 3, 5],
+    } as unknown as OddsTable;
+    const slip: Bet[] = [{ type: 'win', horses: [3], stake: 500 }];
+    const covers: Bet[] = [
+      { type: 'win', horses: [1], stake: MIN_BET },
+      { type: 'win', horses: [2], stake: MIN_BET },
+    ];
+
+    it('breaks even on the whole outlay if a cover wins', () => {
+      const result = hedgeSlip(covers, odds, slip, 'breakEven', MIN_BET)!;
+      result.lines.forEach((line) => expect(line.payout).toBeGreaterThanOrEqual(result.totalStake + 500));
+      expect(result.minProfit).toBeGreaterThanOrEqual(0);
+    });
+
+    it('locks in the hedged bet payout on every cover', () => {
+      const result = hedgeSlip(covers, odds, slip, 'lockIn', MIN_BET, slip[0])!;
+      result.lines.forEach((line) => expect(line.payout).toBeGreaterThanOrEqual(6000));
+      expect(toBets(covers, result).map((bet) => bet.stake)).toEqual([2000, 1000]);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Dutching and hedging calculators
+ * Dutching backs several selections so whichever wins returns about the
+ * same; hedging sizes covering bets against a slip already placed.
+ * Stakes are whole MIN_BET units and payouts are floor(stake × odds),
+ * as in settlement.
+ */
+
+import type { Bet, DutchLine, DutchResult, HedgeMode, OddsTable } from './types';
+import { getOddsForBet } from './payout';
+
+export const HEDGE_MODE_LABELS: Record<HedgeMode, string> = {
+  breakEven: 'Break even (cover the whole slip)',
+  lockIn: 'Lock in (cover pays like the bet)',
+};
+
+/**
+ * Payout of a winning stake, rounded down like settlement
+ */
+export function getPayout(stake: number, odds: number): number {
+  return Math.floor(stake * odds + 1e-9);
+}
+
+/**
+ * Smallest whole-unit stake whose payout reaches target
+ */
+export function getStakeForReturn(target: number, odds: number, minBet: number): number {
+  let stake = Math.max(minBet, Math.ceil(target / odds / minBet - 1e-9) * minBet);
+  while (getPayout(stake, odds) < target) stake += minBet;
+  return stake;
+}
+
+/**
+ * Profits of the lines given what else is already staked
+ */
+function summarize(odds: number[], stakes: number[], heldStake: number): DutchResult {
+  const totalStake = stakes.reduce((sum, s) => sum + s, 0);
+  const lines: DutchLine[] = odds.map((o, i) => {
+    const payout = getPayout(stakes[i], o);
+    return { odds: o, stake: stakes[i], payout, profit: payout - totalStake - heldStake };
+  });
+  const profits = lines.map((line) => line.profit);
+  return {
+    lines,
+    totalStake,
+    minProfit: Math.min(...profits),
+    maxProfit: Math.max(...profits),
+    bookPercentage: odds.reduce((sum, o) => sum + 1 / o, 0),
+  };
+}
+
+/**
+ * Spread a budget so every selection pays about the same:
+ * stakes ∝ 1 / odds, then leftover units go to the lowest payout
+ */
+export function dutchByBudget(odds: number[], budget: number, minBet: number): DutchResult | null {
+  const units = Math.floor(budget / minBet + 1e-9);
+  if (odds.length === 0 || units < odds.length || odds.some((o) => !(o > 0))) return null;
+
+  const book = odds.reduce((sum, o) => sum + 1 / o, 0);
+  const stakes = odds.map((o) => Math.max(1, Math.floor(units / o / book)) * minBet);
+  let left = units * minBet - stakes.reduce((sum, s) => sum + s, 0);
+  while (left >= minBet) {
+    const payouts = odds.map((o, i) => getPayout(stakes[i], o));
+    const lowest = payouts.indexOf(Math.min(...payouts));
+    stakes[lowest] += minBet;
+    left -= minBet;
+  }
+  // Rounding up to one unit each can overshoot: take units off the highest payout
+  while (stakes.reduce((sum, s) => sum + s, 0) > units * minBet) {
+    const payouts = odds.map((o, i) => (stakes[i] > minBet ? getPayout(stakes[i], o) : -Infinity));
+    stakes[payouts.indexOf(Math.max(...payouts))] -= minBet;
+  }
+
+  return summarize(odds, stakes, 0);
+}
+
+/**
+ * Smallest stakes so every selection returns at least target
+ */
+export function dutchForReturn(odds: number[], target: number, minBet: number): DutchResult | null {
+  if (odds.length === 0 || odds.some((o) => !(o > 0))) return null;
+  return summarize(
+    odds,
+    odds.map((o) => getStakeForReturn(target, o, minBet)),
+    0
+  );
+}
+
+/**
+ * Smallest stakes so every selection makes at least profit, counting the
+ * dutch stakes and heldStake (already on the slip) as the outlay;
+ * null when the prices cannot do it (their book is 100% or more)
+ */
+export function dutchForProfit(
+  odds: number[],
+  profit: number,
+  minBet: number,
+  heldStake = 0
+): DutchResult | null {
+  if (odds.length === 0 || odds.some((o) => !(o > 0))) return null;
+  const book = odds.reduce((sum, o) => sum + 1 / o, 0);
+  if (book >= 1) return null;
+
+  // Stakes ∝ 1 / odds return the same R at a cost of R × book, so R (1 − book) must cover
+  // the profit and the held stake; one more unit per line covers rounding stakes up
+  const target = Math.ceil((profit + heldStake + odds.length * minBet) / (1 - book));
+  const stakes = odds.map((o) => getStakeForReturn(target, o, minBet));
+
+  // Take units off any line that still makes the profit without them (the others only gain)
+  let trimmed = true;
+  while (trimmed) {
+    trimmed = false;
+    odds.forEach((o, i) => {
+      const outlay = stakes.reduce((sum, s) => sum + s, 0) - minBet + heldStake;
+      if (stakes[i] > minBet && getPayout(stakes[i] - minBet, o) - outlay >= profit) {
+        stakes[i] -= minBet;
+        trimmed = true;
+      }
+    });
+  }
+  return summarize(odds, stakes, heldStake);
+}
+
+/**
+ * Size win-style covering bets against a slip
+ * breakEven: any cover winning returns the whole outlay (slip + covers)
+ * lockIn: any cover winning pays what the hedged bet would
+ */
+export function hedgeSlip(
+  covers: Bet[],
+  odds: OddsTable,
+  slip: Bet[],
+  mode: HedgeMode,
+  minBet: number,
+  hedgedBet?: Bet
+): DutchResult | null {
+  const coverOdds = covers.map((bet) => getOddsForBet(bet, odds));
+  const slipStake = slip.reduce((sum, bet) => sum + bet.stake, 0);
+
+  if (mode === 'breakEven') return dutchForProfit(coverOdds, 0, minBet, slipStake);
+  if (!hedgedBet) return null;
+  const result = dutchForReturn(coverOdds, getPayout(hedgedBet.stake, getOddsForBet(hedgedBet, odds)), minBet);
+  return result && summarize(coverOdds, result.lines.map((line) => line.stake), slipStake);
+}
+
+/**
+ * Turn calculated stakes into bets for the slip (zero stakes dropped)
+ */
+export function toBets(selections: Bet[], result: DutchResult): Bet[] {
+  return selections
+    .map((bet, i) => ({ ...bet, stake: result.lines[i].stake }))
+    .filter((bet) => bet.stake > 0);
+}
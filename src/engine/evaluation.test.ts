@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePredictions, getCalibrationCurve, scorePredictions } from './evaluation';
+import type { TrifectaPrediction } from './trifecta-predictor';
+import type { ScoredPrediction } from './types';
+
+describe('evaluation', () => {
+  const prediction = (horses: [number, number, number], probability: number, strategy = 'A'): TrifectaPrediction => ({
+    horses,
+    confidence: Math.round(probability * 1000) / 10,
+    probability,
+    strategy,
+    expectedOdds: 0,
+    reasoning: '',
+  });
+
+  it('scores predictions against the exact finish order', () => {
+    const scored = scorePredictions(
+      [prediction([1, 2, 3], 0.1), prediction([2, 1, 3], 0.05)],
+      [1, 2, 3, 4, 5],
+      7
+    );
+    expect(scored.map((s) => s.hit)).toEqual([true, false]);
+    expect(scored[0]).toMatchObject({ raceNumber: 7, strategy: 'A', probability: 0.1 });
+  });
+
+  it('computes hit rate, Brier score and log-loss per strategy', () => {
+    const scored: ScoredPrediction[] = [
+      { raceNumber: 1, strategy: 'A', horses: [1, 2, 3], probability: 0.2, hit: true },
+      { raceNumber: 1, strategy: 'A', horses: [2, 1, 3], probability: 0.1, hit: false },
+      { raceNumber: 2, strategy: 'A', horses: [1, 2, 3], probability: 0.2, hit: false },
+      { raceNumber: 2, strategy: 'B', horses: [1, 2, 3], probability: 0.5, hit: false },
+    ];
+    const [a, b] = evaluatePredictions(scored);
+    expect(a.strategy).toBe('A');
+    expect(a.predictions).toBe(3);
+    expect(a.races).toBe(2);
+    expect(a.hitRate).toBeCloseTo(1 / 3);
+    expect(a.raceHitRate).toBeCloseTo(1 / 2);
+    expect(a.brierScore).toBeCloseTo((0.8 ** 2 + 0.1 ** 2 + 0.2 ** 2) / 3);
+    expect(a.logLoss).toBeCloseTo(-(Math.log(0.2) + Math.log(0.9) + Math.log(0.8)) / 3);
+    expect(b.brierScore).toBeCloseTo(0.25);
+  });
+
+  it('keeps the log-loss finite when a 0% prediction hits', () => {
+    const [evaluation] = evaluatePredictions([
+      { raceNumber: 1, strategy: 'A', horses: [1, 2, 3], probability: 0, hit: true },
+    ]);
+    expect(Number.isFinite(evaluation.logLoss)).toBe(true);
+  });
+
+  it('bins predictions into a reliability curve', () => {
+    const scored: ScoredPrediction[] = [0.005, 0.008, 0.03, 0.04, 0.04, 1].map((probability, idx) => ({
+      raceNumber: idx,
+      strategy: 'A',
+      horses: [1, 2, 3],
+      probability,
+      hit: idx === 2 || idx === 5,
+    }));
+    const curve = getCalibrationCurve(scored);
+    expect(curve.map((bin) => [bin.low, bin.count])).toEqual([
+      [0, 2],
+      [0.02, 3],
+      [0.5, 1], // 100% falls in the last bin
+    ]);
+    expect(curve[1].meanProbability).toBeCloseTo(0.11 / 3);
+    expect(curve[1].observedRate).toBeCloseTo(1 / 3);
+    expect(curve[0].observedRate).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Predictor evaluation
+ * Every trifecta prediction is a yes/no forecast with a probability, scored
+ * against the actual finish: hit rate, Brier score, log-loss and a
+ * reliability curve (predicted chance against observed frequency) per strategy
+ */
+
+import type { CalibrationBin, PredictionEvaluation, ScoredPrediction } from './types';
+import type { TrifectaPrediction } from './trifecta-predictor';
+
+// Reliability curve bins; trifecta chances are mostly small, so the low end is finer
+export const CALIBRATION_EDGES = [0, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1];
+
+const MIN_PROBABILITY = 1e-6; // Keeps the log-loss finite for a 0% prediction that hits
+
+/**
+ * Score a race's predictions against its finish order
+ */
+export function scorePredictions(
+  predictions: TrifectaPrediction[],
+  finishOrder: number[],
+  raceNumber: number
+): ScoredPrediction[] {
+  const first3 = finishOrder.slice(0, 3).join('-');
+  return predictions.map((prediction) => ({
+    raceNumber,
+    strategy: prediction.strategy,
+    horses: prediction.horses,
+    probability: prediction.probability,
+    hit: prediction.horses.join('-') === first3,
+  }));
+}
+
+/**
+ * Reliability curve: predictions binned by predicted chance
+ */
+export function getCalibrationCurve(scored: ScoredPrediction[], edges = CALIBRATION_EDGES): CalibrationBin[] {
+  return edges.slice(0, -1).flatMap((low, idx) => {
+    const high = edges[idx + 1];
+    const last = idx === edges.length - 2;
+    const inBin = scored.filter((s) => s.probability >= low && (last ? s.probability <= high : s.probability < high));
+    if (inBin.length === 0) return [];
+    return [
+      {
+        low,
+        high,
+        count: inBin.length,
+        meanProbability: inBin.reduce((sum, s) => sum + s.probability, 0) / inBin.length,
+        observedRate: inBin.filter((s) => s.hit).length / inBin.length,
+      },
+    ];
+  });
+}
+
+/**
+ * Scores of one set of predictions
+ */
+export function evaluateScoredPredictions(strategy: string, scored: ScoredPrediction[]): PredictionEvaluation {
+  const count = scored.length;
+  const races = new Set(scored.map((s) => s.raceNumber));
+  const racesHit = new Set(scored.filter((s) => s.hit).map((s) => s.raceNumber));
+  const mean = (value: (s: ScoredPrediction) => number) =>
+    count > 0 ? scored.reduce((sum, s) => sum + value(s), 0) / count : 0;
+
+  return {
+    strategy,
+    predictions: count,
+    races: races.size,
+    hitRate: mean((s) => (s.hit ? 1 : 0)),
+    raceHitRate: races.size > 0 ? racesHit.size / races.size : 0,
+    brierScore: mean((s) => (s.probability - (s.hit ? 1 : 0)) ** 2),
+    logLoss: mean((s) => {
+      const p = Math.min(1 - MIN_PROBABILITY, Math.max(MIN_PROBABILITY, s.probability));
+      return -Math.log(s.hit ? p : 1 - p);
+    }),
+    calibration: getCalibrationCurve(scored),
+  };
+}
+
+/**
+ * Scores per strategy, in the order the strategies first appear
+ */
+export function evaluatePredictions(scored: ScoredPrediction[]): PredictionEvaluation[] {
+  const strategies = Array.from(new Set(scored.map((s) => s.strategy)));
+  return strategies.map((strategy) => evaluateScoredPredictions(strategy, scored.filter((s) => s.strategy === strategy)));
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RACES_PER_MEETING,
+  generateMeeting,
+  getMeetingRace,
+  getMeetingRaceConfig,
+  openMeetingRace,
+} from './meeting';
+import { priceRace } from './pool';
+import { generateHorses } from './race';
+import type { RaceConfig } from './types';
+
+describe('meeting', () => {
+  const baseConfig: Omit<RaceConfig, 'seed' | 'conditions'> = {
+    numHorses: 10,
+    temperature: 20,
+    margin: 0.18,
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+  };
+  const meeting = generateMeeting(3, 'meeting-test', baseConfig);
+
+  it('generates the whole card up front from the meeting seed', () => {
+    expect(generateMeeting(3, 'meeting-test', baseConfig)).toEqual(meeting);
+    expect(meeting.number).toBe(3);
+    expect(meeting.races).toHaveLength(RACES_PER_MEETING);
+    expect(new Set(meeting.races.map((race) => race.seed)).size).toBe(RACES_PER_MEETING);
+  });
+
+  it('gives every race a name, post time and field', () => {
+    meeting.races.forEach((race, idx) => {
+      expect(race.number).toBe(idx + 1);
+      expect(race.name).not.toBe('');
+      expect(race.postTime).toMatch(/^\d{1,2}:\d{2}$/);
+      expect(race.horses).toHaveLength(10);
+    });
+    expect(meeting.races[0].postTime).toBe('10:05');
+  });
+
+  it('fields the same horses the race seed would generate', () => {
+    const race = getMeetingRace(meeting, 5)!;
+    expect(race.horses).toEqual(
+      generateHorses({ ...baseConfig, seed: race.seed, conditions: race.conditions })
+    );
+    expect(getMeetingRace(meeting, RACES_PER_MEETING + 1)).toBeUndefined();
+  });
+
+  it('keeps the pricing a race opened with when the setting changes before it runs', () => {
+    const opened = openMeetingRace(meeting, 2, baseConfig);
+    const race = getMeetingRace(opened, 2)!;
+    const odds = priceRace(race.horses, getMeetingRaceConfig(race, baseConfig));
+
+    // Switched to pari-mutuel between pricing and running
+    const parimutuel = { ...baseConfig, pricing: 'parimutuel' as const };
+    const config = getMeetingRaceConfig(race, parimutuel);
+    expect(config.pricing).toBe('fixed');
+    expect(priceRace(race.horses, config).win).toEqual(odds.win);
+    expect(getMeetingRaceConfig(getMeetingRace(openMeetingRace(opened, 2, parimutuel), 2)!, parimutuel)).toEqual(config);
+
+    // The next race opens with the new setting
+    const next = getMeetingRace(openMeetingRace(opened, 3, parimutuel), 3)!;
+    expect(getMeetingRaceConfig(next, baseConfig).pricing).toBe('parimutuel');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Race meetings
+ * A day's card of races is generated up front from one meeting seed:
+ * every race gets its own seed, name, post time, conditions and field
+ */
+
+import { SeededRNG } from './rng';
+import { generateRaceConditions } from './conditions';
+import { generateHorses } from './race';
+import type { Difficulty, Meeting, MeetingRace, PricingMode, RaceConfig } from './types';
+import { DIFFICULTY_CONFIGS } from './types';
+
+export const RACES_PER_MEETING = 12;
+
+const VENUES = ['東京', '中山', '京都', '阪神', '中京', '新潟', '福島', '小倉', '札幌', '函館'];
+
+/**
+ * Race class by race number (R11 is the day's main race)
+ */
+const RACE_CLASSES = [
+  '2歳未勝利',
+  '3歳未勝利',
+  '3歳未勝利',
+  '3歳以上1勝クラス',
+  '3歳以上1勝クラス',
+  '3歳以上2勝クラス',
+  '3歳以上2勝クラス',
+  '3歳以上2勝クラス',
+  '3歳以上3勝クラス',
+  'オープン特別',
+  '', // Main race: named from STAKES_NAMES
+  '3歳以上2勝クラス',
+];
+
+const STAKES_NAMES = [
+  'ダッシュステークス (G3)',
+  'シード記念 (G2)',
+  'プラケット・ルースカップ (G3)',
+  'モンテカルロ賞 (G2)',
+  'ハービル大賞典 (G1)',
+  'サーストンステークス (G3)',
+];
+
+/**
+ * First post (発走) and the gap between races, in minutes after midnight
+ */
+const FIRST_POST = 10 * 60 + 5;
+const POST_INTERVAL = 30;
+
+function formatPostTime(minutes: number): string {
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Race config without the per-race parts (seed and conditions)
+ */
+export function getBaseRaceConfig(
+  difficulty: Difficulty,
+  numHorses: number,
+  pricing: PricingMode
+): Omit<RaceConfig, 'seed' | 'conditions'> {
+  const difficultyConfig = DIFFICULTY_CONFIGS[difficulty];
+  return {
+    numHorses,
+    temperature: difficultyConfig.temperature!,
+    margin: difficultyConfig.margin!,
+    difficulty,
+    pricing,
+    model: difficultyConfig.model!,
+  };
+}
+
+/**
+ * Generate a meeting's full card
+ * Field settings come from the base config; seeds and conditions from the meeting seed
+ */
+export function generateMeeting(
+  number: number,
+  seed: string,
+  baseConfig: Omit<RaceConfig, 'seed' | 'conditions'>
+): Meeting {
+  const rng = new SeededRNG(seed);
+  const venue = rng.choice(VENUES);
+  const stakesName = rng.choice(STAKES_NAMES);
+
+  const races: MeetingRace[] = Array.from({ length: RACES_PER_MEETING }, (_, idx) => {
+    const raceSeed = `${seed}-R${idx + 1}`;
+    const conditions = generateRaceConditions(raceSeed);
+    return {
+      number: idx + 1,
+      name: RACE_CLASSES[idx] || stakesName,
+      postTime: formatPostTime(FIRST_POST + idx * POST_INTERVAL),
+      seed: raceSeed,
+      conditions,
+      horses: generateHorses({ ...baseConfig, seed: raceSeed, conditions }),
+    };
+  });
+
+  return { number, seed, venue, races };
+}
+
+/**
+ * Race on the card, or undefined past the last race
+ */
+export function getMeetingRace(meeting: Meeting | null, raceNumber: number): MeetingRace | undefined {
+  return meeting?.races[raceNumber - 1];
+}
+
+/**
+ * Config a race on the card runs with: the one fixed when it opened, or the base config for cards saved before
+ */
+export function getMeetingRaceConfig(race: MeetingRace, baseConfig: Omit<RaceConfig, 'seed' | 'conditions'>): RaceConfig {
+  return race.config ?? { ...baseConfig, seed: race.seed, conditions: race.conditions };
+}
+
+/**
+ * Open a race for betting: fix its config so the odds, the race, the multi-race
+ * settlement and the replay all use the settings it was priced with
+ */
+export function openMeetingRace(
+  meeting: Meeting,
+  raceNumber: number,
+  baseConfig: Omit<RaceConfig, 'seed' | 'conditions'>
+): Meeting {
+  return {
+    ...meeting,
+    races: meeting.races.map((race) =>
+      race.number === raceNumber ? { ...race, config: getMeetingRaceConfig(race, baseConfig) } : race
+    ),
+  };
+}
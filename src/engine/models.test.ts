@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { RACE_MODELS, harvilleDiscounted, plackettLuce, thurstone } from './models';
+import { SeededRNG } from './rng';
+
+describe('models', () => {
+  const strengths = [5.2, 4.8, 4.5, 4.1, 3.9, 3.3];
+
+  describe.each(Object.values(RACE_MODELS))('$name', (model) => {
+    const field = model.prepare(strengths);
+
+    it('samples a full finish order deterministically', () => {
+      const order1 = model.sampleOrder(strengths, new SeededRNG('model-sample'));
+      const order2 = model.sampleOrder(strengths, new SeededRNG('model-sample'));
+
+      expect(order1).toEqual(order2);
+      expect([...order1].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it('gives consistent probabilities for longer orders', () => {
+      // P(a wins) = Σ_b P(a 1st, b 2nd)
+      strengths.forEach((_, a) => {
+        const pairs = strengths.reduce(
+          (sum, _s, b) => (b === a ? sum : sum + field.orderProbability([a, b])),
+          0
+        );
+        expect(pairs).toBeCloseTo(field.orderProbability([a]), 6);
+      });
+    });
+
+    it('makes the strongest runner the favourite', () => {
+      const win = strengths.map((_, idx) => field.orderProbability([idx]));
+      expect(Math.max(...win)).toBe(win[0]);
+    });
+  });
+
+  it('Plackett-Luce follows s_i / S × s_j / (S − s_i)', () => {
+    const weights = strengths.map(Math.exp);
+    const total = weights.reduce((a, b) => a + b, 0);
+
+    expect(plackettLuce.prepare(strengths).orderProbability([2, 0])).toBeCloseTo(
+      (weights[2] / total) * (weights[0] / (total - weights[2])),
+      12
+    );
+  });
+
+  it('discounted Harville keeps win odds but flattens the lower places', () => {
+    const pl = plackettLuce.prepare(strengths);
+    const discounted = harvilleDiscounted.prepare(strengths);
+    const second = (field: typeof pl, runner: number) =>
+      strengths.reduce(
+        (sum, _s, first) => (first === runner ? sum : sum + field.orderProbability([first, runner])),
+        0
+      );
+
+    expect(discounted.orderProbability([0])).toBeCloseTo(pl.orderProbability([0]), 12);
+    // Favourite runs 2nd less often, the outsider more often
+    expect(second(discounted, 0)).toBeLessThan(second(pl, 0));
+    expect(second(discounted, 5)).toBeGreaterThan(second(pl, 5));
+  });
+
+  it('Thurstone treats equal runners symmetrically', () => {
+    const field = thurstone.prepare([4, 4, 4, 4, 4]);
+
+    expect(field.orderProbability([2])).toBeCloseTo(1 / 5, 6);
+    expect(field.orderProbability([1, 3])).toBeCloseTo(1 / 20, 6);
+    expect(field.orderProbability([4, 0, 2])).toBeCloseTo(1 / 60, 6);
+  });
+});
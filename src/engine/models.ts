@@ -0,0 +1,276 @@
+/**
+ * Race outcome models
+ * Every model turns runner strengths (rating / τ) into finish orders,
+ * both by sampling and by exact probability queries
+ */
+
+import type { RaceModelName } from './types';
+import type { SeededRNG } from './rng';
+
+/**
+ * Probability queries for one field of runners
+ * Runners are referred to by index into the strengths array
+ */
+export interface FieldProbabilities {
+  /**
+   * P(the given runners fill the first positions in this order)
+   * e.g. [a] = P(a wins), [a, b] = P(a 1st, b 2nd)
+   */
+  orderProbability(order: number[]): number;
+}
+
+export interface RaceModel {
+  name: RaceModelName;
+  label: string;
+  /**
+   * Draw a full finish order (runner indices, winner first)
+   */
+  sampleOrder(strengths: number[], rng: SeededRNG): number[];
+  /**
+   * Precompute what probability queries need for a field
+   */
+  prepare(strengths: number[]): FieldProbabilities;
+}
+
+/**
+ * Sample one runner from the remaining ones based on weights
+ * Using weighted random selection
+ */
+function sampleByWeight(remaining: number[], weights: number[], rng: SeededRNG): number {
+  // Calculate total weight of remaining runners
+  const totalWeight = remaining.reduce((sum, idx) => sum + weights[idx], 0);
+
+  // Random value in [0, totalWeight)
+  let target = rng.next() * totalWeight;
+
+  for (const idx of remaining) {
+    target -= weights[idx];
+    if (target <= 0) {
+      return idx;
+    }
+  }
+
+  // Fallback (should not reach here due to floating point)
+  return remaining[remaining.length - 1];
+}
+
+/**
+ * Draw runners one position at a time
+ * weightsForPosition gives the weights used to pick each finishing position
+ */
+function sampleSequentially(
+  numRunners: number,
+  weightsForPosition: (position: number) => number[],
+  rng: SeededRNG
+): number[] {
+  const remaining = Array.from({ length: numRunners }, (_, idx) => idx);
+  const order: number[] = [];
+
+  while (remaining.length > 0) {
+    const selected = sampleByWeight(remaining, weightsForPosition(order.length), rng);
+    order.push(selected);
+    remaining.splice(remaining.indexOf(selected), 1);
+  }
+
+  return order;
+}
+
+/**
+ * Probability of an order when each position is drawn like a win
+ * from the runners left: Π w_p(o_p) / Σ_{m left} w_p(m)
+ */
+function sequentialOrderProbability(
+  order: number[],
+  weightsForPosition: (position: number) => number[]
+): number {
+  let probability = 1;
+  const taken = new Set<number>();
+
+  order.forEach((runner, position) => {
+    const weights = weightsForPosition(position);
+    const remainingWeight = weights.reduce((sum, w, idx) => (taken.has(idx) ? sum : sum + w), 0);
+    probability *= weights[runner] / remainingWeight;
+    taken.add(runner);
+  });
+
+  return probability;
+}
+
+/**
+ * Plackett-Luce (Harville): every position is drawn like a win
+ * Weight s_i = exp(strength_i)
+ */
+export const plackettLuce: RaceModel = {
+  name: 'plackett-luce',
+  label: 'Plackett-Luce',
+
+  sampleOrder(strengths, rng) {
+    const weights = strengths.map(Math.exp);
+    return sampleSequentially(strengths.length, () => weights, rng);
+  },
+
+  prepare(strengths) {
+    const weights = strengths.map(Math.exp);
+    return {
+      orderProbability: (order) => sequentialOrderProbability(order, () => weights),
+    };
+  },
+};
+
+/**
+ * Discount exponents for 2nd and 3rd place (Benter, 1994)
+ * Later places are drawn with flatter weights s_i^γ: favourites win more
+ * often than Harville's model says they fill 2nd and 3rd
+ */
+export const HARVILLE_DISCOUNTS = [1, 0.81, 0.65];
+
+/**
+ * Harville model with discounted weights for the lower places
+ */
+export const harvilleDiscounted: RaceModel = {
+  name: 'harville-discounted',
+  label: 'Discounted Harville',
+
+  sampleOrder(strengths, rng) {
+    const weights = discountedWeights(strengths);
+    return sampleSequentially(strengths.length, (position) => weights[discountIndex(position)], rng);
+  },
+
+  prepare(strengths) {
+    const weights = discountedWeights(strengths);
+    return {
+      orderProbability: (order) =>
+        sequentialOrderProbability(order, (position) => weights[discountIndex(position)]),
+    };
+  },
+};
+
+function discountIndex(position: number): number {
+  return Math.min(position, HARVILLE_DISCOUNTS.length - 1);
+}
+
+function discountedWeights(strengths: number[]): number[][] {
+  return HARVILLE_DISCOUNTS.map((gamma) => strengths.map((s) => Math.exp(gamma * s)));
+}
+
+/**
+ * Standard deviation of the Gumbel noise implied by Plackett-Luce (π / √6)
+ * Thurstone performances use the same spread, so ratings mean the same thing
+ */
+const GUMBEL_SD = Math.PI / Math.sqrt(6);
+
+/**
+ * Quadrature grid for the Thurstone integrals
+ */
+const QUADRATURE_POINTS = 601; // Odd, so every other point is a grid too (Richardson)
+const QUADRATURE_PADDING = 6; // Standard deviations beyond the weakest / strongest runner
+
+/**
+ * log Φ(x), accurate in the far tails
+ * erfc from Numerical Recipes (fractional error < 1.2e-7 everywhere)
+ */
+function logNormalCdf(x: number): number {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.5 * z);
+  const logErfc =
+    Math.log(t) -
+    z * z -
+    1.26551223 +
+    t *
+      (1.00002368 +
+        t *
+          (0.37409196 +
+            t *
+              (0.09678418 +
+                t *
+                  (-0.18628806 +
+                    t *
+                      (0.27886807 +
+                        t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))));
+  // Φ(x) = erfc(-x / √2) / 2
+  return x < 0 ? logErfc - Math.LN2 : Math.log1p(-Math.exp(logErfc) / 2);
+}
+
+/**
+ * Thurstone / Henery normal-performance model
+ * Each runner's performance is N(strength / (π/√6), 1); the highest finishes first
+ * Probabilities are nested integrals over the performances, by quadrature
+ */
+export const thurstone: RaceModel = {
+  name: 'thurstone',
+  label: 'Thurstone (normal)',
+
+  sampleOrder(strengths, rng) {
+    const performances = strengths.map((s) => s / GUMBEL_SD + rng.nextNormal());
+    return strengths
+      .map((_, idx) => idx)
+      .sort((a, b) => performances[b] - performances[a]);
+  },
+
+  prepare(strengths) {
+    const means = strengths.map((s) => s / GUMBEL_SD);
+    const lo = Math.min(...means) - QUADRATURE_PADDING;
+    const hi = Math.max(...means) + QUADRATURE_PADDING;
+    const step = (hi - lo) / (QUADRATURE_POINTS - 1);
+    const grid = Array.from({ length: QUADRATURE_POINTS }, (_, g) => lo + g * step);
+
+    // Density and log CDF of every runner's performance on the grid
+    const density = means.map((mu) =>
+      grid.map((x) => Math.exp(-0.5 * (x - mu) ** 2) / Math.sqrt(2 * Math.PI))
+    );
+    const logCdf = means.map((mu) => grid.map((x) => logNormalCdf(x - mu)));
+    const logCdfSum = grid.map((_, g) => logCdf.reduce((sum, runner) => sum + runner[g], 0));
+
+    // Nested integral with the trapezoid rule on every `stride`-th grid point
+    const integrate = (order: number[], stride: number) => {
+      const h = step * stride;
+      const points: number[] = [];
+      for (let g = 0; g < QUADRATURE_POINTS; g += stride) points.push(g);
+
+      // Runners outside the order all perform below the last one in it
+      const last = order[order.length - 1];
+      let inner = points.map((g) => {
+        const othersBelow = order.reduce((sum, runner) => sum - logCdf[runner][g], logCdfSum[g]);
+        return density[last][g] * Math.exp(othersBelow);
+      });
+
+      // Cumulative integral from the innermost position outwards
+      for (let position = order.length - 1; ; position--) {
+        const cumulative = new Array<number>(points.length);
+        cumulative[0] = 0;
+        for (let p = 1; p < points.length; p++) {
+          cumulative[p] = cumulative[p - 1] + ((inner[p - 1] + inner[p]) * h) / 2;
+        }
+        if (position === 0) return cumulative[points.length - 1];
+        const above = density[order[position - 1]];
+        inner = cumulative.map((value, p) => above[points[p]] * value);
+      }
+    };
+
+    return {
+      // Richardson extrapolation cancels the O(h²) error of the trapezoid rule
+      orderProbability: (order) => (4 * integrate(order, 1) - integrate(order, 2)) / 3,
+    };
+  },
+};
+
+/**
+ * Probabilities of a mixture of fields (e.g. one per pace scenario)
+ * P(order) = Σ weight_k × P_k(order)
+ */
+export function mixFields(components: { weight: number; field: FieldProbabilities }[]): FieldProbabilities {
+  return {
+    orderProbability: (order) =>
+      components.reduce((sum, { weight, field }) => sum + weight * field.orderProbability(order), 0),
+  };
+}
+
+export const RACE_MODELS: Record<RaceModelName, RaceModel> = {
+  'plackett-luce': plackettLuce,
+  'harville-discounted': harvilleDiscounted,
+  thurstone,
+};
+
+export function getRaceModel(name: RaceModelName): RaceModel {
+  return RACE_MODELS[name];
+}
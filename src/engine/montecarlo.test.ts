@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOddsBands,
+  mergeProbabilityTables,
+  runAdaptiveMonteCarlo,
+  toEstimateTable,
+  wilsonInterval,
+} from './montecarlo';
+import { calculateExactProbabilities, estimateProbabilityTable } from './odds';
+import { generateHorses, runMonteCarloSimulations } from './race';
+import type { RaceConfig } from './types';
+
+describe('montecarlo', () => {
+  const config: RaceConfig = {
+    numHorses: 6,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'adaptive-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+
+  describe('wilsonInterval', () => {
+    it('contains the estimate and stays inside [0, 1]', () => {
+      const interval = wilsonInterval(0.3, 1000);
+
+      expect(interval.min).toBeLessThan(0.3);
+      expect(interval.max).toBeGreaterThan(0.3);
+      expect(wilsonInterval(0, 1000).min).toBe(0);
+      expect(wilsonInterval(1, 1000).max).toBe(1);
+    });
+
+    it('narrows with more trials', () => {
+      const wide = wilsonInterval(0.1, 1000);
+      const narrow = wilsonInterval(0.1, 100000);
+
+      expect(narrow.max - narrow.min).toBeLessThan(wide.max - wide.min);
+    });
+  });
+
+  it('merges batches into the estimate of all trials', () => {
+    const first = runMonteCarloSimulations(horses, config, 1000, 'merge-a');
+    const second = runMonteCarloSimulations(horses, config, 3000, 'merge-b');
+
+    const merged = mergeProbabilityTables(
+      estimateProbabilityTable(first, 6),
+      1000,
+      estimateProbabilityTable(second, 6),
+      3000
+    );
+    const all = estimateProbabilityTable([...first, ...second], 6);
+
+    merged.win.forEach((p, idx) => expect(p).toBeCloseTo(all.win[idx], 10));
+    all.trifecta.forEach((p, key) => expect(merged.trifecta.get(key)).toBeCloseTo(p, 10));
+  });
+
+  describe('runAdaptiveMonteCarlo', () => {
+    it('stops once the target precision is met', () => {
+      const result = runAdaptiveMonteCarlo(horses, config, {
+        maxTrials: 100000,
+        targetPrecision: 0.2,
+        timeBudgetMs: 60000,
+      })!;
+
+      expect(result.precision.precisionMet).toBe(true);
+      expect(result.precision.precision).toBeLessThanOrEqual(0.2);
+      expect(result.precision.trials).toBeLessThan(100000);
+    });
+
+    it('stops at the trial cap when the target is out of reach', () => {
+      const batches: number[] = [];
+      const result = runAdaptiveMonteCarlo(
+        horses,
+        config,
+        { maxTrials: 3000, targetPrecision: 0.001, timeBudgetMs: 60000 },
+        (precision) => batches.push(precision.trials)
+      )!;
+
+      expect(result.precision.trials).toBe(3000);
+      expect(result.precision.precisionMet).toBe(false);
+      expect(batches).toEqual([1000, 2000, 3000]);
+    });
+
+    it('stops after one batch when the time budget is spent', () => {
+      const result = runAdaptiveMonteCarlo(horses, config, {
+        maxTrials: 100000,
+        targetPrecision: 0.001,
+        timeBudgetMs: 0,
+      })!;
+
+      expect(result.precision.trials).toBe(5000);
+    });
+
+    it('skips sampling with no trials', () => {
+      expect(
+        runAdaptiveMonteCarlo(horses, config, { maxTrials: 0, targetPrecision: 0.05, timeBudgetMs: 1000 })
+      ).toBeNull();
+    });
+  });
+
+  it('gives every price a band around the exact price', () => {
+    const result = runAdaptiveMonteCarlo(horses, config, {
+      maxTrials: 20000,
+      targetPrecision: 0.05,
+      timeBudgetMs: 60000,
+    })!;
+    const estimates = toEstimateTable(result.estimates, result.precision.trials);
+    const bands = calculateOddsBands(estimates, config.margin);
+    const exact = calculateExactProbabilities(horses, config);
+
+    // 95% bands: one horse in eight may miss by chance
+    let misses = 0;
+    exact.win.forEach((p, idx) => {
+      const estimate = estimates.win.get(String(idx + 1))!;
+      const band = bands.win!.get(String(idx + 1))!;
+      const price = 1 / (p * (1 + config.margin));
+
+      expect(estimate.standardError).toBeGreaterThan(0);
+      expect(band.min).toBeLessThan(band.max);
+      if (price < band.min || price > band.max) misses++;
+    });
+    expect(misses).toBeLessThanOrEqual(1);
+    // Place and wide prices are pool dividends, so they get no band
+    expect(bands.place).toBeUndefined();
+    expect(bands.wide).toBeUndefined();
+  });
+});
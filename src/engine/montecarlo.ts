@@ -0,0 +1,234 @@
+/**
+ * Adaptive Monte Carlo estimation
+ * Samples in batches until the selections that matter reach the target
+ * precision (or the trial cap / time budget runs out), and reports a
+ * standard error and 95% confidence interval for every estimate
+ */
+
+import type {
+  BetType,
+  ComboBetType,
+  EstimateTable,
+  Horse,
+  MonteCarloOptions,
+  MonteCarloPrecision,
+  OddsBands,
+  OddsRange,
+  ProbabilityEstimate,
+  ProbabilityTable,
+  RaceConfig,
+} from './types';
+import { COMBO_BET_TYPES } from './types';
+import { runMonteCarloSimulations } from './race';
+import { estimateProbabilityTable } from './odds';
+
+/**
+ * Selections at least this likely (odds up to ~200) must reach the target precision
+ * Rarer combinations are reported with their interval but do not extend sampling
+ */
+export const RELEVANT_PROBABILITY = 0.005;
+
+/**
+ * Smallest batch of simulations between precision checks
+ */
+const MIN_BATCH_SIZE = 1000;
+
+/**
+ * z-score of a two-sided 95% interval
+ */
+const Z_95 = 1.96;
+
+/**
+ * Standard error of an estimated probability
+ */
+export function standardError(probability: number, trials: number): number {
+  return trials > 0 ? Math.sqrt((probability * (1 - probability)) / trials) : 0;
+}
+
+/**
+ * Wilson score interval (stays inside [0, 1], even for rare combinations)
+ */
+export function wilsonInterval(probability: number, trials: number, z: number = Z_95): OddsRange {
+  if (trials <= 0) return { min: 0, max: 1 };
+  const z2 = z * z;
+  const denominator = 1 + z2 / trials;
+  const center = (probability + z2 / (2 * trials)) / denominator;
+  const halfWidth =
+    (z / denominator) *
+    Math.sqrt((probability * (1 - probability)) / trials + z2 / (4 * trials * trials));
+  return { min: Math.max(0, center - halfWidth), max: Math.min(1, center + halfWidth) };
+}
+
+/**
+ * Combine two estimates by trial-weighted average of every probability
+ */
+function mergeMaps(
+  a: Map<string, number>,
+  aTrials: number,
+  b: Map<string, number>,
+  bTrials: number
+): Map<string, number> {
+  const total = aTrials + bTrials;
+  const merged = new Map<string, number>();
+  a.forEach((p, key) => merged.set(key, (p * aTrials) / total));
+  b.forEach((p, key) => merged.set(key, (merged.get(key) || 0) + (p * bTrials) / total));
+  return merged;
+}
+
+export function mergeProbabilityTables(
+  a: ProbabilityTable,
+  aTrials: number,
+  b: ProbabilityTable,
+  bTrials: number
+): ProbabilityTable {
+  const total = aTrials + bTrials;
+  const mergeArrays = (x: number[], y: number[]) =>
+    x.map((p, idx) => (p * aTrials + y[idx] * bTrials) / total);
+  const combos = Object.fromEntries(
+    COMBO_BET_TYPES.map((type) => [type, mergeMaps(a[type], aTrials, b[type], bTrials)])
+  ) as Record<ComboBetType, Map<string, number>>;
+
+  return {
+    win: mergeArrays(a.win, b.win),
+    place: mergeArrays(a.place, b.place),
+    ...combos,
+  };
+}
+
+/**
+ * Every estimated probability keyed by selection (horse ID for win/place)
+ */
+function toKeyedProbabilities(estimates: ProbabilityTable): Record<BetType, Map<string, number>> {
+  const byHorse = (values: number[]) =>
+    new Map(
+      values.flatMap((p, idx): [string, number][] => (p > 0 ? [[String(idx + 1), p]] : []))
+    );
+
+  return {
+    win: byHorse(estimates.win),
+    place: byHorse(estimates.place),
+    quinella: estimates.quinella,
+    exacta: estimates.exacta,
+    wide: estimates.wide,
+    trio: estimates.trio,
+    trifecta: estimates.trifecta,
+    bracketQuinella: estimates.bracketQuinella,
+  };
+}
+
+/**
+ * Attach a standard error and 95% interval to every estimated probability
+ */
+export function toEstimateTable(estimates: ProbabilityTable, trials: number): EstimateTable {
+  const keyed = toKeyedProbabilities(estimates);
+
+  return Object.fromEntries(
+    Object.entries(keyed).map(([type, probabilities]) => {
+      const withErrors = new Map<string, ProbabilityEstimate>();
+      probabilities.forEach((probability, key) => {
+        const interval = wilsonInterval(probability, trials);
+        withErrors.set(key, {
+          probability,
+          standardError: standardError(probability, trials),
+          low: interval.min,
+          high: interval.max,
+        });
+      });
+      return [type, withErrors];
+    })
+  ) as EstimateTable;
+}
+
+/**
+ * Largest relative standard error among the selections that matter
+ */
+export function calculateRelativePrecision(estimates: ProbabilityTable, trials: number): number {
+  let worst = 0;
+  for (const probabilities of Object.values(toKeyedProbabilities(estimates))) {
+    probabilities.forEach((p) => {
+      if (p >= RELEVANT_PROBABILITY) {
+        worst = Math.max(worst, standardError(p, trials) / p);
+      }
+    });
+  }
+  return worst;
+}
+
+export interface AdaptiveMonteCarloResult {
+  estimates: ProbabilityTable;
+  precision: MonteCarloPrecision;
+}
+
+/**
+ * Sample races in batches until the target precision, trial cap or time budget
+ * onBatch receives the running precision after every batch (for progress)
+ */
+export function runAdaptiveMonteCarlo(
+  horses: Horse[],
+  config: RaceConfig,
+  options: MonteCarloOptions,
+  onBatch?: (precision: MonteCarloPrecision) => void
+): AdaptiveMonteCarloResult | null {
+  if (options.maxTrials <= 0) return null;
+
+  const startTime = Date.now();
+  const batchSize = Math.max(MIN_BATCH_SIZE, Math.floor(options.maxTrials / 20));
+  let estimates: ProbabilityTable | null = null;
+  let trials = 0;
+  let precision: MonteCarloPrecision;
+
+  do {
+    const currentBatchSize = Math.min(batchSize, options.maxTrials - trials);
+    const simulations = runMonteCarloSimulations(
+      horses,
+      config,
+      currentBatchSize,
+      `${config.seed}-batch-${trials}`
+    );
+    const batch = estimateProbabilityTable(simulations, horses.length);
+
+    estimates = estimates
+      ? mergeProbabilityTables(estimates, trials, batch, currentBatchSize)
+      : batch;
+    trials += currentBatchSize;
+
+    const relative = calculateRelativePrecision(estimates, trials);
+    precision = {
+      trials,
+      precision: relative,
+      targetPrecision: options.targetPrecision,
+      precisionMet: relative <= options.targetPrecision,
+      elapsedMs: Date.now() - startTime,
+    };
+    onBatch?.(precision);
+  } while (
+    !precision.precisionMet &&
+    trials < options.maxTrials &&
+    precision.elapsedMs < options.timeBudgetMs
+  );
+
+  return { estimates, precision };
+}
+
+// Priced from notional pools per outcome (see getMultiWinnerRanges), so a band of 1 / p would not describe them
+const UNBANDED_TYPES = ['place', 'wide'];
+
+/**
+ * Odds band implied by the 95% interval of each estimate
+ * Priced like fixed odds: 1 / (p × (1 + margin)), floored at 1.05; none for place and wide
+ */
+export function calculateOddsBands(estimates: EstimateTable, margin: number): OddsBands {
+  const toOdds = (p: number) => (p > 0 ? Math.max(1.05, 1 / (p * (1 + margin))) : Infinity);
+
+  return Object.fromEntries(
+    Object.entries(estimates)
+      .filter(([type]) => !UNBANDED_TYPES.includes(type))
+      .map(([type, byKey]) => {
+        const bands = new Map<string, OddsRange>();
+        byKey.forEach((estimate, key) => {
+          bands.set(key, { min: toOdds(estimate.high), max: toOdds(estimate.low) });
+        });
+        return [type, bands];
+      })
+  ) as OddsBands;
+}
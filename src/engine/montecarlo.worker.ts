@@ -1,27 +1,40 @@
 /**
- * Web Worker for Monte Carlo odds estimation
- * Runs simulations in background to avoid blocking UI
+ * Web Worker for odds calculation
+ * Prices every combination analytically and posts the odds straight away,
+ * then runs adaptive Monte Carlo sampling in background as a cross-check,
+ * with a 95% band per price (fixed odds only: pool prices are not model prices)
  */
 
-import type { Horse, RaceConfig } from './types';
-import { runMonteCarloSimulations } from './race';
-import {
-  estimatePlaceProbabilities,
-  estimateQuinellaProbabilities,
-  estimateTrifectaProbabilities,
-  applyOverround,
-  toDecimalOdds,
-  calculateWinOdds,
-} from './odds';
+import type {
+  Horse,
+  RaceConfig,
+  MonteCarloDeviation,
+  MonteCarloOptions,
+  MonteCarloPrecision,
+} from './types';
+import { calculateExactProbabilities, compareEstimates } from './odds';
+import { priceRace } from './pool';
+import { calculateOddsBands, runAdaptiveMonteCarlo, toEstimateTable } from './montecarlo';
+import { serializeOddsTable } from './serialize';
+import type { SerializedOddsTable } from './serialize';
 
 export interface WorkerInput {
+  id: number; // Echoed back so replies to an older request can be ignored
   horses: Horse[];
   config: RaceConfig;
-  numTrials: number;
+  sampling: MonteCarloOptions; // maxTrials 0 skips the Monte Carlo cross-check
+}
+
+// Exact prices, posted before sampling starts
+export interface WorkerOdds {
+  type: 'odds';
+  id: number;
+  odds: SerializedOddsTable;
 }
 
 export interface WorkerProgress {
   type: 'progress';
+  id: number;
   progress: number;
   trials: number;
   totalTrials: number;
@@ -29,82 +42,77 @@ export interface WorkerProgress {
 
 export interface WorkerResult {
   type: 'result';
-  winOdds: number[];
-  placeOdds: number[];
-  quinellaOdds: [string, number][];
-  trifectaOdds: [string, number][];
+  id: number;
+  odds: SerializedOddsTable;
+  deviation: MonteCarloDeviation | null;
+  precision: MonteCarloPrecision | null;
 }
 
-export type WorkerMessage = WorkerProgress | WorkerResult;
+export type WorkerMessage = WorkerOdds | WorkerProgress | WorkerResult;
 
 // Listen for messages from main thread
 self.onmessage = (event: MessageEvent<WorkerInput>) => {
-  const { horses, config, numTrials } = event.data;
+  const { id, horses, config, sampling } = event.data;
 
-  console.log('[Worker] Received request:', { numHorses: horses.length, numTrials });
+  console.log('[Worker] Received request:', { numHorses: horses.length, sampling });
 
   try {
-    // Run simulations with progress updates
-    const batchSize = Math.max(1000, Math.floor(numTrials / 10));
-    const allSimulations: number[][] = [];
-
-    for (let batch = 0; batch < numTrials; batch += batchSize) {
-      const currentBatchSize = Math.min(batchSize, numTrials - batch);
-      const baseSeed = `${config.seed}-batch-${batch}`;
+    // Exact probabilities and odds (analytical), or crowd pools in pari-mutuel mode
+    const probabilities = calculateExactProbabilities(horses, config);
+    const oddsTable = priceRace(horses, config, probabilities);
 
-      const batchSimulations = runMonteCarloSimulations(
-        horses,
-        config,
-        currentBatchSize,
-        baseSeed
-      );
-      allSimulations.push(...batchSimulations);
+    // Betting can open on the exact prices while the sampling runs
+    const odds: WorkerOdds = { type: 'odds', id, odds: serializeOddsTable(oddsTable) };
+    self.postMessage(odds);
 
-      // Send progress update
+    // Sample until the target precision, trial cap or time budget
+    // (progress follows whichever limit is closest)
+    const monteCarlo = runAdaptiveMonteCarlo(horses, config, sampling, (precision) => {
       const progress: WorkerProgress = {
         type: 'progress',
-        progress: Math.round((allSimulations.length / numTrials) * 100),
-        trials: allSimulations.length,
-        totalTrials: numTrials,
+        id,
+        progress: Math.round(
+          Math.min(
+            1,
+            Math.max(
+              precision.trials / sampling.maxTrials,
+              precision.elapsedMs / sampling.timeBudgetMs
+            )
+          ) * 100
+        ),
+        trials: precision.trials,
+        totalTrials: sampling.maxTrials,
       };
       self.postMessage(progress);
-    }
-
-    // Calculate odds from simulations
-    const winOdds = calculateWinOdds(horses, config);
-
-    const placeProbs = estimatePlaceProbabilities(allSimulations, horses.length);
-    const adjustedPlaceProbs = applyOverround(placeProbs, config.margin);
-    const placeOdds = toDecimalOdds(adjustedPlaceProbs);
-
-    const quinellaProbs = estimateQuinellaProbabilities(allSimulations);
-    const quinellaOdds: [string, number][] = [];
-    quinellaProbs.forEach((prob, key) => {
-      const adjustedProb = prob * (1 + config.margin);
-      const odds = Math.max(1.05, 1 / adjustedProb);
-      quinellaOdds.push([key, odds]);
     });
 
-    const trifectaProbs = estimateTrifectaProbabilities(allSimulations);
-    const trifectaOdds: [string, number][] = [];
-    trifectaProbs.forEach((prob, key) => {
-      const adjustedProb = prob * (1 + config.margin);
-      const odds = Math.max(1.05, 1 / adjustedProb);
-      trifectaOdds.push([key, odds]);
-    });
+    // Cross-check the analytic values against the estimates
+    const deviation =
+      monteCarlo &&
+      compareEstimates(probabilities, monteCarlo.estimates, monteCarlo.precision.trials);
+    if (monteCarlo) {
+      console.log('[Worker] Monte Carlo deviation:', deviation, monteCarlo.precision);
+      // Bands are bookmaker prices of the estimates, so they only describe fixed odds
+      if (config.pricing === 'fixed') {
+        oddsTable.bands = calculateOddsBands(
+          toEstimateTable(monteCarlo.estimates, monteCarlo.precision.trials),
+          config.margin
+        );
+      }
+    }
 
     // Send final result
     const result: WorkerResult = {
       type: 'result',
-      winOdds,
-      placeOdds,
-      quinellaOdds,
-      trifectaOdds,
+      id,
+      odds: serializeOddsTable(oddsTable),
+      deviation,
+      precision: monteCarlo?.precision ?? null,
     };
     console.log('[Worker] Sending result');
     self.postMessage(result);
   } catch (error) {
     console.error('[Worker] Error:', error);
-    self.postMessage({ type: 'error', error: String(error) });
+    self.postMessage({ type: 'error', id, error: String(error) });
   }
 };
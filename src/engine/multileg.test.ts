@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_CARRYOVER,
+  MULTI_LEG_POOL_SIZES,
+  MULTI_LEG_TAKEOUT,
+  countWinningCombinations,
+  createMultiLegBet,
+  getLegRaceNumbers,
+  settleMeetingPools,
+  settleMultiLegPool,
+  validateMultiLegBet,
+} from './multileg';
+import { generateMeeting } from './meeting';
+import type { LegResult, Meeting, RaceConfig } from './types';
+
+describe('multileg', () => {
+  const baseConfig: Omit<RaceConfig, 'seed' | 'conditions'> = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+  };
+  const meeting = generateMeeting(1, 'multileg-test', baseConfig);
+  const result = (winners: number[], favourite = 1, scratched: number[] = []): LegResult => ({
+    winners,
+    favourite,
+    scratched,
+  });
+  const withResults = (results: Record<number, LegResult>): Meeting => ({
+    ...meeting,
+    races: meeting.races.map((race) => ({ ...race, result: results[race.number] })),
+  });
+
+  it('runs the legs on the last races of the card', () => {
+    expect(getLegRaceNumbers('win5', 12)).toEqual([8, 9, 10, 11, 12]);
+    expect(getLegRaceNumbers('dailyDouble', 12)).toEqual([11, 12]);
+  });
+
+  describe('countWinningCombinations', () => {
+    it('needs the winner of every leg', () => {
+      expect(countWinningCombinations([[1, 2], [3]], [result([2]), result([3])])).toBe(1);
+      expect(countWinningCombinations([[1, 2], [3]], [result([2]), result([4])])).toBe(0);
+    });
+
+    it('pays both winners of a dead heat', () => {
+      expect(countWinningCombinations([[1, 2], [3]], [result([1, 2]), result([3])])).toBe(2);
+    });
+
+    it('counts a scratched pick as the favourite', () => {
+      expect(countWinningCombinations([[5], [3]], [result([1], 1, [5]), result([3])])).toBe(1);
+    });
+  });
+
+  describe('validateMultiLegBet', () => {
+    const legs = [[1], [2], [3], [4], [5]];
+
+    it('accepts a bet before the first leg', () => {
+      const bet = createMultiLegBet('win5', 1, legs, 100);
+      expect(validateMultiLegBet(bet, meeting, 10000, 100).valid).toBe(true);
+    });
+
+    it('closes once the first leg is run', () => {
+      const bet = createMultiLegBet('win5', 1, legs, 100);
+      expect(validateMultiLegBet(bet, withResults({ 8: result([1]) }), 10000, 100).valid).toBe(false);
+    });
+
+    it('needs a pick in every leg and enough bankroll', () => {
+      expect(validateMultiLegBet(createMultiLegBet('win5', 1, legs.slice(0, 4), 100), meeting, 10000, 100).valid).toBe(false);
+      expect(validateMultiLegBet(createMultiLegBet('win5', 1, [[1, 2, 3], ...legs.slice(1)], 100), meeting, 200, 100).valid).toBe(false);
+    });
+  });
+
+  describe('settleMultiLegPool', () => {
+    const beliefs = [new Map([[1, 0.5], [2, 0.5]]), new Map([[1, 0.5], [2, 0.5]])];
+
+    it('shares the pool between the winning tickets', () => {
+      const bet = createMultiLegBet('dailyDouble', 1, [[1], [1]], 100);
+      const settlement = settleMultiLegPool('dailyDouble', [bet], [result([1]), result([1])], beliefs, 0);
+
+      const net = (MULTI_LEG_POOL_SIZES.dailyDouble + 100) * (1 - MULTI_LEG_TAKEOUT.dailyDouble);
+      const winningStake = MULTI_LEG_POOL_SIZES.dailyDouble * 0.25 + 100;
+      expect(settlement.dividend).toBeCloseTo(Math.floor((net / winningStake) * 10) / 10);
+      expect(settlement.payouts[0].payout).toBe(Math.floor(100 * settlement.dividend));
+      expect(settlement.carryoverOut).toBe(0);
+    });
+
+    it('carries the pool over when nobody hits', () => {
+      const longshots = [new Map([[1, 1e-6], [2, 1]]), new Map([[1, 1e-6], [2, 1]])];
+      const settlement = settleMultiLegPool('dailyDouble', [], [result([1]), result([1])], longshots, 5000);
+
+      expect(settlement.dividend).toBe(0);
+      expect(settlement.carryoverOut).toBe(
+        Math.floor(MULTI_LEG_POOL_SIZES.dailyDouble * (1 - MULTI_LEG_TAKEOUT.dailyDouble) + 5000)
+      );
+    });
+
+    it('adds the carryover to the winners', () => {
+      const bet = createMultiLegBet('dailyDouble', 1, [[1], [1]], 100);
+      const plain = settleMultiLegPool('dailyDouble', [bet], [result([1]), result([1])], beliefs, 0);
+      const boosted = settleMultiLegPool('dailyDouble', [bet], [result([1]), result([1])], beliefs, 1_000_000);
+      expect(boosted.dividend).toBeGreaterThan(plain.dividend);
+    });
+  });
+
+  describe('settleMeetingPools', () => {
+    const getConfig = (race: Meeting['races'][number]): RaceConfig => ({
+      ...baseConfig,
+      seed: race.seed,
+      conditions: race.conditions,
+    });
+
+    it('settles a pool after its last leg only', () => {
+      const bet = createMultiLegBet('dailyDouble', 1, [[1], [1]], 100);
+      const early = settleMeetingPools(withResults({ 11: result([1]) }), 11, [bet], EMPTY_CARRYOVER, getConfig);
+      expect(early.settlements).toHaveLength(0);
+      expect(early.openBets).toEqual([bet]);
+
+      const done = settleMeetingPools(
+        withResults({ 11: result([1]), 12: result([1]) }),
+        12,
+        [bet],
+        EMPTY_CARRYOVER,
+        getConfig
+      );
+      expect(done.settlements.map((s) => s.type)).toEqual(['dailyDouble']);
+      expect(done.openBets).toHaveLength(0);
+      expect(done.settlements[0].payouts[0].won).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Multi-race bets (daily double, pick 4, WIN5)
+ * Pick the winner of consecutive races on a meeting's card. Each type has
+ * one pari-mutuel pool per meeting on the last races of the card; a pool
+ * nobody hits carries over to the same pool at the next meeting
+ */
+
+import type {
+  Horse,
+  LegResult,
+  Meeting,
+  MeetingRace,
+  MultiLegBet,
+  MultiLegBetType,
+  MultiLegPayout,
+  MultiLegSettlement,
+  RaceConfig,
+} from './types';
+import { calculateWinProbabilities } from './odds';
+import { getCrowdHorses } from './pool';
+import { roundDividend } from './dividend';
+
+export const MULTI_LEG_BET_TYPES: MultiLegBetType[] = ['dailyDouble', 'pick4', 'win5'];
+
+export const MULTI_LEG_LABELS: Record<MultiLegBetType, string> = {
+  dailyDouble: 'Daily Double (2重勝)',
+  pick4: 'Pick 4 (4重勝)',
+  win5: 'WIN5',
+};
+
+export const MULTI_LEG_LEG_COUNTS: Record<MultiLegBetType, number> = {
+  dailyDouble: 2,
+  pick4: 4,
+  win5: 5,
+};
+
+/**
+ * Crowd money put into each pool
+ */
+export const MULTI_LEG_POOL_SIZES: Record<MultiLegBetType, number> = {
+  dailyDouble: 4_000_000,
+  pick4: 6_000_000,
+  win5: 10_000_000,
+};
+
+/**
+ * Pool takeout (JRA: 30% for WIN5)
+ */
+export const MULTI_LEG_TAKEOUT: Record<MultiLegBetType, number> = {
+  dailyDouble: 0.25,
+  pick4: 0.25,
+  win5: 0.3,
+};
+
+export const EMPTY_CARRYOVER: Record<MultiLegBetType, number> = {
+  dailyDouble: 0,
+  pick4: 0,
+  win5: 0,
+};
+
+/**
+ * The crowd buys whole 100pt tickets: a winning share below one ticket means nobody hit
+ */
+const TICKET_UNIT = 100;
+
+/**
+ * Race numbers of the legs (the last races of the card)
+ */
+export function getLegRaceNumbers(type: MultiLegBetType, numRaces: number): number[] {
+  const legs = MULTI_LEG_LEG_COUNTS[type];
+  return Array.from({ length: legs }, (_, idx) => numRaces - legs + 1 + idx);
+}
+
+/**
+ * Number of combinations (tickets) a bet covers
+ */
+export function getCombinationCount(legs: number[][]): number {
+  return legs.reduce((count, leg) => count * leg.length, 1);
+}
+
+export function createMultiLegBet(
+  type: MultiLegBetType,
+  meetingNumber: number,
+  legs: number[][],
+  stake: number
+): MultiLegBet {
+  return {
+    id: `multileg-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    meetingNumber,
+    legs: legs.map((leg) => [...leg]),
+    stake,
+  };
+}
+
+/**
+ * Bets are sold until the first leg is run
+ */
+export function isMultiLegOpen(type: MultiLegBetType, meeting: Meeting): boolean {
+  const firstLeg = getLegRaceNumbers(type, meeting.races.length)[0];
+  return firstLeg >= 1 && !meeting.races[firstLeg - 1].result;
+}
+
+/**
+ * Validate a multi-race bet before taking the stake
+ */
+export function validateMultiLegBet(
+  bet: MultiLegBet,
+  meeting: Meeting,
+  bankroll: number,
+  minBet: number
+): { valid: boolean; error?: string } {
+  if (bet.meetingNumber !== meeting.number) {
+    return { valid: false, error: 'Bet is for another meeting' };
+  }
+  if (!isMultiLegOpen(bet.type, meeting)) {
+    return { valid: false, error: `${MULTI_LEG_LABELS[bet.type]} is closed` };
+  }
+
+  const legRaces = getLegRaceNumbers(bet.type, meeting.races.length);
+  if (bet.legs.length !== legRaces.length) {
+    return { valid: false, error: `${MULTI_LEG_LABELS[bet.type]} needs ${legRaces.length} legs` };
+  }
+  for (let idx = 0; idx < legRaces.length; idx++) {
+    const runners = meeting.races[legRaces[idx] - 1].horses.map((horse) => horse.id);
+    if (bet.legs[idx].length === 0) {
+      return { valid: false, error: `Pick at least one horse in R${legRaces[idx]}` };
+    }
+    if (!bet.legs[idx].every((id) => runners.includes(id))) {
+      return { valid: false, error: `Invalid horse in R${legRaces[idx]}` };
+    }
+  }
+
+  if (bet.stake < minBet || !Number.isInteger(bet.stake)) {
+    return { valid: false, error: `Minimum bet is ${minBet} points per combination` };
+  }
+  if (bet.stake * getCombinationCount(bet.legs) > bankroll) {
+    return { valid: false, error: 'Insufficient bankroll' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * The horse a selection counts as: scratched horses stand in for the favourite
+ */
+function effectiveSelection(horseId: number, result: LegResult): number {
+  return result.scratched.includes(horseId) ? result.favourite : horseId;
+}
+
+/**
+ * Number of the bet's combinations that hit every leg
+ */
+export function countWinningCombinations(legs: number[][], results: LegResult[]): number {
+  return legs.reduce(
+    (count, leg, idx) =>
+      count * leg.filter((id) => results[idx].winners.includes(effectiveSelection(id, results[idx]))).length,
+    1
+  );
+}
+
+/**
+ * Each leg as the crowd sees it: win probability by horse ID
+ */
+export function getCrowdWinBeliefs(horses: Horse[], config: RaceConfig): Map<number, number> {
+  const probabilities = calculateWinProbabilities(getCrowdHorses(horses, config), config);
+  return new Map(horses.map((horse, idx) => [horse.id, probabilities[idx]]));
+}
+
+/**
+ * Share of the crowd's money on winning combinations
+ * (the crowd spreads its money in proportion to its win probabilities)
+ */
+function getCrowdWinningShare(beliefs: Map<number, number>[], results: LegResult[]): number {
+  return beliefs.reduce((share, leg, idx) => {
+    let hit = 0;
+    leg.forEach((p, horseId) => {
+      if (results[idx].winners.includes(effectiveSelection(horseId, results[idx]))) hit += p;
+    });
+    return share * hit;
+  }, 1);
+}
+
+/**
+ * Settle a multi-race pool once its last leg is run
+ * All winning combinations share the pool after takeout, plus the carryover;
+ * with no winning ticket the whole of it carries over
+ */
+export function settleMultiLegPool(
+  type: MultiLegBetType,
+  bets: MultiLegBet[],
+  results: LegResult[],
+  crowdBeliefs: Map<number, number>[],
+  carryoverIn: number
+): MultiLegSettlement {
+  const crowdTotal = MULTI_LEG_POOL_SIZES[type];
+  const crowdWinning =
+    Math.floor((crowdTotal * getCrowdWinningShare(crowdBeliefs, results)) / TICKET_UNIT) * TICKET_UNIT;
+
+  const hits = bets.map((bet) => countWinningCombinations(bet.legs, results));
+  const playerTotal = bets.reduce((sum, bet) => sum + bet.stake * getCombinationCount(bet.legs), 0);
+  const playerWinning = bets.reduce((sum, bet, idx) => sum + bet.stake * hits[idx], 0);
+
+  const poolTotal = crowdTotal + playerTotal;
+  const net = poolTotal * (1 - MULTI_LEG_TAKEOUT[type]) + carryoverIn;
+  const winningStake = crowdWinning + playerWinning;
+  const dividend = winningStake > 0 ? roundDividend(net / winningStake) : 0;
+
+  const payouts: MultiLegPayout[] = bets.map((bet, idx) => ({
+    bet,
+    won: hits[idx] > 0,
+    winningCombinations: hits[idx],
+    payout: Math.floor(bet.stake * hits[idx] * dividend),
+  }));
+
+  return {
+    type,
+    dividend,
+    poolTotal,
+    carryoverIn,
+    carryoverOut: winningStake > 0 ? 0 : Math.floor(net),
+    payouts,
+  };
+}
+
+/**
+ * Settle every pool whose last leg is the race just run
+ * Returns the settlements, the bets still open and the new carryover
+ */
+export function settleMeetingPools(
+  meeting: Meeting,
+  raceNumber: number,
+  bets: MultiLegBet[],
+  carryover: Record<MultiLegBetType, number>,
+  getConfig: (race: MeetingRace) => RaceConfig
+): {
+  settlements: MultiLegSettlement[];
+  openBets: MultiLegBet[];
+  carryover: Record<MultiLegBetType, number>;
+} {
+  const settlements: MultiLegSettlement[] = [];
+  const nextCarryover = { ...carryover };
+  let openBets = bets;
+
+  for (const type of MULTI_LEG_BET_TYPES) {
+    const legRaces = getLegRaceNumbers(type, meeting.races.length).map(
+      (number) => meeting.races[number - 1]
+    );
+    if (legRaces[legRaces.length - 1].number !== raceNumber) continue;
+    if (!legRaces.every((race) => race.result)) continue;
+
+    const isThisPool = (bet: MultiLegBet) => bet.type === type && bet.meetingNumber === meeting.number;
+    const settlement = settleMultiLegPool(
+      type,
+      openBets.filter(isThisPool),
+      legRaces.map((race) => race.result!),
+      legRaces.map((race) => getCrowdWinBeliefs(race.horses, getConfig(race))),
+      carryover[type]
+    );
+
+    settlements.push(settlement);
+    nextCarryover[type] = settlement.carryoverOut;
+    openBets = openBets.filter((bet) => !isThisPool(bet));
+  }
+
+  return { settlements, openBets, carryover: nextCarryover };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ODDS_FORMATS,
+  formatImpliedProbability,
+  formatOdds,
+  formatOddsRange,
+  formatReturn,
+  toAmerican,
+  toFractional,
+} from './odds-format';
+
+describe('odds-format', () => {
+  it('formats the same price in every format', () => {
+    expect(formatOdds(3.5, 'decimal')).toBe('3.50');
+    expect(formatOdds(3.5, 'fractional')).toBe('5/2');
+    expect(formatOdds(3.5, 'american')).toBe('+250');
+    expect(formatOdds(3.5, 'hongkong')).toBe('2.50');
+  });
+
+  it('quotes odds-on prices as negative moneylines', () => {
+    expect(toAmerican(1.5)).toBe(-200);
+    expect(formatOdds(1.5, 'american')).toBe('-200');
+    expect(formatOdds(2, 'american')).toBe('+100');
+  });
+
+  it('has no moneyline for a price of 1.0 (stake back only)', () => {
+    expect(toAmerican(1)).toBeNull();
+    expect(formatOdds(1, 'american')).toBe('—');
+    expect(formatOdds(1, 'decimal')).toBe('1.00');
+  });
+
+  it('rounds fractional odds to the nearest standard price', () => {
+    expect(toFractional(2)).toEqual([1, 1]);
+    expect(formatOdds(2, 'fractional')).toBe('evens');
+    expect(toFractional(3.45)).toEqual([5, 2]);
+    expect(toFractional(1.62)).toEqual([8, 13]);
+    expect(toFractional(35)).toEqual([33, 1]);
+    expect(toFractional(1501)).toEqual([1500, 1]);
+  });
+
+  it('shows prices that are not offered as a dash', () => {
+    ODDS_FORMATS.forEach((format) => expect(formatOdds(0, format)).toBe('-'));
+    expect(formatOdds(Infinity, 'decimal')).toBe('∞');
+  });
+
+  it('formats ranges in the chosen format', () => {
+    expect(formatOddsRange({ min: 1.5, max: 3.5 }, 'fractional')).toBe('1/2–5/2');
+  });
+
+  it('describes implied probability and returns', () => {
+    expect(formatImpliedProbability(4)).toBe('25.0%');
+    expect(formatReturn(100, 3.5, 'decimal')).toBe('returns 350pt');
+    expect(formatReturn(100, 3.5, 'fractional')).toBe('wins 250pt + 100pt stake');
+  });
+});
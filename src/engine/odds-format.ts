@@ -0,0 +1,107 @@
+/**
+ * Odds formats
+ * Every price is held as decimal odds (stake included); this layer shows
+ * them as fractional (5/2), American moneyline (+250) or Hong Kong (1.50) odds
+ */
+
+import type { OddsFormat, OddsRange } from './types';
+
+export const ODDS_FORMATS: OddsFormat[] = ['decimal', 'fractional', 'american', 'hongkong'];
+
+export const ODDS_FORMAT_LABELS: Record<OddsFormat, string> = {
+  decimal: 'Decimal (3.50)',
+  fractional: 'Fractional (5/2)',
+  american: 'American (+250)',
+  hongkong: 'Hong Kong (2.50)',
+};
+
+/**
+ * Standard fractional prices (UK bookmaker ladder), as [numerator, denominator]
+ */
+const FRACTIONAL_LADDER: [number, number][] = [
+  [1, 20], [1, 16], [1, 14], [1, 12], [1, 10], [1, 9], [1, 8], [2, 15], [1, 7], [1, 6],
+  [2, 11], [1, 5], [2, 9], [1, 4], [2, 7], [3, 10], [1, 3], [4, 11], [2, 5], [4, 9],
+  [1, 2], [8, 15], [4, 7], [8, 13], [4, 6], [8, 11], [4, 5], [5, 6], [10, 11], [1, 1],
+  [11, 10], [6, 5], [5, 4], [11, 8], [6, 4], [13, 8], [7, 4], [15, 8], [2, 1], [9, 4],
+  [5, 2], [11, 4], [3, 1], [10, 3], [7, 2], [4, 1], [9, 2], [5, 1], [11, 2], [6, 1],
+  [13, 2], [7, 1], [15, 2], [8, 1], [17, 2], [9, 1], [10, 1], [11, 1], [12, 1], [14, 1],
+  [16, 1], [18, 1], [20, 1], [22, 1], [25, 1], [28, 1], [33, 1], [40, 1], [50, 1], [66, 1],
+  [80, 1], [100, 1], [125, 1], [150, 1], [200, 1], [250, 1], [300, 1], [400, 1], [500, 1],
+  [750, 1], [1000, 1],
+];
+
+/**
+ * Nearest price on the fractional ladder (by decimal value)
+ * Prices past the top of the ladder are rounded to whole points (n/1)
+ */
+export function toFractional(decimal: number): [number, number] {
+  const profit = decimal - 1;
+  const [topNumerator] = FRACTIONAL_LADDER[FRACTIONAL_LADDER.length - 1];
+  if (profit > topNumerator) return [Math.round(profit), 1];
+
+  let best = FRACTIONAL_LADDER[0];
+  for (const fraction of FRACTIONAL_LADDER) {
+    if (Math.abs(fraction[0] / fraction[1] - profit) < Math.abs(best[0] / best[1] - profit)) {
+      best = fraction;
+    }
+  }
+  return best;
+}
+
+/**
+ * American moneyline: profit on 100 (+) or stake needed to win 100 (−)
+ * Null at 1.0 or below (e.g. a 元返し dividend), where nothing can be won
+ */
+export function toAmerican(decimal: number): number | null {
+  const profit = decimal - 1;
+  if (profit <= 0) return null;
+  return profit >= 1 ? Math.round(profit * 100) : -Math.round(100 / profit);
+}
+
+/**
+ * Show decimal odds in the chosen format (0 = not offered)
+ */
+export function formatOdds(decimal: number, format: OddsFormat): string {
+  if (!(decimal > 0)) return '-';
+  if (!Number.isFinite(decimal)) return '∞';
+
+  switch (format) {
+    case 'decimal':
+      return decimal.toFixed(2);
+    case 'fractional': {
+      const [numerator, denominator] = toFractional(decimal);
+      return numerator === denominator ? 'evens' : `${numerator}/${denominator}`;
+    }
+    case 'american': {
+      const moneyline = toAmerican(decimal);
+      if (moneyline === null) return '—';
+      return moneyline > 0 ? `+${moneyline}` : String(moneyline);
+    }
+    case 'hongkong':
+      return (decimal - 1).toFixed(2);
+  }
+}
+
+/**
+ * Show an odds range (e.g. place odds, Monte Carlo band) as "low–high"
+ */
+export function formatOddsRange(range: OddsRange, format: OddsFormat): string {
+  return `${formatOdds(range.min, format)}–${formatOdds(range.max, format)}`;
+}
+
+/**
+ * Implied probability of a price, as a percentage
+ */
+export function formatImpliedProbability(decimal: number): string {
+  return decimal > 0 ? `${(100 / decimal).toFixed(1)}%` : '-';
+}
+
+/**
+ * What a winning stake brings back, in the chosen format's terms:
+ * decimal odds quote the return (stake included), the others the profit
+ */
+export function formatReturn(stake: number, decimal: number, format: OddsFormat): string {
+  return format === 'decimal'
+    ? `returns ${Math.floor(stake * decimal)}pt`
+    : `wins ${Math.floor(stake * (decimal - 1))}pt + ${stake}pt stake`;
+}
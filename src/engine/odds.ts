@@ -1,19 +1,42 @@
 /**
  * Odds calculation with bookmaker margin (overround)
- * Handles win, place, quinella, and trifecta odds
+ * Handles win, place, quinella, exacta, wide, trio, trifecta and bracket quinella odds
  */
 
-import type { Horse, RaceConfig, OddsTable } from './types';
-import { calculateWeights } from './race';
+import type {
+  BetType,
+  Horse,
+  RaceConfig,
+  OddsTable,
+  OddsRange,
+  ProbabilityTable,
+  MonteCarloDeviation,
+  MultiWinnerPools,
+} from './types';
+import { NUM_BRACKETS } from './types';
+import { calculateStrengths, calculateWeights, getRunners } from './race';
+import type { StrengthConfig } from './race';
+import { getRaceModel, mixFields } from './models';
+import { PACE_SCENARIOS, getPaceProbabilities } from './pace';
+import { buildPool, getDividendRange, takeoutRate } from './dividend';
 
 /**
  * Calculate win probabilities from horse ratings
- * Using Plackett-Luce model: P(horse i wins) = s_i / Σs_j
+ * Using Plackett-Luce model: P(horse i wins) = s_i / Σs_j, averaged over the pace scenarios
  */
-export function calculateWinProbabilities(horses: Horse[], temperature: number): number[] {
-  const weights = calculateWeights(horses, temperature);
-  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-  return weights.map((w) => w / totalWeight);
+export function calculateWinProbabilities(horses: Horse[], config: StrengthConfig): number[] {
+  const paceChances = getPaceProbabilities(getRunners(horses));
+  const probabilities = new Array(horses.length).fill(0);
+
+  for (const pace of PACE_SCENARIOS) {
+    const weights = calculateWeights(horses, config, pace);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    weights.forEach((w, idx) => {
+      probabilities[idx] += (paceChances[pace] * w) / totalWeight;
+    });
+  }
+
+  return probabilities;
 }
 
 /**
@@ -28,10 +51,10 @@ export function applyOverround(probabilities: number[], margin: number): number[
 
 /**
  * Convert probabilities to decimal odds
- * Odds = 1 / probability, with minimum floor
+ * Odds = 1 / probability, with minimum floor (0 = not offered, e.g. scratched)
  */
 export function toDecimalOdds(probabilities: number[], minOdds: number = 1.05): number[] {
-  return probabilities.map((p) => Math.max(minOdds, 1 / p));
+  return probabilities.map((p) => (p > 0 ? Math.max(minOdds, 1 / p) : 0));
 }
 
 /**
@@ -41,11 +64,19 @@ export function calculateWinOdds(
   horses: Horse[],
   config: RaceConfig
 ): number[] {
-  const winProbs = calculateWinProbabilities(horses, config.temperature);
+  const winProbs = calculateWinProbabilities(horses, config);
   const adjustedProbs = applyOverround(winProbs, config.margin);
   return toDecimalOdds(adjustedProbs);
 }
 
+/**
+ * Number of paying place positions for a field
+ * Place: horse finishes in top N (3 for 8+ horses, 2 for 7- horses)
+ */
+export function getPlaceThreshold(numHorses: number): number {
+  return numHorses >= 8 ? 3 : 2;
+}
+
 /**
  * Estimate place probabilities from Monte Carlo simulations
  * Place: horse finishes in top N (3 for 8+ horses, 2 for 7- horses)
@@ -54,10 +85,10 @@ export function estimatePlaceProbabilities(
   simulations: number[][],
   numHorses: number
 ): number[] {
-  const placeThreshold = numHorses >= 8 ? 3 : 2;
   const placeCounts = new Array(numHorses).fill(0);
 
   for (const finishOrder of simulations) {
+    const placeThreshold = getPlaceThreshold(finishOrder.length);
     for (let i = 0; i < placeThreshold; i++) {
       const horseId = finishOrder[i];
       placeCounts[horseId - 1]++;
@@ -121,46 +152,362 @@ export function estimateTrifectaProbabilities(
 }
 
 /**
- * Calculate complete odds table
- * Note: This is a synchronous version. Use Web Worker for production.
+ * Count how often each key wins across simulations
+ * getKeys returns the winning keys of one finish order
  */
-export function calculateOddsTable(
+function estimateKeyProbabilities(
+  simulations: number[][],
+  getKeys: (finishOrder: number[]) => string[]
+): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (const finishOrder of simulations) {
+    for (const key of getKeys(finishOrder)) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+
+  const probabilities = new Map<string, number>();
+  counts.forEach((count, key) => {
+    probabilities.set(key, count / simulations.length);
+  });
+
+  return probabilities;
+}
+
+/**
+ * Estimate exacta probabilities from Monte Carlo
+ * Exacta: 2 horses finish 1st-2nd in exact order
+ */
+export function estimateExactaProbabilities(simulations: number[][]): Map<string, number> {
+  return estimateKeyProbabilities(simulations, (order) => [getExactaKey(order[0], order[1])]);
+}
+
+/**
+ * Estimate wide probabilities from Monte Carlo
+ * Wide: both horses finish in the top 3 (three winning pairs per race)
+ */
+export function estimateWideProbabilities(simulations: number[][]): Map<string, number> {
+  return estimateKeyProbabilities(simulations, (order) => getWidePairs(order));
+}
+
+/**
+ * Estimate trio probabilities from Monte Carlo
+ * Trio: 3 horses finish 1st-2nd-3rd in any order
+ */
+export function estimateTrioProbabilities(simulations: number[][]): Map<string, number> {
+  return estimateKeyProbabilities(simulations, (order) => [
+    getTrioKey(order[0], order[1], order[2]),
+  ]);
+}
+
+/**
+ * Estimate bracket quinella probabilities from Monte Carlo
+ * Bracket quinella: the brackets of the 1st and 2nd horses, in any order
+ */
+export function estimateBracketQuinellaProbabilities(
+  simulations: number[][],
+  numHorses: number
+): Map<string, number> {
+  return estimateKeyProbabilities(simulations, (order) => [
+    getBracketQuinellaKey(
+      getBracketNumber(order[0], numHorses),
+      getBracketNumber(order[1], numHorses)
+    ),
+  ]);
+}
+
+/**
+ * Calculate exact finish probabilities (analytical) under a race model
+ * e.g. Plackett-Luce: P(i, j, k) = s_i/S × s_j/(S - s_i) × s_k/(S - s_i - s_j)
+ * Enumerates every ordered pair and triple, so every key is present
+ * (scratched horses are left out), averaged over the pace scenarios
+ */
+export function calculateExactProbabilities(
   horses: Horse[],
-  config: RaceConfig,
+  config: StrengthConfig & Pick<RaceConfig, 'model'>
+): ProbabilityTable {
+  const runners = horses
+    .map((horse, idx) => ({ horse, idx }))
+    .filter(({ horse }) => !horse.scratched);
+
+  // The pace is unknown before the race: mix the field under each pace
+  const runnerHorses = runners.map(({ horse }) => horse);
+  const model = getRaceModel(config.model);
+  const paceChances = getPaceProbabilities(runnerHorses);
+  const field = mixFields(
+    PACE_SCENARIOS.filter((pace) => paceChances[pace] > 0).map((pace) => ({
+      weight: paceChances[pace],
+      field: model.prepare(calculateStrengths(runnerHorses, config, pace)),
+    }))
+  );
+  const placeThreshold = getPlaceThreshold(runners.length);
+
+  const win = new Array(horses.length).fill(0);
+  const place = new Array(horses.length).fill(0);
+  const quinella = new Map<string, number>();
+  const exacta = new Map<string, number>();
+  const wide = new Map<string, number>();
+  const trio = new Map<string, number>();
+  const trifecta = new Map<string, number>();
+  const bracketQuinella = new Map<string, number>();
+  const addTo = (map: Map<string, number>, key: string, prob: number) => {
+    map.set(key, (map.get(key) || 0) + prob);
+  };
+
+  runners.forEach((a, ra) => {
+    win[a.idx] = field.orderProbability([ra]);
+
+    runners.forEach((b, rb) => {
+      if (rb === ra) return;
+      const [first, second] = [a.horse.id, b.horse.id];
+      const pairProb = field.orderProbability([ra, rb]);
+      exacta.set(getExactaKey(first, second), pairProb);
+      addTo(quinella, getQuinellaKey(first, second), pairProb);
+      addTo(
+        bracketQuinella,
+        getBracketQuinellaKey(
+          getBracketNumber(first, horses.length),
+          getBracketNumber(second, horses.length)
+        ),
+        pairProb
+      );
+
+      if (placeThreshold === 2) {
+        place[a.idx] += pairProb;
+        place[b.idx] += pairProb;
+      }
+
+      runners.forEach((c, rc) => {
+        if (rc === ra || rc === rb) return;
+        const third = c.horse.id;
+        const tripleProb = field.orderProbability([ra, rb, rc]);
+        trifecta.set(getTrifectaKey(first, second, third), tripleProb);
+        addTo(trio, getTrioKey(first, second, third), tripleProb);
+        for (const pairKey of getWidePairs([first, second, third])) {
+          addTo(wide, pairKey, tripleProb);
+        }
+
+        if (placeThreshold === 3) {
+          place[a.idx] += tripleProb;
+          place[b.idx] += tripleProb;
+          place[c.idx] += tripleProb;
+        }
+      });
+    });
+  });
+
+  return { win, place, quinella, exacta, wide, trio, trifecta, bracketQuinella };
+}
+
+/**
+ * Estimate all probabilities from Monte Carlo simulations
+ * Combinations never drawn are missing from the maps
+ */
+export function estimateProbabilityTable(
+  simulations: number[][],
+  numHorses: number
+): ProbabilityTable {
+  const winCounts = new Array(numHorses).fill(0);
+  for (const finishOrder of simulations) {
+    winCounts[finishOrder[0] - 1]++;
+  }
+
+  return {
+    win: winCounts.map((count) => count / simulations.length),
+    place: estimatePlaceProbabilities(simulations, numHorses),
+    quinella: estimateQuinellaProbabilities(simulations),
+    exacta: estimateExactaProbabilities(simulations),
+    wide: estimateWideProbabilities(simulations),
+    trio: estimateTrioProbabilities(simulations),
+    trifecta: estimateTrifectaProbabilities(simulations),
+    bracketQuinella: estimateBracketQuinellaProbabilities(simulations, numHorses),
+  };
+}
+
+/**
+ * Largest absolute difference between two probability maps
+ * Keys missing from either side count as probability 0
+ */
+function maxMapDeviation(exact: Map<string, number>, estimated: Map<string, number>): number {
+  let maxDeviation = 0;
+  exact.forEach((prob, key) => {
+    maxDeviation = Math.max(maxDeviation, Math.abs(prob - (estimated.get(key) || 0)));
+  });
+  estimated.forEach((prob, key) => {
+    if (!exact.has(key)) {
+      maxDeviation = Math.max(maxDeviation, prob);
+    }
+  });
+  return maxDeviation;
+}
+
+/**
+ * Cross-check exact probabilities against Monte Carlo simulations
+ * Reports the largest deviation from the analytic value per bet type
+ */
+export function compareWithMonteCarlo(
+  exact: ProbabilityTable,
   simulations: number[][]
-): OddsTable {
-  // Win odds (analytical)
-  const winOdds = calculateWinOdds(horses, config);
-
-  // Place odds (from Monte Carlo)
-  const placeProbs = estimatePlaceProbabilities(simulations, horses.length);
-  const adjustedPlaceProbs = applyOverround(placeProbs, config.margin);
-  const placeOdds = toDecimalOdds(adjustedPlaceProbs);
-
-  // Quinella odds (from Monte Carlo)
-  const quinellaProbs = estimateQuinellaProbabilities(simulations);
-  const quinellaOdds = new Map<string, number>();
-  quinellaProbs.forEach((prob, key) => {
-    const adjustedProb = prob * (1 + config.margin);
-    quinellaOdds.set(key, Math.max(1.05, 1 / adjustedProb));
+): MonteCarloDeviation {
+  return compareEstimates(
+    exact,
+    estimateProbabilityTable(simulations, exact.win.length),
+    simulations.length
+  );
+}
+
+/**
+ * Cross-check exact probabilities against an estimated table
+ */
+export function compareEstimates(
+  exact: ProbabilityTable,
+  estimated: ProbabilityTable,
+  trials: number
+): MonteCarloDeviation {
+  const maxArrayDeviation = (a: number[], b: number[]) =>
+    a.reduce((max, p, i) => Math.max(max, Math.abs(p - b[i])), 0);
+
+  return {
+    trials,
+    maxDeviation: {
+      win: maxArrayDeviation(exact.win, estimated.win),
+      place: maxArrayDeviation(exact.place, estimated.place),
+      quinella: maxMapDeviation(exact.quinella, estimated.quinella),
+      exacta: maxMapDeviation(exact.exacta, estimated.exacta),
+      wide: maxMapDeviation(exact.wide, estimated.wide),
+      trio: maxMapDeviation(exact.trio, estimated.trio),
+      trifecta: maxMapDeviation(exact.trifecta, estimated.trifecta),
+      bracketQuinella: maxMapDeviation(exact.bracketQuinella, estimated.bracketQuinella),
+    },
+  };
+}
+
+/**
+ * Convert combination probabilities to odds with bookmaker margin
+ */
+function toOddsMap(probabilities: Map<string, number>, margin: number): Map<string, number> {
+  const odds = new Map<string, number>();
+  probabilities.forEach((prob, key) => {
+    const adjustedProb = prob * (1 + margin);
+    odds.set(key, Math.max(1.05, 1 / adjustedProb));
+  });
+  return odds;
+}
+
+/**
+ * Sum of a probability list (for place/wide it is the number of winners)
+ */
+function sumProbabilities(probabilities: Iterable<number>): number {
+  let total = 0;
+  for (const p of probabilities) total += p;
+  return total;
+}
+
+/**
+ * Notional place and wide pools for fixed odds
+ * Money is spread in proportion to the fair probability of each selection,
+ * so the takeout matching the margin is kept whichever horses place
+ */
+export function buildMultiWinnerPools(
+  probabilities: ProbabilityTable,
+  margin: number
+): MultiWinnerPools {
+  const takeout = takeoutRate(margin);
+  const placeWinners = Math.max(1, Math.round(sumProbabilities(probabilities.place)));
+  const wideWinners = Math.max(1, Math.round(sumProbabilities(probabilities.wide.values())));
+  const placeBeliefs = new Map(
+    probabilities.place.map((p, idx) => [String(idx + 1), p / placeWinners])
+  );
+  const wideBeliefs = new Map(
+    Array.from(probabilities.wide, ([key, p]) => [key, p / wideWinners])
+  );
+
+  return {
+    place: buildPool(placeBeliefs, 1, takeout),
+    wide: buildPool(wideBeliefs, 1, takeout),
+  };
+}
+
+/**
+ * Place and wide dividend ranges (JRA 複勝/ワイド odds are shown as min–max)
+ * A place dividend is lowest when the other placers are the most backed
+ * horses; a wide dividend depends on which horse completes the top 3
+ */
+export function getMultiWinnerRanges(
+  pools: MultiWinnerPools,
+  numHorses: number,
+  placeThreshold: number
+): { placeRange: OddsRange[]; wideRange: Map<string, OddsRange> } {
+  const runners = Array.from(pools.place.stakes.keys()).map(Number);
+  const byStake = [...runners].sort(
+    (a, b) => (pools.place.stakes.get(String(b)) || 0) - (pools.place.stakes.get(String(a)) || 0)
+  );
+
+  const placeRange = Array.from({ length: numHorses }, (_, idx) => {
+    const id = idx + 1;
+    const others = byStake.filter((other) => other !== id).map(String);
+    const heaviest = others.slice(0, placeThreshold - 1);
+    const lightest = others.slice(Math.max(0, others.length - (placeThreshold - 1)));
+    return getDividendRange(pools.place, String(id), [
+      [String(id), ...heaviest],
+      [String(id), ...lightest],
+    ]);
   });
 
-  // Trifecta odds (from Monte Carlo)
-  const trifectaProbs = estimateTrifectaProbabilities(simulations);
-  const trifectaOdds = new Map<string, number>();
-  trifectaProbs.forEach((prob, key) => {
-    const adjustedProb = prob * (1 + config.margin);
-    trifectaOdds.set(key, Math.max(1.05, 1 / adjustedProb));
+  const wideRange = new Map<string, OddsRange>();
+  pools.wide.stakes.forEach((_, key) => {
+    const [a, b] = parseQuinellaKey(key);
+    const outcomes = runners
+      .filter((c) => c !== a && c !== b)
+      .map((c) => [key, getWideKey(a, c), getWideKey(b, c)]);
+    wideRange.set(key, getDividendRange(pools.wide, key, outcomes));
   });
 
+  return { placeRange, wideRange };
+}
+
+/**
+ * Price a probability table with the bookmaker margin
+ * Place and wide have several winners, so they are priced from notional
+ * pools with the equivalent takeout; the listed odds are the range minimum
+ */
+export function priceProbabilityTable(
+  probabilities: ProbabilityTable,
+  margin: number
+): OddsTable {
+  const multiWinner = buildMultiWinnerPools(probabilities, margin);
+  const placeThreshold = Math.round(sumProbabilities(probabilities.place));
+  const { placeRange, wideRange } = getMultiWinnerRanges(
+    multiWinner,
+    probabilities.place.length,
+    placeThreshold
+  );
+
   return {
-    win: winOdds,
-    place: placeOdds,
-    quinella: quinellaOdds,
-    trifecta: trifectaOdds,
+    win: toDecimalOdds(applyOverround(probabilities.win, margin)),
+    place: placeRange.map((range) => range.min),
+    quinella: toOddsMap(probabilities.quinella, margin),
+    exacta: toOddsMap(probabilities.exacta, margin),
+    wide: new Map(Array.from(wideRange, ([key, range]) => [key, range.min])),
+    trio: toOddsMap(probabilities.trio, margin),
+    trifecta: toOddsMap(probabilities.trifecta, margin),
+    bracketQuinella: toOddsMap(probabilities.bracketQuinella, margin),
+    multiWinner,
+    placeRange,
+    wideRange,
   };
 }
 
+/**
+ * Calculate complete odds table (analytical, under the configured race model)
+ * Every quinella and trifecta combination gets a price
+ */
+export function calculateOddsTable(horses: Horse[], config: RaceConfig): OddsTable {
+  const probabilities = calculateExactProbabilities(horses, config);
+  return priceProbabilityTable(probabilities, config.margin);
+}
+
 /**
  * Get quinella key from two horse IDs (normalized)
  */
@@ -175,6 +522,91 @@ export function getTrifectaKey(horse1: number, horse2: number, horse3: number):
   return `${horse1}-${horse2}-${horse3}`;
 }
 
+/**
+ * Get exacta key from two horse IDs (order matters)
+ */
+export function getExactaKey(horse1: number, horse2: number): string {
+  return `${horse1}-${horse2}`;
+}
+
+/**
+ * Get wide key from two horse IDs (normalized, same format as quinella)
+ */
+export function getWideKey(horse1: number, horse2: number): string {
+  return getQuinellaKey(horse1, horse2);
+}
+
+/**
+ * Get the three winning wide keys from a finish order (every pair in the top 3)
+ */
+export function getWidePairs(finishOrder: number[]): string[] {
+  const [first, second, third] = finishOrder;
+  return [getWideKey(first, second), getWideKey(first, third), getWideKey(second, third)];
+}
+
+/**
+ * Get trio key from three horse IDs (normalized, ascending)
+ */
+export function getTrioKey(horse1: number, horse2: number, horse3: number): string {
+  return [horse1, horse2, horse3].sort((a, b) => a - b).join('-');
+}
+
+/**
+ * Get the bracket (枠番) of a horse
+ * JRA rule: up to 8 runners get one bracket each; with more runners the
+ * extra horses are doubled up from bracket 8 downwards
+ */
+export function getBracketNumber(horseId: number, numHorses: number): number {
+  if (numHorses <= NUM_BRACKETS) return horseId;
+
+  const baseSize = Math.floor(numHorses / NUM_BRACKETS);
+  const largerBrackets = numHorses % NUM_BRACKETS;
+  const smallerBrackets = NUM_BRACKETS - largerBrackets;
+  const horsesInSmaller = smallerBrackets * baseSize;
+
+  if (horseId <= horsesInSmaller) {
+    return Math.ceil(horseId / baseSize);
+  }
+  return smallerBrackets + Math.ceil((horseId - horsesInSmaller) / (baseSize + 1));
+}
+
+/**
+ * Get bracket quinella key from two bracket numbers (normalized, may repeat)
+ */
+export function getBracketQuinellaKey(bracket1: number, bracket2: number): string {
+  return bracket1 <= bracket2 ? `${bracket1}-${bracket2}` : `${bracket2}-${bracket1}`;
+}
+
+/**
+ * Get the selection key of a bet: horse ID for win/place, combination key otherwise
+ * Matches the keys of OddsTable maps and BetPool stakes
+ */
+export function getSelectionKey(type: BetType, horses: number[]): string {
+  switch (type) {
+    case 'win':
+    case 'place':
+      return String(horses[0]);
+
+    case 'quinella':
+      return getQuinellaKey(horses[0], horses[1]);
+
+    case 'exacta':
+      return getExactaKey(horses[0], horses[1]);
+
+    case 'wide':
+      return getWideKey(horses[0], horses[1]);
+
+    case 'trio':
+      return getTrioKey(horses[0], horses[1], horses[2]);
+
+    case 'trifecta':
+      return getTrifectaKey(horses[0], horses[1], horses[2]);
+
+    case 'bracketQuinella':
+      return getBracketQuinellaKey(horses[0], horses[1]);
+  }
+}
+
 /**
  * Parse quinella key to horse IDs
  */
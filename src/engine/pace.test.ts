@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PACE_SCENARIOS, drawPaceScenario, getPaceAdjustment, getPaceProbabilities } from './pace';
+import { calculateWinProbabilities } from './odds';
+import type { Horse, RaceConditions, RunningStyle } from './types';
+
+describe('pace', () => {
+  const conditions: RaceConditions = { distance: 1600, surface: 'turf', going: 'good', drawBias: 0 };
+  const field = (styles: RunningStyle[]): Horse[] =>
+    styles.map((style, idx) => ({
+      id: idx + 1,
+      name: `Horse ${idx + 1}`,
+      rating: 80,
+      color: '#000000',
+      style,
+      aptitudes: { distance: 1600, surface: 0, going: 0, gate: 0 },
+    }));
+
+  it('expects a faster pace with more front-runners', () => {
+    const lone = getPaceProbabilities(field(['front', 'closer', 'closer', 'closer']));
+    const crowded = getPaceProbabilities(field(['front', 'front', 'front', 'closer']));
+
+    expect(PACE_SCENARIOS.reduce((sum, pace) => sum + lone[pace], 0)).toBeCloseTo(1);
+    expect(crowded.fast).toBeGreaterThan(lone.fast);
+    expect(crowded.slow).toBeLessThan(lone.slow);
+  });
+
+  it('draws the pace deterministically from the seed', () => {
+    const horses = field(['front', 'stalker', 'midpack', 'closer']);
+    expect(drawPaceScenario(horses, 'race-1')).toBe(drawPaceScenario(horses, 'race-1'));
+  });
+
+  it('favours front-runners at a slow pace and closers at a fast one', () => {
+    const [front, , , closer] = field(['front', 'stalker', 'midpack', 'closer']);
+    expect(getPaceAdjustment(front, 'slow')).toBeGreaterThan(getPaceAdjustment(closer, 'slow'));
+    expect(getPaceAdjustment(closer, 'fast')).toBeGreaterThan(getPaceAdjustment(front, 'fast'));
+  });
+
+  it('prices a lone front-runner above the rest of an equal field', () => {
+    const styles: RunningStyle[] = ['front', 'closer', 'closer', 'closer', 'closer', 'closer'];
+    const horses = field(styles);
+    const win = calculateWinProbabilities(horses, { numHorses: horses.length, temperature: 20, conditions });
+
+    expect(win.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    expect(win[0]).toBeGreaterThan(1 / horses.length);
+  });
+});
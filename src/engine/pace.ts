@@ -0,0 +1,96 @@
+/**
+ * Running styles and pace scenarios
+ * The pace is only known once the race is run: its chances depend on how
+ * many front-runners are in the field, and it favours some styles over others
+ */
+
+import { SeededRNG } from './rng';
+import type { Horse, PaceScenario, RunningStyle } from './types';
+
+export const RUNNING_STYLES: RunningStyle[] = ['front', 'stalker', 'midpack', 'closer'];
+
+export const RUNNING_STYLE_LABELS: Record<RunningStyle, string> = {
+  front: '逃げ',
+  stalker: '先行',
+  midpack: '差し',
+  closer: '追込',
+};
+
+export const PACE_SCENARIOS: PaceScenario[] = ['slow', 'average', 'fast'];
+
+export const PACE_LABELS: Record<PaceScenario, string> = {
+  slow: 'Slow (スローペース)',
+  average: 'Average (ミドルペース)',
+  fast: 'Fast (ハイペース)',
+};
+
+/**
+ * How often each style is drawn
+ */
+const STYLE_WEIGHTS: Record<RunningStyle, number> = {
+  front: 0.15,
+  stalker: 0.35,
+  midpack: 0.35,
+  closer: 0.15,
+};
+
+/**
+ * Rating points each style gains or loses under each pace
+ * A slow pace leaves the leaders fresh; a fast one sets the race up for closers
+ */
+const PACE_EFFECTS: Record<PaceScenario, Record<RunningStyle, number>> = {
+  slow: { front: 5, stalker: 2.5, midpack: -1.5, closer: -4 },
+  average: { front: 0, stalker: 0, midpack: 0, closer: 0 },
+  fast: { front: -5, stalker: -2, midpack: 2, closer: 4 },
+};
+
+/**
+ * Pace chances by the number of front-runners (逃げ馬) in the field
+ * (the last row covers three or more)
+ */
+const PACE_CHANCES_BY_FRONT_RUNNERS: Record<PaceScenario, number>[] = [
+  { slow: 0.6, average: 0.3, fast: 0.1 },
+  { slow: 0.4, average: 0.4, fast: 0.2 },
+  { slow: 0.2, average: 0.5, fast: 0.3 },
+  { slow: 0.1, average: 0.4, fast: 0.5 },
+];
+
+/**
+ * Draw a horse's running style
+ */
+export function generateRunningStyle(rng: SeededRNG): RunningStyle {
+  let roll = rng.next();
+  for (const style of RUNNING_STYLES) {
+    roll -= STYLE_WEIGHTS[style];
+    if (roll < 0) return style;
+  }
+  return RUNNING_STYLES[RUNNING_STYLES.length - 1];
+}
+
+/**
+ * Chance of each pace for a field of runners
+ */
+export function getPaceProbabilities(runners: Horse[]): Record<PaceScenario, number> {
+  const frontRunners = runners.filter((horse) => horse.style === 'front').length;
+  return PACE_CHANCES_BY_FRONT_RUNNERS[Math.min(frontRunners, PACE_CHANCES_BY_FRONT_RUNNERS.length - 1)];
+}
+
+/**
+ * Draw the pace of a race from its seed (own RNG stream)
+ */
+export function drawPaceScenario(runners: Horse[], seed: string): PaceScenario {
+  const chances = getPaceProbabilities(runners);
+  let roll = new SeededRNG(`${seed}-pace`).next();
+  for (const pace of PACE_SCENARIOS) {
+    roll -= chances[pace];
+    if (roll < 0) return pace;
+  }
+  return PACE_SCENARIOS[PACE_SCENARIOS.length - 1];
+}
+
+/**
+ * Rating adjustment for a horse's style under a pace
+ */
+export function getPaceAdjustment(horse: Horse, pace: PaceScenario): number {
+  return PACE_EFFECTS[pace][horse.style];
+}
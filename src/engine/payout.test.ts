@@ -1,13 +1,26 @@
 import { describe, it, expect } from 'vitest';
-import { calculateBetPayout, resolveRace, validateBet } from './payout';
-import type { Bet, OddsTable } from './types';
+import {
+  calculateBetPayout,
+  getTieBreakOrders,
+  isBetRefunded,
+  resolveRace,
+  validateBet,
+} from './payout';
+import { generateHorses, simulateRace, simulateRaceOutcome } from './race';
+import { calculateOddsTable } from './odds';
+import { calculatePoolDividend } from './dividend';
+import type { Bet, OddsTable, RaceConfig, RaceOutcome } from './types';
 
 describe('payout', () => {
   const mockOdds: OddsTable = {
     win: [5.0, 3.0, 2.0, 10.0],
     place: [2.5, 1.8, 1.5, 4.0],
     quinella: new Map([['1-2', 8.0], ['1-3', 6.0]]),
+    exacta: new Map([['2-1', 15.0]]),
+    wide: new Map([['1-2', 2.5], ['1-3', 3.0], ['2-3', 4.0]]),
+    trio: new Map([['1-2-3', 9.0]]),
     trifecta: new Map([['1-2-3', 20.0]]),
+    bracketQuinella: new Map([['1-1', 12.0], ['1-2', 7.0]]),
   };
 
   describe('calculateBetPayout', () => {
@@ -61,6 +74,41 @@ describe('payout', () => {
       expect(payout.won).toBe(true);
       expect(payout.payout).toBe(2000);
     });
+
+    it('calculates exacta bet payout only in exact order', () => {
+      const bet: Bet = { type: 'exacta', horses: [2, 1], stake: 100 };
+
+      expect(calculateBetPayout(bet, [2, 1, 3, 4], mockOdds).payout).toBe(1500);
+      expect(calculateBetPayout(bet, [1, 2, 3, 4], mockOdds).won).toBe(false);
+    });
+
+    it('pays every wide pair in the top 3', () => {
+      const finishOrder = [3, 1, 2, 4];
+
+      expect(calculateBetPayout({ type: 'wide', horses: [1, 2], stake: 100 }, finishOrder, mockOdds).payout).toBe(250);
+      expect(calculateBetPayout({ type: 'wide', horses: [3, 1], stake: 100 }, finishOrder, mockOdds).payout).toBe(300);
+      expect(calculateBetPayout({ type: 'wide', horses: [2, 3], stake: 100 }, finishOrder, mockOdds).payout).toBe(400);
+      expect(calculateBetPayout({ type: 'wide', horses: [1, 4], stake: 100 }, finishOrder, mockOdds).won).toBe(false);
+    });
+
+    it('calculates trio bet payout in any order', () => {
+      const bet: Bet = { type: 'trio', horses: [3, 1, 2], stake: 100 };
+      const payout = calculateBetPayout(bet, [2, 3, 1, 4], mockOdds);
+
+      expect(payout.won).toBe(true);
+      expect(payout.payout).toBe(900);
+    });
+
+    it('settles bracket quinella on the brackets of the first two', () => {
+      // 16 runners: horses 1-2 are bracket 1, horses 3-4 are bracket 2
+      const finishOrder = [2, 1, ...Array.from({ length: 14 }, (_, i) => i + 3)];
+      const sameBracket: Bet = { type: 'bracketQuinella', horses: [1, 1], stake: 100 };
+      const mixed: Bet = { type: 'bracketQuinella', horses: [2, 1], stake: 100 };
+
+      expect(calculateBetPayout(sameBracket, finishOrder, mockOdds).payout).toBe(1200);
+      expect(calculateBetPayout(mixed, finishOrder, mockOdds).won).toBe(false);
+      expect(calculateBetPayout(mixed, [3, 1, ...finishOrder.slice(2)], mockOdds).payout).toBe(700);
+    });
   });
 
   describe('resolveRace', () => {
@@ -79,6 +127,147 @@ describe('payout', () => {
     });
   });
 
+  describe('fixed-odds place and wide', () => {
+    const config: RaceConfig = {
+      numHorses: 8,
+      temperature: 20,
+      margin: 0.18,
+      seed: 'place-settle-test',
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+    };
+    const odds = calculateOddsTable(generateHorses(config), config);
+    const pool = odds.multiWinner!.place;
+    // Horses by place stake, most backed first
+    const [fav1, fav2, ...rest] = Array.from(pool.stakes.keys())
+      .map(Number)
+      .sort((a, b) => pool.stakes.get(String(b))! - pool.stakes.get(String(a))!);
+    const longshot = rest[rest.length - 1];
+
+    it('settles place bets at the dividend of the actual placers', () => {
+      const bet: Bet = { type: 'place', horses: [longshot], stake: 100 };
+      const others = rest.filter((id) => id !== longshot);
+
+      const withFavorites = calculateBetPayout(bet, [fav1, fav2, longshot, ...others], odds);
+      const withOutsiders = calculateBetPayout(
+        bet,
+        [longshot, ...others.slice(-2), fav1, fav2, ...others.slice(0, -2)],
+        odds
+      );
+
+      expect(withFavorites.odds).toBe(
+        calculatePoolDividend(pool, [fav1, fav2, longshot].map(String), String(longshot))
+      );
+      expect(withFavorites.odds).toBe(odds.placeRange![longshot - 1].min);
+      expect(withOutsiders.odds).toBe(odds.placeRange![longshot - 1].max);
+      expect(withOutsiders.payout).toBeGreaterThan(withFavorites.payout);
+    });
+
+    it('settles wide bets at the dividend of the actual top 3', () => {
+      const bet: Bet = { type: 'wide', horses: [fav1, fav2], stake: 100 };
+      const range = odds.wideRange!.get(`${Math.min(fav1, fav2)}-${Math.max(fav1, fav2)}`)!;
+
+      const payout = calculateBetPayout(bet, [fav1, fav2, ...rest], odds);
+
+      expect(payout.won).toBe(true);
+      expect(payout.odds).toBeGreaterThanOrEqual(range.min);
+      expect(payout.odds).toBeLessThanOrEqual(range.max);
+    });
+  });
+
+  describe('scratches and dead heats', () => {
+    it('refunds bets on a scratched horse', () => {
+      const outcome: RaceOutcome = { finishOrder: [1, 2, 3], positions: [1, 2, 3], scratched: [4] };
+      const bet: Bet = { type: 'quinella', horses: [1, 4], stake: 100 };
+
+      const payout = calculateBetPayout(bet, outcome, mockOdds);
+
+      expect(payout.refunded).toBe(true);
+      expect(payout.won).toBe(false);
+      expect(payout.payout).toBe(100);
+    });
+
+    it('refunds bracket quinella only when the whole bracket is scratched', () => {
+      // 9 runners: horses 8 and 9 share bracket 8
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [1, 8], stake: 100 }, [9], 9)).toBe(false);
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [1, 8], stake: 100 }, [8, 9], 9)).toBe(true);
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [1, 7], stake: 100 }, [7], 9)).toBe(true);
+    });
+
+    it('refunds a same-bracket pick once fewer than two runners are left in the bracket', () => {
+      // 9 runners: horses 8 and 9 share bracket 8
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [8, 8], stake: 100 }, [5], 9)).toBe(false);
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [8, 8], stake: 100 }, [9], 9)).toBe(true);
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [8, 8], stake: 100 }, [8], 9)).toBe(true);
+      expect(isBetRefunded({ type: 'bracketQuinella', horses: [1, 8], stake: 100 }, [9], 9)).toBe(false);
+    });
+
+    it('breaks dead heats in every order', () => {
+      const outcome: RaceOutcome = { finishOrder: [1, 2, 3, 4], positions: [1, 1, 3, 4], scratched: [] };
+
+      expect(getTieBreakOrders(outcome)).toEqual([
+        [1, 2, 3, 4],
+        [2, 1, 3, 4],
+      ]);
+    });
+
+    it('pays half the stake at full odds after a dead heat for 1st (fixed odds)', () => {
+      const outcome: RaceOutcome = { finishOrder: [1, 2, 3, 4], positions: [1, 1, 3, 4], scratched: [] };
+
+      const first = calculateBetPayout({ type: 'win', horses: [1], stake: 100 }, outcome, mockOdds);
+      const second = calculateBetPayout({ type: 'win', horses: [2], stake: 100 }, outcome, mockOdds);
+      const quinella = calculateBetPayout({ type: 'quinella', horses: [1, 2], stake: 100 }, outcome, mockOdds);
+
+      expect(first.deadHeatFactor).toBe(0.5);
+      expect(first.payout).toBe(250); // floor(100 * 0.5 * 5.0)
+      expect(second.payout).toBe(150); // floor(100 * 0.5 * 3.0)
+      // The pair finishes 1-2 whichever way the tie is broken
+      expect(quinella.deadHeatFactor).toBe(1);
+      expect(quinella.payout).toBe(800);
+    });
+
+    it('reports refunds in the race result', () => {
+      const outcome: RaceOutcome = { finishOrder: [1, 2, 3], positions: [1, 2, 3], scratched: [4] };
+      const bets: Bet[] = [
+        { type: 'win', horses: [1], stake: 100 },
+        { type: 'win', horses: [4], stake: 300 },
+      ];
+
+      const result = resolveRace(bets, outcome, mockOdds);
+
+      expect(result.totalRefund).toBe(300);
+      expect(result.totalPayout).toBe(800); // 500 + 300 refunded
+      expect(result.netProfit).toBe(400);
+      expect(result.scratched).toEqual([4]);
+    });
+
+    it('simulates the same finish order with scratched horses left out', () => {
+      const config: RaceConfig = {
+        numHorses: 8,
+        temperature: 20,
+        margin: 0.18,
+        seed: 'scratch-test',
+        difficulty: 'standard',
+        pricing: 'fixed',
+        model: 'plackett-luce',
+        conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+      };
+      const horses = generateHorses(config).map((horse) =>
+        horse.id === 3 ? { ...horse, scratched: true } : horse
+      );
+
+      const outcome = simulateRaceOutcome(horses, config);
+
+      expect(outcome.finishOrder).toEqual(simulateRace(horses, config));
+      expect(outcome.finishOrder).toHaveLength(7);
+      expect(outcome.finishOrder).not.toContain(3);
+      expect(outcome.scratched).toEqual([3]);
+      expect(outcome.positions[0]).toBe(1);
+    });
+  });
+
   describe('validateBet', () => {
     it('accepts valid bet', () => {
       const bet: Bet = { type: 'win', horses: [1], stake: 100 };
@@ -102,6 +291,37 @@ describe('payout', () => {
       expect(validation.valid).toBe(false);
     });
 
+    it('allows the same bracket twice for bracket quinella', () => {
+      const bet: Bet = { type: 'bracketQuinella', horses: [8, 8], stake: 100 };
+
+      expect(validateBet(bet, 1000, 0, 0.5, 100).valid).toBe(true);
+    });
+
+    it('rejects horses and brackets outside the field', () => {
+      expect(validateBet({ type: 'win', horses: [17], stake: 100 }, 1000, 0, 0.5, 100, 16).valid).toBe(false);
+      expect(validateBet({ type: 'win', horses: [16], stake: 100 }, 1000, 0, 0.5, 100, 16).valid).toBe(true);
+
+      const bracket: Bet = { type: 'bracketQuinella', horses: [1, 9], stake: 100 };
+      const validation = validateBet(bracket, 1000, 0, 0.5, 100, 16);
+      expect(validation.valid).toBe(false);
+      expect(validation.error).toContain('Bracket must be between 1 and 8');
+      // Six runners have six brackets
+      expect(validateBet({ type: 'bracketQuinella', horses: [6, 7], stake: 100 }, 1000, 0, 0.5, 100, 6).valid).toBe(false);
+      // ...of one horse each, so a same-bracket pick cannot win; 16 runners put two in bracket 1
+      const sameBracket = validateBet({ type: 'bracketQuinella', horses: [6, 6], stake: 100 }, 1000, 0, 0.5, 100, 6);
+      expect(sameBracket.valid).toBe(false);
+      expect(sameBracket.error).toContain('only one horse');
+      expect(validateBet({ type: 'bracketQuinella', horses: [1, 1], stake: 100 }, 1000, 0, 0.5, 100, 16).valid).toBe(true);
+    });
+
+    it('rejects wrong number of horses for bet type', () => {
+      const bet: Bet = { type: 'trio', horses: [1, 2], stake: 100 };
+      const validation = validateBet(bet, 1000, 0, 0.5, 100);
+
+      expect(validation.valid).toBe(false);
+      expect(validation.error).toContain('3 horses');
+    });
+
     it('rejects duplicate horses', () => {
       const bet: Bet = { type: 'quinella', horses: [1, 1], stake: 100 };
       const validation = validateBet(bet, 1000, 0, 0.5, 100);
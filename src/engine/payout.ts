@@ -3,8 +3,30 @@
  * Determines winners and calculates payouts
  */
 
-import type { Bet, OddsTable, Payout, RaceResult } from './types';
-import { getQuinellaKey, getTrifectaKey } from './odds';
+import type {
+  Bet,
+  BetType,
+  OddsRange,
+  OddsTable,
+  Payout,
+  PoolTable,
+  RaceOutcome,
+  RaceResult,
+} from './types';
+import { BET_SELECTION_COUNTS, NUM_BRACKETS } from './types';
+import {
+  getBracketNumber,
+  getBracketQuinellaKey,
+  getExactaKey,
+  getPlaceThreshold,
+  getQuinellaKey,
+  getSelectionKey,
+  getTrifectaKey,
+  getTrioKey,
+  getWidePairs,
+} from './odds';
+import { addBetsToPools } from './pool';
+import { calculateDeadHeatDividend } from './dividend';
 
 /**
  * Check if a win bet is a winner
@@ -17,8 +39,8 @@ function checkWinBet(bet: Bet, finishOrder: number[]): boolean {
  * Check if a place bet is a winner
  * Place: horse finishes in top N (3 for 8+ horses, 2 for 7- horses)
  */
-function checkPlaceBet(bet: Bet, finishOrder: number[]): boolean {
-  const placeThreshold = finishOrder.length >= 8 ? 3 : 2;
+function checkPlaceBet(bet: Bet, finishOrder: number[], runners: number): boolean {
+  const placeThreshold = getPlaceThreshold(runners);
   return finishOrder.slice(0, placeThreshold).includes(bet.horses[0]);
 }
 
@@ -37,6 +59,32 @@ function checkQuinellaBet(bet: Bet, finishOrder: number[]): boolean {
   );
 }
 
+/**
+ * Check if an exacta bet is a winner
+ * Exacta: selected 2 horses finish 1st-2nd in exact order
+ */
+function checkExactaBet(bet: Bet, finishOrder: number[]): boolean {
+  return finishOrder[0] === bet.horses[0] && finishOrder[1] === bet.horses[1];
+}
+
+/**
+ * Check if a wide bet is a winner
+ * Wide: both selected horses finish in the top 3
+ */
+function checkWideBet(bet: Bet, finishOrder: number[]): boolean {
+  const top3 = finishOrder.slice(0, 3);
+  return bet.horses.every((horseId) => top3.includes(horseId));
+}
+
+/**
+ * Check if a trio bet is a winner
+ * Trio: selected 3 horses finish 1st-2nd-3rd in any order
+ */
+function checkTrioBet(bet: Bet, finishOrder: number[]): boolean {
+  const top3 = finishOrder.slice(0, 3);
+  return bet.horses.every((horseId) => top3.includes(horseId));
+}
+
 /**
  * Check if a trifecta bet is a winner
  * Trifecta: selected 3 horses finish 1st-2nd-3rd in exact order
@@ -49,10 +97,23 @@ function checkTrifectaBet(bet: Bet, finishOrder: number[]): boolean {
   );
 }
 
+/**
+ * Check if a bracket quinella bet is a winner
+ * Bracket quinella: the brackets of the 1st and 2nd horses match the
+ * selected brackets in either order (bet.horses holds bracket numbers)
+ */
+function checkBracketQuinellaBet(bet: Bet, finishOrder: number[], numHorses: number): boolean {
+  const winningKey = getBracketQuinellaKey(
+    getBracketNumber(finishOrder[0], numHorses),
+    getBracketNumber(finishOrder[1], numHorses)
+  );
+  return winningKey === getBracketQuinellaKey(bet.horses[0], bet.horses[1]);
+}
+
 /**
  * Get odds for a bet from odds table
  */
-function getOddsForBet(bet: Bet, oddsTable: OddsTable): number {
+export function getOddsForBet(bet: Bet, oddsTable: OddsTable): number {
   switch (bet.type) {
     case 'win':
       return oddsTable.win[bet.horses[0] - 1];
@@ -60,54 +121,220 @@ function getOddsForBet(bet: Bet, oddsTable: OddsTable): number {
     case 'place':
       return oddsTable.place[bet.horses[0] - 1];
 
-    case 'quinella': {
-      const key = getQuinellaKey(bet.horses[0], bet.horses[1]);
-      return oddsTable.quinella.get(key) || 0;
-    }
+    default:
+      return oddsTable[bet.type].get(getSelectionKey(bet.type, bet.horses)) || 0;
+  }
+}
 
-    case 'trifecta': {
-      const key = getTrifectaKey(bet.horses[0], bet.horses[1], bet.horses[2]);
-      return oddsTable.trifecta.get(key) || 0;
-    }
+/**
+ * Get the dividend range for a place or wide bet (undefined for other types)
+ */
+export function getOddsRangeForBet(bet: Bet, oddsTable: OddsTable): OddsRange | undefined {
+  switch (bet.type) {
+    case 'place':
+      return oddsTable.placeRange?.[bet.horses[0] - 1];
+
+    case 'wide':
+      return oddsTable.wideRange?.get(getSelectionKey(bet.type, bet.horses));
+
+    default:
+      return undefined;
   }
 }
 
 /**
  * Check if a bet is a winner based on finish order
+ * numHorses is the declared field (brackets), including scratched horses;
+ * runners sets the place positions when finishOrder only holds the top 3
  */
-function isBetWinner(bet: Bet, finishOrder: number[]): boolean {
+export function isBetWinner(
+  bet: Bet,
+  finishOrder: number[],
+  numHorses: number,
+  runners = finishOrder.length
+): boolean {
   switch (bet.type) {
     case 'win':
       return checkWinBet(bet, finishOrder);
 
     case 'place':
-      return checkPlaceBet(bet, finishOrder);
+      return checkPlaceBet(bet, finishOrder, runners);
 
     case 'quinella':
       return checkQuinellaBet(bet, finishOrder);
 
+    case 'exacta':
+      return checkExactaBet(bet, finishOrder);
+
+    case 'wide':
+      return checkWideBet(bet, finishOrder);
+
+    case 'trio':
+      return checkTrioBet(bet, finishOrder);
+
     case 'trifecta':
       return checkTrifectaBet(bet, finishOrder);
+
+    case 'bracketQuinella':
+      return checkBracketQuinellaBet(bet, finishOrder, numHorses);
+  }
+}
+
+/**
+ * Check if a bet is refunded (返還) because of scratched horses
+ * Bracket quinella is refunded only when a selected bracket has too few runners
+ * left: none, or fewer than two for a same-bracket pick (e.g. 3-3)
+ */
+export function isBetRefunded(bet: Bet, scratched: number[], numHorses: number): boolean {
+  if (scratched.length === 0) return false;
+
+  if (bet.type === 'bracketQuinella') {
+    return bet.horses.some((bracket) => {
+      const runners = Array.from({ length: numHorses }, (_, i) => i + 1).filter(
+        (id) => getBracketNumber(id, numHorses) === bracket && !scratched.includes(id)
+      );
+      const needed = bet.horses.filter((b) => b === bracket).length;
+      return runners.length < needed;
+    });
+  }
+
+  return bet.horses.some((horseId) => scratched.includes(horseId));
+}
+
+/**
+ * Treat a plain finish order as an outcome without dead heats or scratches
+ */
+function toRaceOutcome(outcome: number[] | RaceOutcome): RaceOutcome {
+  if (!Array.isArray(outcome)) return outcome;
+  return { finishOrder: outcome, positions: outcome.map((_, idx) => idx + 1), scratched: [] };
+}
+
+/**
+ * All orderings of a group of horses
+ */
+function orderings(horses: number[]): number[][] {
+  if (horses.length <= 1) return [horses];
+  return horses.flatMap((horse, idx) =>
+    orderings([...horses.slice(0, idx), ...horses.slice(idx + 1)]).map((rest) => [horse, ...rest])
+  );
+}
+
+/**
+ * Every strict finish order consistent with the dead heats
+ * Only ties starting in the top 3 are broken, since nothing below 3rd pays
+ */
+export function getTieBreakOrders(outcome: RaceOutcome): number[][] {
+  const { finishOrder, positions } = outcome;
+  let orders: number[][] = [[]];
+
+  for (let start = 0; start < finishOrder.length; ) {
+    let end = start + 1;
+    while (end < finishOrder.length && positions[end] === positions[start]) end++;
+
+    const group = finishOrder.slice(start, end);
+    const groupOrders = start < 3 ? orderings(group) : [group];
+    orders = orders.flatMap((prefix) => groupOrders.map((order) => [...prefix, ...order]));
+    start = end;
+  }
+
+  return orders;
+}
+
+/**
+ * Get the selection keys that won for a bet type
+ * Place has one winning key per paying position, wide one per pair in the top 3
+ */
+export function getWinningKeys(
+  type: BetType,
+  finishOrder: number[],
+  numHorses: number = finishOrder.length
+): string[] {
+  switch (type) {
+    case 'win':
+      return [getSelectionKey(type, [finishOrder[0]])];
+
+    case 'place':
+      return finishOrder
+        .slice(0, getPlaceThreshold(finishOrder.length))
+        .map((horseId) => getSelectionKey(type, [horseId]));
+
+    case 'quinella':
+      return [getQuinellaKey(finishOrder[0], finishOrder[1])];
+
+    case 'exacta':
+      return [getExactaKey(finishOrder[0], finishOrder[1])];
+
+    case 'wide':
+      return getWidePairs(finishOrder);
+
+    case 'trio':
+      return [getTrioKey(finishOrder[0], finishOrder[1], finishOrder[2])];
+
+    case 'trifecta':
+      return [getTrifectaKey(finishOrder[0], finishOrder[1], finishOrder[2])];
+
+    case 'bracketQuinella':
+      return [
+        getBracketQuinellaKey(
+          getBracketNumber(finishOrder[0], numHorses),
+          getBracketNumber(finishOrder[1], numHorses)
+        ),
+      ];
   }
 }
 
 /**
  * Calculate payout for a single bet
+ * Pari-mutuel winners are paid the final pool dividend, which includes
+ * the player's own stakes (defaults to this bet alone)
+ * Fixed-odds place and wide bets are paid the dividend of the notional pool
+ * for the actual set of winners
+ * Dead heats: pools split the profit between the tied combinations;
+ * fixed odds pay the share of the stake that wins across the tie-breaks
  */
 export function calculateBetPayout(
   bet: Bet,
-  finishOrder: number[],
-  oddsTable: OddsTable
+  outcome: number[] | RaceOutcome,
+  oddsTable: OddsTable,
+  pools: PoolTable | undefined = oddsTable.pools && addBetsToPools(oddsTable.pools, [bet])
 ): Payout {
-  const won = isBetWinner(bet, finishOrder);
-  const odds = getOddsForBet(bet, oddsTable);
-  const payout = won ? Math.floor(bet.stake * odds) : 0;
+  const race = toRaceOutcome(outcome);
+  const numHorses = race.finishOrder.length + race.scratched.length;
+  const tableOdds = getOddsForBet(bet, oddsTable);
 
+  if (isBetRefunded(bet, race.scratched, numHorses)) {
+    return { bet, won: false, payout: bet.stake, odds: tableOdds, refunded: true, deadHeatFactor: 1 };
+  }
+
+  const orders = getTieBreakOrders(race);
+  const winningOrders = orders.filter((order) => isBetWinner(bet, order, numHorses)).length;
+  const won = winningOrders > 0;
+
+  if (!won) {
+    return { bet, won, payout: 0, odds: tableOdds, refunded: false, deadHeatFactor: 1 };
+  }
+
+  const pool =
+    pools?.[bet.type] ??
+    (bet.type === 'place' || bet.type === 'wide' ? oddsTable.multiWinner?.[bet.type] : undefined);
+
+  if (pool) {
+    const odds = calculateDeadHeatDividend(
+      pool,
+      orders.map((order) => getWinningKeys(bet.type, order, numHorses)),
+      getSelectionKey(bet.type, bet.horses)
+    );
+    return { bet, won, payout: Math.floor(bet.stake * odds), odds, refunded: false, deadHeatFactor: 1 };
+  }
+
+  const deadHeatFactor = winningOrders / orders.length;
   return {
     bet,
     won,
-    payout,
-    odds,
+    payout: Math.floor(bet.stake * deadHeatFactor * tableOdds),
+    odds: tableOdds,
+    refunded: false,
+    deadHeatFactor,
   };
 }
 
@@ -116,40 +343,56 @@ export function calculateBetPayout(
  */
 export function resolveRace(
   bets: Bet[],
-  finishOrder: number[],
+  outcome: number[] | RaceOutcome,
   oddsTable: OddsTable
 ): RaceResult {
+  const race = toRaceOutcome(outcome);
+  const numHorses = race.finishOrder.length + race.scratched.length;
   const payouts: Payout[] = [];
   let totalStake = 0;
   let totalPayout = 0;
+  let totalRefund = 0;
+
+  // Player's stakes join the crowd money before dividends are declared
+  // (refunded stakes never enter the pools)
+  const pooledBets = bets.filter((bet) => !isBetRefunded(bet, race.scratched, numHorses));
+  const pools = oddsTable.pools && addBetsToPools(oddsTable.pools, pooledBets);
 
   for (const bet of bets) {
-    const payout = calculateBetPayout(bet, finishOrder, oddsTable);
+    const payout = calculateBetPayout(bet, race, oddsTable, pools);
     payouts.push(payout);
     totalStake += bet.stake;
     totalPayout += payout.payout;
+    if (payout.refunded) totalRefund += payout.payout;
   }
 
   const netProfit = totalPayout - totalStake;
 
   return {
-    finishOrder,
+    finishOrder: race.finishOrder,
+    positions: race.positions,
+    scratched: race.scratched,
+    pace: race.pace,
+    times: race.times,
     payouts,
     totalStake,
     totalPayout,
+    totalRefund,
     netProfit,
   };
 }
 
 /**
  * Validate bet before placing
+ * With the field size, selections must be horses (or brackets) in the field
  */
 export function validateBet(
   bet: Bet,
   bankroll: number,
   currentTotalStake: number,
   maxBetPercentage: number,
-  minBet: number
+  minBet: number,
+  numHorses?: number
 ): { valid: boolean; error?: string } {
   // Check minimum bet
   if (bet.stake < minBet) {
@@ -181,32 +424,40 @@ export function validateBet(
     return { valid: false, error: 'No horses selected' };
   }
 
-  // Check for duplicate horses
+  // Check for duplicate horses (a bracket can be picked twice, e.g. 枠連 8-8)
   const uniqueHorses = new Set(bet.horses);
-  if (uniqueHorses.size !== bet.horses.length) {
+  if (bet.type !== 'bracketQuinella' && uniqueHorses.size !== bet.horses.length) {
     return { valid: false, error: 'Cannot select the same horse multiple times' };
   }
 
   // Validate correct number of horses for bet type
-  switch (bet.type) {
-    case 'win':
-    case 'place':
-      if (bet.horses.length !== 1) {
-        return { valid: false, error: `${bet.type} bet requires 1 horse` };
-      }
-      break;
+  const required = BET_SELECTION_COUNTS[bet.type];
+  if (bet.horses.length !== required) {
+    const unit = bet.type === 'bracketQuinella' ? 'bracket' : 'horse';
+    return {
+      valid: false,
+      error: `${bet.type} bet requires ${required} ${unit}${required > 1 ? 's' : ''}`,
+    };
+  }
 
-    case 'quinella':
-      if (bet.horses.length !== 2) {
-        return { valid: false, error: 'Quinella bet requires 2 horses' };
-      }
-      break;
+  // Horse numbers run 1..numHorses; brackets 1..8 (one horse per bracket in small fields)
+  if (numHorses !== undefined) {
+    const isBracket = bet.type === 'bracketQuinella';
+    const max = isBracket ? Math.min(numHorses, NUM_BRACKETS) : numHorses;
+    if (bet.horses.some((id) => !Number.isInteger(id) || id < 1 || id > max)) {
+      return { valid: false, error: `${isBracket ? 'Bracket' : 'Horse'} must be between 1 and ${max}` };
+    }
 
-    case 'trifecta':
-      if (bet.horses.length !== 3) {
-        return { valid: false, error: 'Trifecta bet requires 3 horses' };
+    // A same-bracket pick (e.g. 8-8) needs two horses in that bracket
+    const [first, second] = bet.horses;
+    if (isBracket && first === second) {
+      const size = Array.from({ length: numHorses }, (_, i) => i + 1).filter(
+        (id) => getBracketNumber(id, numHorses) === first
+      ).length;
+      if (size < 2) {
+        return { valid: false, error: `Bracket ${first} has only one horse, so ${first}-${first} cannot win` };
       }
-      break;
+    }
   }
 
   return { valid: true };
@@ -219,7 +470,8 @@ export function validateAllBets(
   bets: Bet[],
   bankroll: number,
   maxBetPercentage: number,
-  minBet: number
+  minBet: number,
+  numHorses?: number
 ): { valid: boolean; errors: string[] } {
   if (bets.length === 0) {
     return { valid: false, errors: ['No bets placed'] };
@@ -234,7 +486,8 @@ export function validateAllBets(
       bankroll,
       totalStake,
       maxBetPercentage,
-      minBet
+      minBet,
+      numHorses
     );
 
     if (!validation.valid) {
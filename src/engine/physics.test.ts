@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatMargin,
+  formatRaceTime,
+  getDistanceCovered,
+  getStandardSpeed,
+  simulateRaceTimes,
+} from './physics';
+import { generateHorses, simulateRaceOutcome } from './race';
+import { resolveRace } from './payout';
+import { calculateOddsTable } from './odds';
+import type { RaceConditions, RaceConfig } from './types';
+
+describe('physics', () => {
+  const conditions: RaceConditions = { distance: 1600, surface: 'turf', going: 'good', drawBias: 0 };
+  const config = { seed: 'physics-test', conditions };
+  const outcome = { finishOrder: [3, 1, 4, 2, 5], positions: [1, 2, 2, 4, 5] };
+  const horses = generateHorses({
+    numHorses: 5,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'physics-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions,
+  });
+
+  describe('simulateRaceTimes', () => {
+    const times = simulateRaceTimes(outcome, horses, config);
+
+    it('is deterministic from the race seed', () => {
+      expect(simulateRaceTimes(outcome, horses, config)).toEqual(times);
+    });
+
+    it('gives final times in finish order, equal for a dead heat', () => {
+      expect(times.runs.map((run) => run.horseId)).toEqual(outcome.finishOrder);
+      expect(times.runs[1].time).toBeGreaterThan(times.runs[0].time);
+      expect(times.runs[2].time).toBe(times.runs[1].time);
+      expect(times.runs[2].margin).toBe('同着');
+      expect(times.runs[3].time).toBeGreaterThan(times.runs[2].time);
+      expect(times.runs[0].margin).toBe('');
+    });
+
+    it('splits add up to the final time over the full distance', () => {
+      expect(times.segments.reduce((sum, segment) => sum + segment.length, 0)).toBeCloseTo(1600);
+      times.runs.forEach((run) => {
+        expect(run.splits).toHaveLength(times.segments.length);
+        expect(run.splits.reduce((sum, split) => sum + split, 0)).toBeCloseTo(run.time);
+      });
+    });
+
+    it('runs a realistic mile', () => {
+      // Turf mile on good ground: around 1:33-1:36
+      expect(times.runs[0].time).toBeGreaterThan(90);
+      expect(times.runs[0].time).toBeLessThan(99);
+    });
+  });
+
+  it('runs slower on heavy turf and over longer distances', () => {
+    const heavy = getStandardSpeed({ ...conditions, going: 'bad' });
+    const staying = getStandardSpeed({ ...conditions, distance: 3200 });
+    expect(heavy).toBeLessThan(getStandardSpeed(conditions));
+    expect(staying).toBeLessThan(getStandardSpeed(conditions));
+  });
+
+  it('replays positions that end on the finish line', () => {
+    const times = simulateRaceTimes(outcome, horses, config);
+    const run = times.runs[0];
+
+    expect(getDistanceCovered(run, times.segments, 0)).toBe(0);
+    expect(getDistanceCovered(run, times.segments, run.splits[0])).toBeCloseTo(times.segments[0].length);
+    expect(getDistanceCovered(run, times.segments, run.time / 2)).toBeLessThan(1600);
+    expect(getDistanceCovered(run, times.segments, run.time + 10)).toBeCloseTo(1600);
+  });
+
+  it('names margins like JRA results', () => {
+    expect(formatMargin(0)).toBe('同着');
+    expect(formatMargin(0.05)).toBe('ハナ');
+    expect(formatMargin(0.3)).toBe('クビ');
+    expect(formatMargin(0.5)).toBe('1/2馬身');
+    expect(formatMargin(1.5)).toBe('1 1/2馬身');
+    expect(formatMargin(12)).toBe('大差');
+  });
+
+  it('formats race times as m:ss.s', () => {
+    expect(formatRaceTime(93.46)).toBe('1:33.5');
+    expect(formatRaceTime(69.04)).toBe('1:09.0');
+  });
+
+  it('attaches times to the race result', () => {
+    const raceConfig: RaceConfig = {
+      numHorses: 8,
+      temperature: 20,
+      margin: 0.18,
+      seed: 'physics-result',
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions,
+    };
+    const horses = generateHorses(raceConfig);
+    const race = simulateRaceOutcome(horses, raceConfig);
+    const result = resolveRace([], race, calculateOddsTable(horses, raceConfig));
+
+    expect(result.times?.runs.map((run) => run.horseId)).toEqual(race.finishOrder);
+  });
+});
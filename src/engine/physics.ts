@@ -0,0 +1,220 @@
+/**
+ * Segment-based race physics
+ * Turns a finish order (from the race model) into split times, final
+ * times and margins, so the race can be replayed as it was run
+ */
+
+import { SeededRNG } from './rng';
+import { GOING_SEVERITY } from './conditions';
+import type {
+  Horse,
+  HorseRun,
+  PaceScenario,
+  RaceConditions,
+  RaceConfig,
+  RaceOutcome,
+  RaceTimes,
+  RunningStyle,
+  SegmentInfo,
+} from './types';
+
+/**
+ * Share of the distance run in each segment, and the pace relative to the
+ * race average (standing start, then cruising, then the run to the line)
+ */
+const SEGMENT_PLAN: (Omit<SegmentInfo, 'length'> & { share: number; pace: number })[] = [
+  { name: 'start', label: 'Start (発馬)', share: 0.125, pace: 0.9 },
+  { name: 'early', label: 'Early pace (前半)', share: 0.375, pace: 1.02 },
+  { name: 'corner', label: 'Corner (コーナー)', share: 0.25, pace: 1.01 },
+  { name: 'stretch', label: 'Final stretch (直線)', share: 0.25, pace: 1.0 },
+];
+
+/**
+ * Speed per segment relative to the plan, by running style
+ * Front-runners go early and fade; closers save ground for the stretch
+ */
+const STYLE_PROFILES: Record<RunningStyle, number[]> = {
+  front: [1.04, 1.02, 1.0, 0.97],
+  stalker: [1.02, 1.01, 1.0, 0.99],
+  midpack: [0.99, 0.99, 1.0, 1.02],
+  closer: [0.97, 0.98, 1.0, 1.04],
+};
+
+/**
+ * Speed per segment relative to the plan, by pace of the race
+ */
+const PACE_PROFILES: Record<PaceScenario, number[]> = {
+  slow: [0.98, 0.97, 1.0, 1.03],
+  average: [1, 1, 1, 1],
+  fast: [1.02, 1.03, 1.0, 0.96],
+};
+
+/**
+ * Average speed (m/s) over 1000m on good turf, and the slowdown per doubling of distance
+ */
+const BASE_SPEED = 17.4;
+const DISTANCE_SLOWDOWN = 0.6;
+
+/**
+ * Speed lost on dirt, and on turf at 不良 (wet dirt rides a little faster)
+ */
+const DIRT_SLOWDOWN = 0.5;
+const TURF_GOING_SLOWDOWN = 0.5;
+const DIRT_GOING_SPEEDUP = 0.2;
+
+/**
+ * One length (馬身) in metres
+ */
+const LENGTH_METRES = 2.4;
+
+/**
+ * Average gap between consecutive finishers at 1600m, in lengths
+ */
+const MEAN_GAP_LENGTHS = 0.9;
+
+/**
+ * Smallest gap that is not a dead heat (a nose)
+ */
+const MIN_GAP_LENGTHS = 0.03;
+
+/**
+ * Spread of each horse's effort per segment (fraction of its speed)
+ */
+const SEGMENT_EFFORT_SD = 0.015;
+
+/**
+ * Spread of the winning time (fraction of the standard time)
+ */
+const WINNING_TIME_SD = 0.005;
+
+/**
+ * JRA margin (着差) names, by the largest gap in lengths they cover
+ */
+const MARGIN_LABELS: [number, string][] = [
+  [0.1, 'ハナ'],
+  [0.2, 'アタマ'],
+  [0.375, 'クビ'],
+  [0.625, '1/2馬身'],
+  [0.875, '3/4馬身'],
+  [1.125, '1馬身'],
+  [1.375, '1 1/4馬身'],
+  [1.625, '1 1/2馬身'],
+  [1.875, '1 3/4馬身'],
+  [2.25, '2馬身'],
+  [2.75, '2 1/2馬身'],
+  [3.25, '3馬身'],
+  [3.75, '3 1/2馬身'],
+  [4.5, '4馬身'],
+  [5.5, '5馬身'],
+  [6.5, '6馬身'],
+  [7.5, '7馬身'],
+  [8.5, '8馬身'],
+  [9.5, '9馬身'],
+  [10.5, '10馬身'],
+];
+
+/**
+ * Name a gap between two finishers the way JRA results do
+ */
+export function formatMargin(lengths: number): string {
+  if (lengths <= 0) return '同着';
+  const match = MARGIN_LABELS.find(([upTo]) => lengths < upTo);
+  return match ? match[1] : '大差';
+}
+
+/**
+ * Race time as m:ss.s (e.g. 1:33.5)
+ */
+export function formatRaceTime(seconds: number): string {
+  const tenths = Math.round(seconds * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * Segments of a race, with their lengths in metres
+ */
+export function getSegments(distance: number): SegmentInfo[] {
+  return SEGMENT_PLAN.map(({ name, label, share }) => ({ name, label, length: distance * share }));
+}
+
+/**
+ * Average speed (m/s) of a standard winner under the race conditions
+ */
+export function getStandardSpeed(conditions: RaceConditions): number {
+  const severity = GOING_SEVERITY[conditions.going];
+  const surfaceEffect =
+    conditions.surface === 'turf'
+      ? -TURF_GOING_SLOWDOWN * severity
+      : -DIRT_SLOWDOWN + DIRT_GOING_SPEEDUP * severity;
+  return BASE_SPEED - DISTANCE_SLOWDOWN * Math.log2(conditions.distance / 1000) + surfaceEffect;
+}
+
+/**
+ * Simulate split and final times for a finish order
+ * Final times follow the finish order exactly (dead heats share a time);
+ * each horse's style and the pace of the race decide where it runs during the race
+ */
+export function simulateRaceTimes(
+  outcome: Pick<RaceOutcome, 'finishOrder' | 'positions' | 'pace'>,
+  horses: Horse[],
+  config: Pick<RaceConfig, 'seed' | 'conditions'>
+): RaceTimes {
+  const rng = new SeededRNG(`${config.seed}-physics`);
+  const { distance } = config.conditions;
+  const segments = getSegments(distance);
+  const speed = getStandardSpeed(config.conditions);
+
+  const winningTime = (distance / speed) * (1 + WINNING_TIME_SD * rng.nextNormal());
+  const secondsPerLength = (LENGTH_METRES * winningTime) / distance;
+  const meanGap = MEAN_GAP_LENGTHS * Math.sqrt(distance / 1600);
+  const paceProfile = PACE_PROFILES[outcome.pace ?? 'average'];
+
+  let lengthsBehind = 0;
+  const runs: HorseRun[] = outcome.finishOrder.map((horseId, idx) => {
+    const deadHeat = idx > 0 && outcome.positions[idx] === outcome.positions[idx - 1];
+    // Exponential gaps: mostly close finishes, now and then a clear winner
+    const gap = idx === 0 || deadHeat ? 0 : MIN_GAP_LENGTHS - meanGap * Math.log(1 - rng.next());
+    lengthsBehind += gap;
+    const time = winningTime + lengthsBehind * secondsPerLength;
+
+    // The horse's pace profile, scaled so the splits add up to its final time
+    const style = horses.find((horse) => horse.id === horseId)?.style ?? 'midpack';
+    const rawSplits = segments.map((segment, s) => {
+      const effort = STYLE_PROFILES[style][s] * (1 + SEGMENT_EFFORT_SD * rng.nextNormal());
+      return segment.length / (speed * SEGMENT_PLAN[s].pace * paceProfile[s] * effort);
+    });
+    const scale = time / rawSplits.reduce((sum, split) => sum + split, 0);
+
+    return {
+      horseId,
+      splits: rawSplits.map((split) => split * scale),
+      time,
+      lengthsBehind,
+      margin: idx === 0 ? '' : formatMargin(gap),
+    };
+  });
+
+  return { segments, runs };
+}
+
+/**
+ * Metres a horse has covered after the given number of seconds
+ * (constant speed within each segment)
+ */
+export function getDistanceCovered(run: HorseRun, segments: SegmentInfo[], seconds: number): number {
+  let covered = 0;
+  let elapsed = 0;
+
+  for (let s = 0; s < segments.length; s++) {
+    const split = run.splits[s];
+    if (seconds < elapsed + split) {
+      return covered + (segments[s].length * (seconds - elapsed)) / split;
+    }
+    covered += segments[s].length;
+    elapsed += split;
+  }
+
+  return covered;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addBetsToPools,
+  deserializePools,
+  poolsToOddsTable,
+  serializePools,
+  simulateCrowdPools,
+} from './pool';
+import { calculatePoolDividend, takeoutRate } from './dividend';
+import { resolveRace } from './payout';
+import { generateHorses } from './race';
+import type { Bet, RaceConfig } from './types';
+
+describe('pool', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'pool-test',
+    difficulty: 'standard',
+    pricing: 'parimutuel',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+
+  describe('simulateCrowdPools', () => {
+    it('fills every pool deterministically from the seed', () => {
+      const pools1 = simulateCrowdPools(horses, config);
+      const pools2 = simulateCrowdPools(horses, config);
+
+      expect(serializePools(pools1)).toEqual(serializePools(pools2));
+      expect(pools1.win.stakes.size).toBe(8);
+      expect(pools1.trifecta.stakes.size).toBe(8 * 7 * 6);
+      expect(pools1.win.takeout).toBeCloseTo(takeoutRate(0.18));
+    });
+
+    it('lists place and wide odds as the low end of their range', () => {
+      const odds = poolsToOddsTable(simulateCrowdPools(horses, config), horses);
+
+      odds.place.forEach((price, idx) => {
+        expect(price).toBe(odds.placeRange![idx].min);
+        expect(odds.placeRange![idx].max).toBeGreaterThanOrEqual(price);
+      });
+      expect(odds.wide.get('1-2')).toBe(odds.wideRange!.get('1-2')!.min);
+    });
+
+    it('returns (1 - takeout) of the win pool to winners', () => {
+      const pools = simulateCrowdPools(horses, config);
+      const odds = poolsToOddsTable(pools, horses);
+
+      // Sum of implied probabilities = 1 / (1 - takeout), before dividend rounding
+      const implied = odds.win.reduce((sum, o) => sum + 1 / o, 0);
+      expect(implied).toBeGreaterThan(1 / (1 - pools.win.takeout));
+      expect(implied).toBeLessThan(1 / (1 - pools.win.takeout) + 0.05);
+    });
+  });
+
+  describe('player stakes', () => {
+    it('shorten the price of the selection they back', () => {
+      const pools = simulateCrowdPools(horses, config);
+      const before = poolsToOddsTable(pools, horses);
+      const after = poolsToOddsTable(
+        addBetsToPools(pools, [{ type: 'win', horses: [3], stake: 100000 }]),
+        horses
+      );
+
+      expect(after.win[2]).toBeLessThan(before.win[2]);
+      expect(pools.win.stakes.get('3')).toBe(before.pools!.win.stakes.get('3'));
+    });
+
+    it('are settled at the final dividend by resolveRace', () => {
+      const pools = simulateCrowdPools(horses, config);
+      const odds = poolsToOddsTable(pools, horses);
+      const bets: Bet[] = [{ type: 'win', horses: [1], stake: 50000 }];
+      const finishOrder = [1, 2, 3, 4, 5, 6, 7, 8];
+
+      const result = resolveRace(bets, finishOrder, odds);
+      const finalPools = addBetsToPools(pools, bets);
+      const expectedOdds = calculatePoolDividend(finalPools.win, ['1'], '1');
+
+      expect(result.payouts[0].won).toBe(true);
+      expect(result.payouts[0].odds).toBe(expectedOdds);
+      expect(result.payouts[0].odds).toBeLessThan(odds.win[0]);
+      expect(result.totalPayout).toBe(Math.floor(50000 * expectedOdds));
+    });
+  });
+
+  it('round-trips through serialization', () => {
+    const pools = simulateCrowdPools(horses, config);
+    const restored = deserializePools(JSON.parse(JSON.stringify(serializePools(pools))));
+
+    expect(restored.quinella.stakes).toEqual(pools.quinella.stakes);
+    expect(restored.place.total).toBe(pools.place.total);
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Pari-mutuel pools (JRA style)
+ * Simulated crowd money goes into per-bet-type pools; after takeout
+ * the remaining pool is shared by the winning stakes
+ */
+
+import type {
+  Bet,
+  BetPool,
+  BetType,
+  Horse,
+  OddsTable,
+  PoolTable,
+  ProbabilityTable,
+  RaceConfig,
+} from './types';
+import { SeededRNG } from './rng';
+import {
+  calculateExactProbabilities,
+  getMultiWinnerRanges,
+  getPlaceThreshold,
+  getSelectionKey,
+  priceProbabilityTable,
+} from './odds';
+import { getRunners } from './race';
+import { buildPool, calculatePoolDividend, takeoutRate } from './dividend';
+
+/**
+ * Crowd money put into each pool before the player bets
+ */
+export const CROWD_POOL_SIZES: Record<BetType, number> = {
+  win: 3_000_000,
+  place: 2_000_000,
+  quinella: 5_000_000,
+  exacta: 4_000_000,
+  wide: 3_000_000,
+  trio: 6_000_000,
+  trifecta: 10_000_000,
+  bracketQuinella: 1_000_000,
+};
+
+/**
+ * How far (in rating points) the crowd misjudges each horse
+ */
+const CROWD_RATING_NOISE = 5;
+
+/**
+ * Winning pairs in the wide pool (every pair in the top 3)
+ */
+const WIDE_WINNERS = 3;
+
+/**
+ * Multiply every value of a map
+ */
+function scaleMap(values: Map<string, number>, factor: number): Map<string, number> {
+  return new Map(Array.from(values, ([key, value]) => [key, value * factor]));
+}
+
+/**
+ * Key per-horse values by horse ID
+ */
+function byHorse(horses: Horse[], values: number[]): Map<string, number> {
+  return new Map(horses.map((horse, idx) => [String(horse.id), values[idx]]));
+}
+
+/**
+ * The crowd's (noisy) view of the ratings, seeded from the race
+ */
+export function getCrowdHorses(horses: Horse[], config: RaceConfig): Horse[] {
+  const rng = new SeededRNG(`${config.seed}-crowd`);
+  return horses.map((horse) => ({
+    ...horse,
+    rating: horse.rating + rng.nextRange(-CROWD_RATING_NOISE, CROWD_RATING_NOISE),
+  }));
+}
+
+/**
+ * Simulate the crowd's money in every pool
+ * The crowd bets on its own view of the ratings
+ */
+export function simulateCrowdPools(horses: Horse[], config: RaceConfig): PoolTable {
+  const crowd = calculateExactProbabilities(getCrowdHorses(horses, config), config);
+  const placeThreshold = getPlaceThreshold(getRunners(horses).length);
+  const takeout = takeoutRate(config.margin);
+
+  return {
+    win: buildPool(byHorse(horses, crowd.win), CROWD_POOL_SIZES.win, takeout),
+    place: buildPool(
+      byHorse(horses, crowd.place.map((p) => p / placeThreshold)),
+      CROWD_POOL_SIZES.place,
+      takeout
+    ),
+    quinella: buildPool(crowd.quinella, CROWD_POOL_SIZES.quinella, takeout),
+    exacta: buildPool(crowd.exacta, CROWD_POOL_SIZES.exacta, takeout),
+    wide: buildPool(scaleMap(crowd.wide, 1 / WIDE_WINNERS), CROWD_POOL_SIZES.wide, takeout),
+    trio: buildPool(crowd.trio, CROWD_POOL_SIZES.trio, takeout),
+    trifecta: buildPool(crowd.trifecta, CROWD_POOL_SIZES.trifecta, takeout),
+    bracketQuinella: buildPool(
+      crowd.bracketQuinella,
+      CROWD_POOL_SIZES.bracketQuinella,
+      takeout
+    ),
+  };
+}
+
+/**
+ * Add bets to the pools (returns new pools)
+ */
+export function addBetsToPools(pools: PoolTable, bets: Bet[]): PoolTable {
+  const result = Object.fromEntries(
+    Object.entries(pools).map(([type, pool]) => [
+      type,
+      { ...pool, stakes: new Map(pool.stakes) },
+    ])
+  ) as PoolTable;
+
+  for (const bet of bets) {
+    const pool = result[bet.type];
+    const key = getSelectionKey(bet.type, bet.horses);
+    pool.stakes.set(key, (pool.stakes.get(key) || 0) + bet.stake);
+    pool.total += bet.stake;
+  }
+
+  return result;
+}
+
+/**
+ * Current odds for every selection in the pools
+ * Place and wide list the lowest dividend of their range
+ */
+export function poolsToOddsTable(pools: PoolTable, horses: Horse[]): OddsTable {
+  const placeThreshold = getPlaceThreshold(getRunners(horses).length);
+  const winOdds = horses.map((horse) =>
+    calculatePoolDividend(pools.win, [String(horse.id)], String(horse.id))
+  );
+  const { placeRange, wideRange } = getMultiWinnerRanges(pools, horses.length, placeThreshold);
+
+  const comboOdds = (pool: BetPool) => {
+    const odds = new Map<string, number>();
+    pool.stakes.forEach((_, key) => {
+      odds.set(key, calculatePoolDividend(pool, [key], key));
+    });
+    return odds;
+  };
+
+  return {
+    win: winOdds,
+    place: placeRange.map((range) => range.min),
+    quinella: comboOdds(pools.quinella),
+    exacta: comboOdds(pools.exacta),
+    wide: new Map(Array.from(wideRange, ([key, range]) => [key, range.min])),
+    trio: comboOdds(pools.trio),
+    trifecta: comboOdds(pools.trifecta),
+    bracketQuinella: comboOdds(pools.bracketQuinella),
+    pools,
+    placeRange,
+    wideRange,
+  };
+}
+
+/**
+ * Price a race as the game does: bookmaker prices, or crowd pools in
+ * pari-mutuel mode, with the model's fair probabilities attached
+ */
+export function priceRace(
+  horses: Horse[],
+  config: RaceConfig,
+  probabilities: ProbabilityTable = calculateExactProbabilities(horses, config)
+): OddsTable {
+  const odds =
+    config.pricing === 'parimutuel'
+      ? poolsToOddsTable(simulateCrowdPools(horses, config), horses)
+      : priceProbabilityTable(probabilities, config.margin);
+  return { ...odds, fair: probabilities };
+}
+
+/**
+ * Pools with Maps flattened to entries (for postMessage / JSON)
+ */
+export interface SerializedBetPool {
+  takeout: number;
+  total: number;
+  stakes: [string, number][];
+}
+
+export type SerializedPoolTable = Record<BetType, SerializedBetPool>;
+
+export function serializePool(pool: BetPool): SerializedBetPool {
+  return { takeout: pool.takeout, total: pool.total, stakes: Array.from(pool.stakes) };
+}
+
+export function deserializePool(serialized: SerializedBetPool): BetPool {
+  return { takeout: serialized.takeout, total: serialized.total, stakes: new Map(serialized.stakes) };
+}
+
+export function serializePools(pools: PoolTable): SerializedPoolTable {
+  return Object.fromEntries(
+    Object.entries(pools).map(([type, pool]) => [type, serializePool(pool)])
+  ) as SerializedPoolTable;
+}
+
+export function deserializePools(serialized: SerializedPoolTable): PoolTable {
+  return Object.fromEntries(
+    Object.entries(serialized).map(([type, pool]) => [type, deserializePool(pool)])
+  ) as PoolTable;
+}
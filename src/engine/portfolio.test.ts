@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExactProbabilities, priceProbabilityTable } from './odds';
+import { generateHorses } from './race';
+import { allocateUnits, listCandidateBets, optimizePortfolio } from './portfolio';
+import type { StakingContext } from './staking';
+import type { OddsTable, RaceConfig } from './types';
+import { MIN_BET } from './types';
+
+describe('portfolio', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'portfolio-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+  const fair = calculateExactProbabilities(horses, config);
+  const priced: OddsTable = { ...priceProbabilityTable(fair, config.margin), fair };
+  // Every win and quinella price at 1.5× the fair odds, the rest at the bookmaker's
+  const generous: OddsTable = {
+    ...priced,
+    win: fair.win.map((p) => 1.5 / p),
+    quinella: new Map(Array.from(fair.quinella, ([key, p]) => [key, 1.5 / p])),
+  };
+  const context: StakingContext = {
+    bankroll: 10000,
+    maxBetPercentage: 0.5,
+    minBet: MIN_BET,
+    numHorses: 8,
+    scratched: [],
+  };
+  const candidates = [1, 2, 3];
+
+  it('lists every bet type on the candidates', () => {
+    const bets = listCandidateBets(candidates, priced, context);
+    const count = (type: string) => bets.filter((bet) => bet.type === type).length;
+    expect(count('win')).toBe(3);
+    expect(count('quinella')).toBe(3);
+    expect(count('exacta')).toBe(6);
+    expect(count('trio')).toBe(1);
+    expect(count('trifecta')).toBe(6);
+    expect(listCandidateBets(candidates, priced, { ...context, scratched: [1] }).some((bet) => bet.horses.includes(1) && bet.type !== 'bracketQuinella')).toBe(false);
+  });
+
+  it('splits a budget in whole units by weight', () => {
+    expect(allocateUnits([1, 1, 2], 1000, MIN_BET)).toEqual([300, 200, 500]);
+    expect(allocateUnits([0, 0], 1000, MIN_BET)).toEqual([0, 0]);
+  });
+
+  it('maximises growth with the value bets only, within the budget', () => {
+    const result = optimizePortfolio(candidates, generous, context, { objective: 'growth', budget: 2000, targetEv: 0 });
+    expect(result.bets.length).toBeGreaterThan(0);
+    expect(result.totalStake).toBeLessThanOrEqual(2000);
+    result.bets.forEach((bet) => {
+      expect(['win', 'quinella']).toContain(bet.type);
+      expect(bet.stake % MIN_BET).toBe(0);
+    });
+    expect(result.expectedProfit).toBeGreaterThan(0);
+    expect(result.expectedLogGrowth).toBeGreaterThan(0);
+  });
+
+  it('does not bet for growth without an edge', () => {
+    const result = optimizePortfolio(candidates, priced, context, { objective: 'growth', budget: 2000, targetEv: 0 });
+    expect(result.bets).toHaveLength(0);
+    expect(result.note).toBeDefined();
+  });
+
+  it('covers more finishes for hit rate, at the target EV', () => {
+    const result = optimizePortfolio(candidates, generous, context, { objective: 'hitRate', budget: 1000, targetEv: 0 });
+    expect(result.bets.length).toBeGreaterThan(1);
+    expect(result.totalStake).toBeLessThanOrEqual(1000);
+    expect(result.expectedProfit).toBeGreaterThanOrEqual(-1000 * 0.02);
+
+    const single = optimizePortfolio([1], generous, context, { objective: 'hitRate', budget: 1000, targetEv: 0 });
+    expect(result.hitProbability).toBeGreaterThan(single.hitProbability);
+  });
+
+  it('finds the least-variance slip that reaches the target', () => {
+    const result = optimizePortfolio(candidates, generous, context, { objective: 'minVariance', budget: 1000, targetEv: 0.2 });
+    expect(result.totalStake).toBe(1000);
+    expect(result.expectedProfit).toBeGreaterThan(1000 * 0.15);
+
+    const riskier = optimizePortfolio(candidates, generous, context, { objective: 'minVariance', budget: 1000, targetEv: 0.45 });
+    expect(riskier.stdDev).toBeGreaterThan(result.stdDev);
+
+    const unreachable = optimizePortfolio(candidates, generous, context, { objective: 'minVariance', budget: 1000, targetEv: 1 });
+    expect(unreachable.bets).toHaveLength(0);
+    expect(unreachable.note).toMatch(/target EV/);
+  });
+
+  it('gives the full return distribution of the slip', () => {
+    const result = optimizePortfolio(candidates, generous, context, { objective: 'hitRate', budget: 1000, targetEv: 0 });
+    const total = result.distribution.reduce((sum, o) => sum + o.probability, 0);
+    expect(total).toBeCloseTo(1, 9);
+    expect(result.distribution[0].profit).toBe(-result.totalStake);
+    const mean = result.distribution.reduce((sum, o) => sum + o.probability * o.profit, 0);
+    expect(mean).toBeCloseTo(result.expectedProfit);
+    expect(1 - result.distribution[0].probability).toBeCloseTo(result.hitProbability);
+  });
+});
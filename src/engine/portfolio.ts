@@ -0,0 +1,371 @@
+/**
+ * Bet portfolio optimizer
+ * Picks bets of every type on a set of candidate horses and splits a budget
+ * between them, using the exact top-3 finish probabilities:
+ * - growth: maximum expected log bankroll (multi-outcome Kelly, capped at the budget)
+ * - hitRate: maximum chance that something pays, keeping the EV at the target
+ * - minVariance: smallest variance of the return that reaches the target EV
+ * Place and wide are valued at the lowest dividend of their range.
+ */
+
+import type {
+  Bet,
+  BetType,
+  OddsTable,
+  PortfolioObjective,
+  PortfolioOptions,
+  PortfolioOutcome,
+  PortfolioResult,
+} from './types';
+import { BET_SELECTION_COUNTS } from './types';
+import { getBracketNumber } from './odds';
+import { getOddsForBet, isBetRefunded } from './payout';
+import { expandSelections } from './ticket';
+import { groupOutcomes, roundStake, solveKellyFractions } from './staking';
+import type { OutcomeGroup, StakingContext } from './staking';
+
+export const PORTFOLIO_OBJECTIVE_LABELS: Record<PortfolioObjective, string> = {
+  growth: 'Maximum log-growth',
+  hitRate: 'Maximum hit rate',
+  minVariance: 'Minimum variance',
+};
+
+const PORTFOLIO_BET_TYPES: BetType[] = [
+  'win',
+  'place',
+  'quinella',
+  'exacta',
+  'wide',
+  'trio',
+  'trifecta',
+  'bracketQuinella',
+];
+
+const DESCENT_STEPS = 300;
+const BISECTION_STEPS = 20;
+
+/**
+ * Every offered bet on the candidate horses (bracket quinella on their brackets)
+ */
+export function listCandidateBets(
+  candidates: number[],
+  odds: OddsTable,
+  context: Pick<StakingContext, 'numHorses' | 'scratched' | 'minBet'>
+): Bet[] {
+  const { numHorses, scratched, minBet } = context;
+  const horses = candidates.filter((id) => !scratched.includes(id)).sort((a, b) => a - b);
+  const brackets = horses.map((id) => getBracketNumber(id, numHorses));
+  const uniqueBrackets = Array.from(new Set(brackets));
+
+  return PORTFOLIO_BET_TYPES.flatMap((type) => {
+    const selections =
+      type === 'bracketQuinella'
+        ? [
+            ...expandSelections(type, 'box', [uniqueBrackets]),
+            // Same-bracket pairs (枠連 8-8) when two candidates share a bracket
+            ...uniqueBrackets
+              .filter((b) => brackets.filter((x) => x === b).length > 1)
+              .map((b) => [b, b]),
+          ]
+        : BET_SELECTION_COUNTS[type] === 1
+          ? horses.map((id) => [id])
+          : expandSelections(type, 'box', [horses]);
+
+    return selections
+      .map((selection): Bet => ({ type, horses: selection, stake: minBet }))
+      .filter((bet) => getOddsForBet(bet, odds) > 0 && !isBetRefunded(bet, scratched, numHorses));
+  });
+}
+
+/**
+ * Split a budget by weight in whole units (largest remainder)
+ */
+export function allocateUnits(weights: number[], budget: number, minBet: number): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const units = Math.floor(budget / minBet + 1e-9);
+  if (total <= 0 || units <= 0) return weights.map(() => 0);
+
+  const exact = weights.map((w) => (w / total) * units);
+  const whole = exact.map(Math.floor);
+  const order = exact
+    .map((x, i) => ({ i, remainder: x - Math.floor(x) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  let left = units - whole.reduce((sum, u) => sum + u, 0);
+  for (const { i } of order) {
+    if (left <= 0) break;
+    if (weights[i] <= 0) continue;
+    whole[i] += 1;
+    left -= 1;
+  }
+  return whole.map((u) => u * minBet);
+}
+
+/**
+ * Expected gross return per unit stake of each bet
+ */
+function getMeanReturns(groups: OutcomeGroup[], count: number): number[] {
+  const means = new Array(count).fill(0);
+  groups.forEach((group) => {
+    group.returns.forEach((r, i) => {
+      means[i] += group.probability * r;
+    });
+  });
+  return means;
+}
+
+/**
+ * Euclidean projection onto the probability simplex (weights ≥ 0 summing to 1)
+ */
+function projectToSimplex(values: number[]): number[] {
+  const sorted = [...values].sort((a, b) => b - a);
+  let cumulative = 0;
+  let theta = 0;
+  sorted.forEach((v, k) => {
+    cumulative += v;
+    const candidate = (cumulative - 1) / (k + 1);
+    if (v - candidate > 0) theta = candidate;
+  });
+  return values.map((v) => Math.max(0, v - theta));
+}
+
+// Outcome group with only the bets it pays: [bet index, return per unit]
+interface SparseGroup {
+  probability: number;
+  winners: [number, number][];
+}
+
+function toSparse(groups: OutcomeGroup[]): SparseGroup[] {
+  return groups.map((group) => ({
+    probability: group.probability,
+    winners: group.returns.flatMap((r, i): [number, number][] => (r > 0 ? [[i, r]] : [])),
+  }));
+}
+
+/**
+ * Portfolio return per unit stake in each outcome group for weights w
+ */
+function getPortfolioReturns(groups: SparseGroup[], weights: number[]): number[] {
+  return groups.map((group) => group.winners.reduce((sum, [i, r]) => sum + r * weights[i], 0));
+}
+
+/**
+ * Minimise variance − λ·mean over the simplex (projected gradient with backtracking)
+ */
+function minimiseRiskAdjusted(
+  groups: SparseGroup[],
+  means: number[],
+  lambda: number,
+  start: number[]
+): number[] {
+  const objective = (w: number[]) => {
+    const returns = getPortfolioReturns(groups, w);
+    const mean = groups.reduce((sum, group, g) => sum + group.probability * returns[g], 0);
+    const square = groups.reduce((sum, group, g) => sum + group.probability * returns[g] ** 2, 0);
+    return square - mean * mean - lambda * mean;
+  };
+  let weights = start;
+  let value = objective(weights);
+  let step = 1;
+
+  for (let iter = 0; iter < DESCENT_STEPS; iter++) {
+    // ∂Var/∂w_i = 2·Cov(R_i, portfolio return)
+    const returns = getPortfolioReturns(groups, weights);
+    const mean = groups.reduce((sum, group, g) => sum + group.probability * returns[g], 0);
+    const crossMoments = new Array(means.length).fill(0);
+    groups.forEach((group, g) => {
+      group.winners.forEach(([i, r]) => {
+        crossMoments[i] += group.probability * r * returns[g];
+      });
+    });
+    const gradient = means.map((m, i) => 2 * (crossMoments[i] - m * mean) - lambda * m);
+
+    let next = projectToSimplex(weights.map((w, i) => w - step * gradient[i]));
+    let nextValue = objective(next);
+    while (nextValue > value && step > 1e-12) {
+      step /= 2;
+      next = projectToSimplex(weights.map((w, i) => w - step * gradient[i]));
+      nextValue = objective(next);
+    }
+    if (value - nextValue < 1e-9 * (1 + Math.abs(value))) break;
+    weights = next;
+    value = nextValue;
+    step *= 2;
+  }
+
+  return weights;
+}
+
+/**
+ * Weights of the least-variance portfolio whose mean return reaches target
+ * (null when no bet reaches it)
+ */
+function solveMinVariance(groups: SparseGroup[], means: number[], target: number): number[] | null {
+  const best = means.indexOf(Math.max(...means));
+  if (best < 0 || means[best] < target) return null;
+
+  const uniform = means.map(() => 1 / means.length);
+  let weights = minimiseRiskAdjusted(groups, means, 0, uniform);
+  const meanOf = (w: number[]) => w.reduce((sum, x, i) => sum + x * means[i], 0);
+  if (meanOf(weights) >= target) return weights;
+
+  // Raise the weight on the mean until the target is met
+  let low = 0;
+  let high = 1;
+  while (meanOf(minimiseRiskAdjusted(groups, means, high, uniform)) < target && high < 1e6) high *= 4;
+  weights = means.map((_, i) => (i === best ? 1 : 0));
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const lambda = (low + high) / 2;
+    const candidate = minimiseRiskAdjusted(groups, means, lambda, weights);
+    if (meanOf(candidate) >= target) {
+      high = lambda;
+      weights = candidate;
+    } else {
+      low = lambda;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Greedy cover: add the bet that pays in the most uncovered probability,
+ * one unit each, while the mean EV stays at or above the target
+ */
+function solveHitRate(groups: OutcomeGroup[], means: number[], units: number, targetEv: number): number[] {
+  const chosen = new Set<number>();
+  const covered = new Array(groups.length).fill(false);
+  let evSum = 0;
+
+  while (chosen.size < units) {
+    let bestBet = -1;
+    let bestGain = 0;
+    means.forEach((mean, i) => {
+      if (chosen.has(i) || (evSum + mean - 1) / (chosen.size + 1) < targetEv) return;
+      const gain = groups.reduce(
+        (sum, group, g) => (!covered[g] && group.returns[i] > 0 ? sum + group.probability : sum),
+        0
+      );
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestBet = i;
+      }
+    });
+    if (bestBet < 0) break;
+
+    chosen.add(bestBet);
+    evSum += means[bestBet] - 1;
+    groups.forEach((group, g) => {
+      if (group.returns[bestBet] > 0) covered[g] = true;
+    });
+  }
+
+  return means.map((_, i) => (chosen.has(i) ? 1 : 0));
+}
+
+/**
+ * Return distribution of a slip: profit in points per top-3 finish, merged by profit
+ */
+export function getReturnDistribution(groups: OutcomeGroup[], stakes: number[]): PortfolioOutcome[] {
+  const totalStake = stakes.reduce((sum, s) => sum + s, 0);
+  const byProfit = new Map<number, number>();
+  groups.forEach((group) => {
+    const payout = group.returns.reduce((sum, r, i) => sum + Math.floor(r * stakes[i]), 0);
+    const profit = payout - totalStake;
+    byProfit.set(profit, (byProfit.get(profit) || 0) + group.probability);
+  });
+  return Array.from(byProfit, ([profit, probability]) => ({ profit, probability })).sort(
+    (a, b) => a.profit - b.profit
+  );
+}
+
+/**
+ * Build a bet slip on the candidate horses within the budget
+ */
+export function optimizePortfolio(
+  candidates: number[],
+  odds: OddsTable,
+  context: StakingContext,
+  options: PortfolioOptions
+): PortfolioResult {
+  const { bankroll, minBet, numHorses, scratched } = context;
+  const budget = roundStake(Math.min(options.budget, bankroll), minBet);
+  const empty = (note: string): PortfolioResult => ({
+    objective: options.objective,
+    bets: [],
+    totalStake: 0,
+    expectedProfit: 0,
+    stdDev: 0,
+    hitProbability: 0,
+    expectedLogGrowth: 0,
+    distribution: [],
+    note,
+  });
+
+  const fair = odds.fair;
+  if (!fair) return empty('Fair probabilities are not available.');
+  if (budget < minBet) return empty(`The budget is below ${minBet}pt.`);
+
+  const candidateBets = listCandidateBets(candidates, odds, context);
+  if (candidateBets.length === 0) return empty('Pick at least one running horse.');
+
+  const prices = candidateBets.map((bet) => getOddsForBet(bet, odds));
+  const groups = groupOutcomes(candidateBets, prices, fair, numHorses, numHorses - scratched.length);
+  const means = getMeanReturns(groups, candidateBets.length);
+
+  let stakes: number[];
+  let note: string | undefined;
+  switch (options.objective) {
+    case 'growth': {
+      const fractions = solveKellyFractions(groups, candidateBets.map(() => null));
+      const wanted = fractions.reduce((sum, f) => sum + f * bankroll, 0);
+      const scale = wanted > budget ? budget / wanted : 1;
+      stakes = fractions.map((f) => roundStake(f * bankroll * scale, minBet));
+      if (wanted === 0) note = 'No bet on these horses has an edge: log-growth is highest without betting.';
+      break;
+    }
+
+    case 'hitRate': {
+      const picks = solveHitRate(groups, means, Math.floor(budget / minBet), options.targetEv);
+      // Equal stakes keep the slip's EV at the mean EV the picks were chosen by
+      stakes = allocateUnits(picks, budget, minBet);
+      if (picks.every((p) => p === 0)) note = 'No bet on these horses reaches the target EV.';
+      break;
+    }
+
+    case 'minVariance': {
+      const weights = solveMinVariance(toSparse(groups), means, 1 + options.targetEv);
+      stakes = weights ? allocateUnits(weights, budget, minBet) : candidateBets.map(() => 0);
+      if (!weights) {
+        note = `No bet on these horses reaches the target EV (best ${((Math.max(...means) - 1) * 100).toFixed(1)}%).`;
+      }
+      break;
+    }
+  }
+
+  const totalStake = stakes.reduce((sum, s) => sum + s, 0);
+  const distribution = getReturnDistribution(groups, stakes);
+  const expectedProfit = distribution.reduce((sum, o) => sum + o.probability * o.profit, 0);
+  const variance = distribution.reduce(
+    (sum, o) => sum + o.probability * (o.profit - expectedProfit) ** 2,
+    0
+  );
+
+  return {
+    objective: options.objective,
+    bets: candidateBets
+      .map((bet, i) => ({ ...bet, stake: stakes[i] }))
+      .filter((bet) => bet.stake > 0),
+    totalStake,
+    expectedProfit,
+    stdDev: Math.sqrt(variance),
+    hitProbability: groups.reduce(
+      (sum, group) => (group.returns.some((r, i) => r > 0 && stakes[i] > 0) ? sum + group.probability : sum),
+      0
+    ),
+    expectedLogGrowth: distribution.reduce(
+      (sum, o) => sum + o.probability * Math.log(Math.max(1e-9, (bankroll + o.profit) / bankroll)),
+      0
+    ),
+    distribution,
+    note,
+  };
+}
@@ -1,7 +1,18 @@
 import { describe, it, expect } from 'vitest';
 import { generateHorses, runMonteCarloSimulations } from './race';
-import { calculateWinProbabilities, calculateWinOdds } from './odds';
-import type { RaceConfig } from './types';
+import {
+  calculateWinProbabilities,
+  calculateWinOdds,
+  calculateExactProbabilities,
+  calculateOddsTable,
+  compareWithMonteCarlo,
+  parseTrifectaKey,
+} from './odds';
+import { calculatePoolDividend, takeoutRate } from './dividend';
+import { RACE_MODELS } from './models';
+import type { RaceConfig, RaceModelName } from './types';
+
+const RACE_MODEL_NAMES = Object.keys(RACE_MODELS) as RaceModelName[];
 
 describe('Probability and Odds Consistency', () => {
   it('should match theoretical win probabilities with Monte Carlo', () => {
@@ -11,12 +22,15 @@ describe('Probability and Odds Consistency', () => {
       margin: 0.18,
       seed: 'test-123',
       difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
     };
 
     const horses = generateHorses(config);
 
     // Theoretical probabilities
-    const theoreticalProbs = calculateWinProbabilities(horses, config.temperature);
+    const theoreticalProbs = calculateWinProbabilities(horses, config);
 
     // Monte Carlo simulation (10,000 trials)
     const simulations = runMonteCarloSimulations(horses, config, 10000);
@@ -53,6 +67,9 @@ describe('Probability and Odds Consistency', () => {
       margin: 0.18,
       seed: 'test-456',
       difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
     };
 
     const horses = generateHorses(config);
@@ -61,7 +78,7 @@ describe('Probability and Odds Consistency', () => {
     const odds = calculateWinOdds(horses, config);
 
     // Theoretical probabilities (without margin)
-    const trueProbs = calculateWinProbabilities(horses, config.temperature);
+    const trueProbs = calculateWinProbabilities(horses, config);
 
     console.log('\nOdds vs True Probability:');
     horses.forEach((_horse, i) => {
@@ -94,6 +111,9 @@ describe('Probability and Odds Consistency', () => {
       margin: 0.18,
       seed: 'test-789',
       difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
     };
 
     // Create horses with known ratings
@@ -129,4 +149,117 @@ describe('Probability and Odds Consistency', () => {
       }
     });
   });
+
+  it.each(RACE_MODEL_NAMES)('should price every quinella and trifecta combination exactly (%s)', (model) => {
+    const config: RaceConfig = {
+      numHorses: 16,
+      temperature: 15,
+      margin: 0.22,
+      seed: 'test-exact',
+      difficulty: 'hard',
+      pricing: 'fixed',
+      model,
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+    };
+
+    const horses = generateHorses(config);
+    const exact = calculateExactProbabilities(horses, config);
+    const odds = calculateOddsTable(horses, config);
+
+    expect(exact.quinella.size).toBe((16 * 15) / 2);
+    expect(exact.trifecta.size).toBe(16 * 15 * 14);
+    expect(odds.trifecta.size).toBe(16 * 15 * 14);
+
+    const sum = (values: Iterable<number>) => Array.from(values).reduce((a, b) => a + b, 0);
+    // Thurstone integrals are numerical, so allow quadrature error
+    expect(sum(exact.win)).toBeCloseTo(1, 6);
+    expect(sum(exact.place)).toBeCloseTo(3, 6);
+    expect(sum(exact.quinella.values())).toBeCloseTo(1, 6);
+    expect(sum(exact.trifecta.values())).toBeCloseTo(1, 6);
+    expect(sum(exact.exacta.values())).toBeCloseTo(1, 6);
+    expect(sum(exact.trio.values())).toBeCloseTo(1, 6);
+    expect(sum(exact.wide.values())).toBeCloseTo(3, 6); // Three winning pairs per race
+    expect(sum(exact.bracketQuinella.values())).toBeCloseTo(1, 6);
+    expect(exact.trio.size).toBe((16 * 15 * 14) / 6);
+    expect(exact.bracketQuinella.size).toBe((8 * 9) / 2); // Includes same-bracket pairs
+
+    // Every trifecta price is finite, including the longest shots
+    odds.trifecta.forEach((value) => {
+      expect(Number.isFinite(value)).toBe(true);
+      expect(value).toBeGreaterThanOrEqual(1.05);
+    });
+  });
+
+  it.each(RACE_MODEL_NAMES)('should agree with Monte Carlo within sampling error (%s)', (model) => {
+    const config: RaceConfig = {
+      numHorses: 6,
+      temperature: 20,
+      margin: 0.18,
+      seed: 'test-crosscheck',
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model,
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+    };
+
+    const horses = generateHorses(config);
+    const exact = calculateExactProbabilities(horses, config);
+    const simulations = runMonteCarloSimulations(horses, config, 10000);
+    const deviation = compareWithMonteCarlo(exact, simulations);
+
+    console.log('\nMonte Carlo deviation:', deviation);
+
+    expect(deviation.trials).toBe(10000);
+    expect(deviation.maxDeviation.win).toBeLessThan(0.03);
+    expect(deviation.maxDeviation.place).toBeLessThan(0.03);
+    expect(deviation.maxDeviation.quinella).toBeLessThan(0.02);
+    expect(deviation.maxDeviation.exacta).toBeLessThan(0.02);
+    expect(deviation.maxDeviation.wide).toBeLessThan(0.03);
+    expect(deviation.maxDeviation.trio).toBeLessThan(0.02);
+    expect(deviation.maxDeviation.trifecta).toBeLessThan(0.01);
+    expect(deviation.maxDeviation.bracketQuinella).toBeLessThan(0.02);
+  });
+
+  it('should keep the takeout on place bets whichever horses place', () => {
+    const config: RaceConfig = {
+      numHorses: 16,
+      temperature: 20,
+      margin: 0.18,
+      seed: 'test-place-takeout',
+      difficulty: 'standard',
+      pricing: 'fixed',
+      model: 'plackett-luce',
+      conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+    };
+
+    const horses = generateHorses(config);
+    const exact = calculateExactProbabilities(horses, config);
+    const odds = calculateOddsTable(horses, config);
+    const pool = odds.multiWinner!.place;
+
+    // Expected return of one point on each horse, over every top 3
+    const expectedReturn = new Array(horses.length).fill(0);
+    exact.trifecta.forEach((p, key) => {
+      const placers = parseTrifectaKey(key).map(String);
+      placers.forEach((id) => {
+        expectedReturn[Number(id) - 1] += p * calculatePoolDividend(pool, placers, id);
+      });
+    });
+
+    const totalStake = Array.from(pool.stakes.values()).reduce((a, b) => a + b, 0);
+    const poolReturn = expectedReturn.reduce(
+      (sum, r, idx) => sum + r * (pool.stakes.get(String(idx + 1)) || 0),
+      0
+    ) / totalStake;
+
+    // Dividend rounding only ever takes a little more
+    expect(poolReturn).toBeLessThanOrEqual(1 - takeoutRate(config.margin));
+    expect(poolReturn).toBeGreaterThan(1 - takeoutRate(config.margin) - 0.03);
+    expectedReturn.forEach((r) => expect(r).toBeLessThan(1));
+
+    odds.placeRange!.forEach((range, idx) => {
+      expect(odds.place[idx]).toBe(range.min);
+      expect(range.max).toBeGreaterThanOrEqual(range.min);
+    });
+  });
 });
@@ -1,10 +1,15 @@
 /**
- * Race simulation using Plackett-Luce model
- * Generates deterministic race outcomes based on horse ratings
+ * Race simulation
+ * Generates deterministic race outcomes based on horse ratings,
+ * using the race model chosen in the config
  */
 
 import { SeededRNG } from './rng';
-import type { Horse, RaceConfig } from './types';
+import type { Horse, PaceScenario, RaceConfig, RaceOutcome } from './types';
+import { getRaceModel } from './models';
+import { generateAptitudes, getEffectiveRating } from './conditions';
+import { simulateRaceTimes } from './physics';
+import { drawPaceScenario, generateRunningStyle, getPaceAdjustment } from './pace';
 
 /**
  * Generate horse names
@@ -48,10 +53,12 @@ const HORSE_COLORS = [
 ];
 
 /**
- * Generate horses with random ratings
+ * Generate horses with random ratings, aptitudes and running styles
  */
 export function generateHorses(config: RaceConfig): Horse[] {
   const rng = new SeededRNG(config.seed);
+  const aptitudeRng = new SeededRNG(`${config.seed}-aptitude`);
+  const styleRng = new SeededRNG(`${config.seed}-style`);
   const horses: Horse[] = [];
 
   for (let i = 0; i < config.numHorses; i++) {
@@ -60,6 +67,8 @@ export function generateHorses(config: RaceConfig): Horse[] {
       name: HORSE_NAMES[i % HORSE_NAMES.length],
       rating: rng.nextRange(60, 100),
       color: HORSE_COLORS[i % HORSE_COLORS.length],
+      aptitudes: generateAptitudes(aptitudeRng),
+      style: generateRunningStyle(styleRng),
     });
   }
 
@@ -67,62 +76,100 @@ export function generateHorses(config: RaceConfig): Horse[] {
 }
 
 /**
- * Calculate Plackett-Luce weights from ratings
- * Weight s_i = exp(rating_i / τ)
+ * Chance that two horses finishing next to each other dead-heat (同着)
  */
-export function calculateWeights(horses: Horse[], temperature: number): number[] {
-  return horses.map((horse) => Math.exp(horse.rating / temperature));
+export const DEAD_HEAT_PROBABILITY = 0.01;
+
+/**
+ * The parts of the race config that decide how strong each horse is
+ */
+export type StrengthConfig = Pick<RaceConfig, 'numHorses' | 'temperature' | 'conditions'>;
+
+/**
+ * Rating on the day: race conditions plus how the pace suits the horse's style
+ */
+function getRaceRating(horse: Horse, config: StrengthConfig, pace: PaceScenario): number {
+  return getEffectiveRating(horse, config) + getPaceAdjustment(horse, pace);
 }
 
 /**
- * Sample one horse from remaining horses based on weights
- * Using weighted random selection
+ * Calculate Plackett-Luce weights for a pace scenario
+ * Weight s_i = exp(race rating_i / τ), 0 for scratched horses
  */
-function sampleByWeight(
-  remainingIndices: number[],
-  weights: number[],
-  rng: SeededRNG
-): number {
-  // Calculate total weight of remaining horses
-  const totalWeight = remainingIndices.reduce((sum, idx) => sum + weights[idx], 0);
-
-  // Random value in [0, totalWeight)
-  let target = rng.next() * totalWeight;
-
-  // Find the selected horse
-  for (const idx of remainingIndices) {
-    target -= weights[idx];
-    if (target <= 0) {
-      return idx;
-    }
-  }
+export function calculateWeights(
+  horses: Horse[],
+  config: StrengthConfig,
+  pace: PaceScenario
+): number[] {
+  return horses.map((horse) =>
+    horse.scratched ? 0 : Math.exp(getRaceRating(horse, config, pace) / config.temperature)
+  );
+}
 
-  // Fallback (should not reach here due to floating point)
-  return remainingIndices[remainingIndices.length - 1];
+/**
+ * Horses still running (not scratched)
+ */
+export function getRunners(horses: Horse[]): Horse[] {
+  return horses.filter((horse) => !horse.scratched);
 }
 
 /**
- * Simulate race finish order using Plackett-Luce model
+ * Runner strengths used by the race models for a pace scenario: race rating / τ
+ */
+export function calculateStrengths(
+  runners: Horse[],
+  config: StrengthConfig,
+  pace: PaceScenario
+): number[] {
+  return runners.map((horse) => getRaceRating(horse, config, pace) / config.temperature);
+}
+
+/**
+ * Seed a race's finish is drawn from: the race seed plus the nonce kept secret
+ * until the race has run (see engine/commitment.ts); without a nonce, the seed alone
+ */
+export function getOutcomeSeed(seed: string, nonce?: string): string {
+  return nonce ? `${seed}-${nonce}` : seed;
+}
+
+/**
+ * Simulate race finish order with the configured race model
+ * The pace is drawn first, then the order under that pace
  * Returns array of horse IDs in finish order [1st, 2nd, 3rd, ...]
  */
 export function simulateRace(horses: Horse[], config: RaceConfig): number[] {
   const rng = new SeededRNG(config.seed);
-  const weights = calculateWeights(horses, config.temperature);
+  const runners = getRunners(horses);
+  const pace = drawPaceScenario(runners, config.seed);
+  const strengths = calculateStrengths(runners, config, pace);
 
-  const finishOrder: number[] = [];
-  const remainingIndices = horses.map((_, idx) => idx);
-
-  // Draw horses one by one until all placed
-  while (remainingIndices.length > 0) {
-    const selectedIdx = sampleByWeight(remainingIndices, weights, rng);
-    finishOrder.push(horses[selectedIdx].id);
-
-    // Remove selected horse from remaining
-    const removeIdx = remainingIndices.indexOf(selectedIdx);
-    remainingIndices.splice(removeIdx, 1);
-  }
+  return getRaceModel(config.model)
+    .sampleOrder(strengths, rng)
+    .map((idx) => runners[idx].id);
+}
 
-  return finishOrder;
+/**
+ * Simulate the full race outcome: finish order, dead heats, scratches, pace and times
+ * Dead heats and times use their own RNG streams so the finish order matches simulateRace
+ */
+export function simulateRaceOutcome(horses: Horse[], config: RaceConfig): RaceOutcome {
+  const finishOrder = simulateRace(horses, config);
+  const pace = drawPaceScenario(getRunners(horses), config.seed);
+  const rng = new SeededRNG(`${config.seed}-deadheat`);
+  const positions: number[] = [];
+
+  finishOrder.forEach((_, idx) => {
+    const deadHeat = idx > 0 && rng.next() < DEAD_HEAT_PROBABILITY;
+    positions.push(deadHeat ? positions[idx - 1] : idx + 1);
+  });
+
+  return {
+    finishOrder,
+    positions,
+    scratched: horses.filter((horse) => horse.scratched).map((horse) => horse.id),
+    pace,
+    times: simulateRaceTimes({ finishOrder, positions, pace }, horses, config),
+  };
 }
 
 /**
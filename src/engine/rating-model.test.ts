@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { MARKET_WEIGHTS, fitRatingModel, getRatingFeatures, predictTrifectas } from './rating-model';
+import { TrifectaPredictor } from './trifecta-predictor';
+import type { RaceDataPoint } from './trifecta-predictor';
+import { generateHorses } from './race';
+import { SeededRNG } from './rng';
+import type { OddsTable, RaceConfig } from './types';
+
+describe('rating model', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'rating-model-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+
+  const makeOdds = (win: number[]) => ({ win, trifecta: new Map<string, number>() }) as unknown as OddsTable;
+
+  /**
+   * Races whose true win chances are the implied probabilities raised to
+   * the power gamma (gamma > 1: favourites win more than the odds say)
+   */
+  const simulateHistory = (count: number, gamma: number): RaceDataPoint[] => {
+    const rng = new SeededRNG(`history-${gamma}`);
+    return Array.from({ length: count }, (_, raceNumber) => {
+      const implied = horses.map(() => Math.exp(rng.nextNormal()));
+      const book = implied.reduce((sum, v) => sum + v, 0) * 1.2;
+      const odds = makeOdds(implied.map((v) => book / v));
+
+      const remaining = horses.map((horse) => horse.id);
+      const order: number[] = [];
+      while (remaining.length > 0) {
+        const weights = remaining.map((id) => implied[id - 1] ** gamma);
+        let u = rng.next() * weights.reduce((sum, w) => sum + w, 0);
+        let pick = 0;
+        while (pick < remaining.length - 1 && u > weights[pick]) u -= weights[pick++];
+        order.push(remaining.splice(pick, 1)[0]);
+      }
+      return {
+        raceNumber,
+        horses,
+        odds,
+        actualResult: order,
+        trifecta: [order[0], order[1], order[2]],
+        trifectaOdds: 0,
+      };
+    });
+  };
+
+  it('builds features from the prices of the runners', () => {
+    const odds = makeOdds([2, 4, 8, 8, 16, 16, 32, 32]);
+    const race = getRatingFeatures(
+      horses.map((horse) => (horse.id === 8 ? { ...horse, scratched: true } : horse)),
+      odds,
+      'easy'
+    );
+    expect(race.ids).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(race.features[0][1]).toBe(0); // Favourite has rank 0
+    expect(race.features[6][1]).toBe(1);
+    expect(race.features[0][3]).toBe(race.features[0][0]); // Easy interaction
+    expect(race.features[0][4]).toBe(0);
+  });
+
+  it('gives the market-implied Harville probabilities with market weights', () => {
+    const odds = makeOdds([2, 4, 8, 8, 16, 16, 32, 32]);
+    const probabilities = predictTrifectas(MARKET_WEIGHTS, horses, odds, 'standard');
+    expect(probabilities.size).toBe(8 * 7 * 6);
+    const total = Array.from(probabilities.values()).reduce((sum, p) => sum + p, 0);
+    expect(total).toBeCloseTo(1, 10);
+
+    const implied = odds.win.map((o) => 1 / o);
+    const book = implied.reduce((sum, v) => sum + v, 0);
+    const winOne = Array.from(probabilities)
+      .filter(([key]) => key.startsWith('1-'))
+      .reduce((sum, [, p]) => sum + p, 0);
+    expect(winOne).toBeCloseTo(implied[0] / book, 10);
+  });
+
+  it('learns when favourites win more often than the odds say', () => {
+    const odds = makeOdds([2, 4, 8, 8, 16, 16, 32, 32]);
+    const favouriteWins = (weights: number[]) =>
+      Array.from(predictTrifectas(weights, horses, odds, 'standard'))
+        .filter(([key]) => key.startsWith('1-'))
+        .reduce((sum, [, p]) => sum + p, 0);
+
+    const model = fitRatingModel(simulateHistory(300, 1.6));
+    expect(model.races).toBe(300);
+    expect(model.logLikelihood).toBeGreaterThan(model.marketLogLikelihood);
+    expect(favouriteWins(model.weights)).toBeGreaterThan(favouriteWins(MARKET_WEIGHTS) + 0.05);
+
+    const fair = fitRatingModel(simulateHistory(300, 1));
+    expect(favouriteWins(fair.weights)).toBeCloseTo(favouriteWins(MARKET_WEIGHTS), 1);
+  });
+
+  it('predicts from the fitted model once there is enough history', () => {
+    const predictor = new TrifectaPredictor();
+    const odds = makeOdds([2, 4, 8, 8, 16, 16, 32, 32]);
+    const market = predictor.predict(horses, odds);
+    expect(market[0].horses).toEqual([1, 2, 3]);
+    expect(market[0].confidence).toBeCloseTo(
+      predictTrifectas(MARKET_WEIGHTS, horses, odds, 'standard').get('1-2-3')! * 100,
+      1
+    );
+
+    predictor.importHistory(simulateHistory(100, 1.6));
+    const fitted = predictor.predict(horses, odds);
+    expect(fitted[0].confidence).toBeGreaterThan(market[0].confidence);
+    expect(predictor.predict(horses, odds)).toEqual(fitted); // No randomness
+  });
+});
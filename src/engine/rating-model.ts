@@ -0,0 +1,237 @@
+/**
+ * Plackett-Luce rating model fitted to race history
+ * Each runner's strength is exp(w · x) over market features: the implied win
+ * probability, the odds rank, and the implied probability scaled by field
+ * size and difficulty (a feature shared by every runner in a race only
+ * matters through such a product). The weights maximise the likelihood of
+ * the recorded top-3 finishes, with a ridge pull towards the market
+ * (w = [1, 0, …]), so with little history the model follows the odds.
+ */
+
+import type { Difficulty, Horse, RatingModel } from './types';
+import type { RaceDataPoint, TrainingOdds } from './trifecta-predictor';
+
+export const RATING_FEATURES = [
+  'log implied probability',
+  'odds rank',
+  'log implied × field size',
+  'log implied × easy',
+  'log implied × hard',
+];
+
+// Strength = implied win probability: the market taken at its word
+export const MARKET_WEIGHTS = [1, 0, 0, 0, 0];
+
+const RIDGE = 1; // Pull towards MARKET_WEIGHTS (per unit of squared distance)
+const FINISH_DEPTH = 3; // Places that count towards the likelihood
+const MAX_ITERATIONS = 50;
+const TOLERANCE = 1e-9;
+
+export interface RaceFeatures {
+  ids: number[]; // Runners (scratched horses left out)
+  features: number[][]; // One row per runner, same order as ids
+}
+
+/**
+ * Feature rows of a race's runners
+ */
+export function getRatingFeatures(horses: Horse[], odds: TrainingOdds, difficulty: Difficulty): RaceFeatures {
+  const runners = horses.filter((horse) => !horse.scratched && odds.win[horse.id - 1] > 0);
+  const inverse = runners.map((horse) => 1 / odds.win[horse.id - 1]);
+  const book = inverse.reduce((sum, v) => sum + v, 0);
+  const ranked = runners
+    .map((horse, idx) => ({ idx, odds: odds.win[horse.id - 1], id: horse.id }))
+    .sort((a, b) => a.odds - b.odds || a.id - b.id);
+  const rank = new Array<number>(runners.length);
+  ranked.forEach((entry, r) => (rank[entry.idx] = runners.length > 1 ? r / (runners.length - 1) : 0));
+
+  const fieldSize = (runners.length - 12) / 4; // -1 for 8 runners, +1 for 16
+  const features = runners.map((_, idx) => {
+    const logImplied = Math.log(inverse[idx] / book);
+    return [
+      logImplied,
+      rank[idx],
+      logImplied * fieldSize,
+      difficulty === 'easy' ? logImplied : 0,
+      difficulty === 'hard' ? logImplied : 0,
+    ];
+  });
+
+  return { ids: runners.map((horse) => horse.id), features };
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+/**
+ * Runner strengths exp(w · x), scaled so the strongest is 1
+ */
+export function getStrengths(weights: number[], race: RaceFeatures): number[] {
+  const utilities = race.features.map((row) => dot(weights, row));
+  const top = Math.max(...utilities);
+  return utilities.map((u) => Math.exp(u - top));
+}
+
+interface FitSample {
+  race: RaceFeatures;
+  order: number[]; // Indices into race.ids of the top finishers
+}
+
+function toSamples(history: RaceDataPoint[]): FitSample[] {
+  return history.flatMap((point) => {
+    const race = getRatingFeatures(point.horses, point.odds, point.difficulty ?? 'standard');
+    const order = point.actualResult
+      .slice(0, FINISH_DEPTH)
+      .map((id) => race.ids.indexOf(id))
+      .filter((idx) => idx >= 0);
+    return race.ids.length >= 2 && order.length > 0 ? [{ race, order }] : [];
+  });
+}
+
+/**
+ * Penalised log-likelihood with its gradient and Hessian
+ */
+function evaluate(weights: number[], samples: FitSample[], withDerivatives: boolean) {
+  const k = weights.length;
+  let value = 0;
+  const gradient = new Array<number>(k).fill(0);
+  const hessian = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+
+  for (const { race, order } of samples) {
+    const utilities = race.features.map((row) => dot(weights, row));
+    const remaining = race.ids.map((_, idx) => idx);
+
+    for (const winner of order) {
+      if (remaining.length < 2) break;
+      const top = Math.max(...remaining.map((idx) => utilities[idx]));
+      const exps = remaining.map((idx) => Math.exp(utilities[idx] - top));
+      const total = exps.reduce((sum, v) => sum + v, 0);
+      value += utilities[winner] - top - Math.log(total);
+
+      if (withDerivatives) {
+        const mean = new Array<number>(k).fill(0);
+        remaining.forEach((idx, r) => race.features[idx].forEach((x, a) => (mean[a] += (exps[r] / total) * x)));
+        race.features[winner].forEach((x, a) => (gradient[a] += x - mean[a]));
+        remaining.forEach((idx, r) => {
+          const row = race.features[idx];
+          const share = exps[r] / total;
+          for (let a = 0; a < k; a++) {
+            for (let b = 0; b < k; b++) hessian[a][b] -= share * (row[a] - mean[a]) * (row[b] - mean[b]);
+          }
+        });
+      }
+      remaining.splice(remaining.indexOf(winner), 1);
+    }
+  }
+
+  // Ridge towards the market weights
+  weights.forEach((w, a) => {
+    const offset = w - MARKET_WEIGHTS[a];
+    value -= (RIDGE / 2) * offset * offset;
+    gradient[a] -= RIDGE * offset;
+    hessian[a][a] -= RIDGE;
+  });
+
+  return { value, gradient, hessian };
+}
+
+/**
+ * Solve A x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinear(matrix: number[][], rhs: number[]): number[] {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let c = col; c <= n; c++) a[row][c] -= factor * a[col][c];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let c = row + 1; c < n; c++) sum -= a[row][c] * x[c];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/**
+ * Maximum-likelihood weights by Newton's method with a backtracking line
+ * search (the penalised log-likelihood is concave, so this converges)
+ */
+export function fitRatingModel(history: RaceDataPoint[]): RatingModel {
+  const samples = toSamples(history);
+  let weights = [...MARKET_WEIGHTS];
+  let current = evaluate(weights, samples, true);
+  let iterations = 0;
+
+  while (iterations < MAX_ITERATIONS) {
+    iterations++;
+    const step = solveLinear(
+      current.hessian.map((row) => row.map((v) => -v)),
+      current.gradient
+    );
+    const slope = dot(step, current.gradient);
+    if (!(slope > TOLERANCE)) break;
+
+    let t = 1;
+    let next = weights.map((w, a) => w + step[a]);
+    let value = evaluate(next, samples, false).value;
+    while (value < current.value + 1e-4 * t * slope && t > 1e-6) {
+      t /= 2;
+      next = weights.map((w, a) => w + t * step[a]);
+      value = evaluate(next, samples, false).value;
+    }
+    if (value <= current.value) break;
+
+    weights = next;
+    current = evaluate(weights, samples, true);
+  }
+
+  const unpenalised = (w: number[]) =>
+    evaluate(w, samples, false).value +
+    (RIDGE / 2) * w.reduce((sum, v, a) => sum + (v - MARKET_WEIGHTS[a]) ** 2, 0);
+
+  return {
+    weights,
+    races: samples.length,
+    logLikelihood: unpenalised(weights),
+    marketLogLikelihood: unpenalised(MARKET_WEIGHTS),
+    iterations,
+  };
+}
+
+/**
+ * Probability of every trifecta (key "i-j-k") under the weights
+ */
+export function predictTrifectas(
+  weights: number[],
+  horses: Horse[],
+  odds: TrainingOdds,
+  difficulty: Difficulty
+): Map<string, number> {
+  const race = getRatingFeatures(horses, odds, difficulty);
+  const strengths = getStrengths(weights, race);
+  const total = strengths.reduce((sum, s) => sum + s, 0);
+  const probabilities = new Map<string, number>();
+
+  race.ids.forEach((first, i) => {
+    const pFirst = strengths[i] / total;
+    race.ids.forEach((second, j) => {
+      if (j === i) return;
+      const pSecond = strengths[j] / (total - strengths[i]);
+      race.ids.forEach((third, k) => {
+        if (k === i || k === j) return;
+        const pThird = strengths[k] / (total - strengths[i] - strengths[j]);
+        probabilities.set(`${first}-${second}-${third}`, pFirst * pSecond * pThird);
+      });
+    });
+  });
+
+  return probabilities;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { generateRaceConditions } from './conditions';
+import { priceRace } from './pool';
+import { resolveRace } from './payout';
+import { simulateRaceOutcome } from './race';
+import { rebuildHorses, replayRace, takeOddsSnapshot } from './replay';
+import type { Bet, HistoryEntry, PricingMode, RaceConfig } from './types';
+
+describe('replay', () => {
+  // Run a race the way the store does and record it
+  const recordRace = (pricing: PricingMode): HistoryEntry => {
+    const seed = `replay-test-${pricing}`;
+    const config: RaceConfig = {
+      numHorses: 8,
+      temperature: 20,
+      margin: 0.18,
+      seed,
+      difficulty: 'standard',
+      pricing,
+      model: 'plackett-luce',
+      conditions: generateRaceConditions(seed),
+    };
+    const horses = rebuildHorses(config, [5]);
+    const odds = priceRace(horses, config);
+    const bets: Bet[] = [
+      { type: 'win', horses: [1], stake: 300 },
+      { type: 'place', horses: [2], stake: 200 },
+      { type: 'quinella', horses: [1, 5], stake: 100 }, // Refunded
+      { type: 'trifecta', horses: [3, 1, 2], stake: 100 },
+    ];
+    const result = resolveRace(bets, simulateRaceOutcome(horses, config), odds);
+    const entry: HistoryEntry = {
+      raceNumber: 1,
+      seed,
+      conditions: config.conditions,
+      config,
+      odds: takeOddsSnapshot(odds, bets),
+      horses,
+      bets,
+      tickets: [],
+      result,
+      bankrollBefore: 10000,
+      bankrollAfter: 10000 + result.netProfit,
+      roi: 0,
+    };
+    // As saved to and loaded from localStorage
+    return JSON.parse(JSON.stringify(entry));
+  };
+
+  it('rebuilds a saved race exactly', () => {
+    for (const pricing of ['fixed', 'parimutuel'] as const) {
+      const entry = recordRace(pricing);
+      const replay = replayRace(entry)!;
+      expect(replay.checks).toEqual({ horses: true, odds: true, finishOrder: true, payouts: true });
+      expect(replay.horses.find((horse) => horse.id === 5)?.scratched).toBe(true);
+      expect(replay.result.finishOrder).toEqual(entry.result.finishOrder);
+      expect(replay.result.payouts[2].refunded).toBe(true);
+    }
+  });
+
+  it('flags a history that does not match its seed', () => {
+    const entry = recordRace('fixed');
+    const tampered: HistoryEntry = {
+      ...entry,
+      result: {
+        ...entry.result,
+        finishOrder: [...entry.result.finishOrder].reverse(),
+        totalPayout: entry.result.totalPayout + 100,
+      },
+      odds: { ...entry.odds!, win: entry.odds!.win.map((price) => price * 1.1) },
+    };
+    const checks = replayRace(tampered)!.checks;
+    expect(checks).toEqual({ horses: true, odds: false, finishOrder: false, payouts: false });
+  });
+
+  it('cannot replay history saved before replays', () => {
+    expect(replayRace({ ...recordRace('fixed'), config: undefined })).toBeNull();
+  });
+});
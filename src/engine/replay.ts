@@ -0,0 +1,96 @@
+/**
+ * Race replays
+ * A race is fixed by its seed and config: the field, the prices (bookmaker
+ * or crowd pools), the finish and so the payouts can all be rebuilt from a
+ * history entry and checked against what was recorded at the time
+ */
+
+import type { Bet, Horse, HistoryEntry, OddsSnapshot, OddsTable, RaceConfig, RaceReplay } from './types';
+import { generateHorses, getOutcomeSeed, simulateRaceOutcome } from './race';
+import { priceRace } from './pool';
+import { getOddsForBet, resolveRace } from './payout';
+
+/**
+ * Prices to keep with a history entry
+ */
+export function takeOddsSnapshot(odds: OddsTable, bets: Bet[]): OddsSnapshot {
+  return {
+    win: [...odds.win],
+    place: [...odds.place],
+    bets: bets.map((bet) => getOddsForBet(bet, odds)),
+  };
+}
+
+/**
+ * The field as it ran: generated from the config, with the scratches applied
+ */
+export function rebuildHorses(config: RaceConfig, scratched: number[]): Horse[] {
+  return generateHorses(config).map((horse) =>
+    scratched.includes(horse.id) ? { ...horse, scratched: true } : horse
+  );
+}
+
+/**
+ * Prices agree; non-finite prices (saved as null in JSON) agree with each other
+ */
+function samePrice(a: number | null, b: number | null): boolean {
+  const finiteA = typeof a === 'number' && Number.isFinite(a);
+  const finiteB = typeof b === 'number' && Number.isFinite(b);
+  if (!finiteA || !finiteB) return finiteA === finiteB;
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+}
+
+function samePrices(a: (number | null)[], b: (number | null)[]): boolean {
+  return a.length === b.length && a.every((price, idx) => samePrice(price, b[idx]));
+}
+
+function sameHorse(a: Horse, b: Horse): boolean {
+  return (
+    a.id === b.id &&
+    a.name === b.name &&
+    a.rating === b.rating &&
+    a.style === b.style &&
+    !!a.scratched === !!b.scratched &&
+    JSON.stringify(a.aptitudes) === JSON.stringify(b.aptitudes)
+  );
+}
+
+function sameList(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((value, idx) => value === b[idx]);
+}
+
+/**
+ * Rebuild a past race from its history entry; null for entries saved before replays
+ */
+export function replayRace(entry: HistoryEntry): RaceReplay | null {
+  if (!entry.config) return null;
+
+  // The field and prices come from the race seed, the finish from the seed and the revealed nonce
+  const horses = rebuildHorses(entry.config, entry.result.scratched);
+  const odds = priceRace(horses, entry.config);
+  const outcomeConfig = { ...entry.config, seed: getOutcomeSeed(entry.config.seed, entry.reveal?.nonce) };
+  const result = resolveRace(entry.bets, simulateRaceOutcome(horses, outcomeConfig), odds);
+  const recorded = entry.result;
+
+  return {
+    horses,
+    odds,
+    result,
+    checks: {
+      horses: horses.length === entry.horses.length && horses.every((horse, idx) => sameHorse(horse, entry.horses[idx])),
+      odds:
+        !!entry.odds &&
+        samePrices(odds.win, entry.odds.win) &&
+        samePrices(odds.place, entry.odds.place) &&
+        samePrices(takeOddsSnapshot(odds, entry.bets).bets, entry.odds.bets),
+      finishOrder:
+        sameList(result.finishOrder, recorded.finishOrder) && sameList(result.positions, recorded.positions),
+      payouts:
+        result.totalPayout === recorded.totalPayout &&
+        result.payouts.every(
+          (payout, idx) =>
+            payout.payout === recorded.payouts[idx]?.payout && payout.refunded === recorded.payouts[idx]?.refunded
+        ),
+    },
+  };
+}
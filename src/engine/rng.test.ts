@@ -59,6 +59,18 @@ describe('SeededRNG', () => {
       expect(value).toBeLessThanOrEqual(6);
     }
   });
+
+  it('generates standard normal numbers', () => {
+    const rng = new SeededRNG(7);
+    const values = Array.from({ length: 20000 }, () => rng.nextNormal());
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+
+    expect(values.every(Number.isFinite)).toBe(true);
+    expect(mean).toBeCloseTo(0, 1);
+    expect(variance).toBeCloseTo(1, 1);
+  });
 });
 
 describe('createRNG', () => {
@@ -53,6 +53,15 @@ export class SeededRNG {
     return min + this.next() * (max - min);
   }
 
+  /**
+   * Generate a standard normal number (Box-Muller)
+   */
+  nextNormal(): number {
+    const u1 = 1 - this.next(); // (0, 1], avoids log(0)
+    const u2 = this.next();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
   /**
    * Generate random integer in range [min, max] (inclusive)
    */
@@ -0,0 +1,99 @@
+/**
+ * Serialization of odds tables
+ * Maps are flattened to entries so tables survive postMessage and JSON
+ */
+
+import type {
+  BetType,
+  ComboBetType,
+  MultiWinnerBetType,
+  OddsBands,
+  OddsRange,
+  OddsTable,
+  ProbabilityTable,
+} from './types';
+import { COMBO_BET_TYPES } from './types';
+import { deserializePool, deserializePools, serializePool, serializePools } from './pool';
+import type { SerializedBetPool, SerializedPoolTable } from './pool';
+
+export type SerializedOddsTable = {
+  win: number[];
+  place: number[];
+  pools?: SerializedPoolTable;
+  multiWinner?: Record<MultiWinnerBetType, SerializedBetPool>;
+  placeRange?: OddsRange[];
+  wideRange?: [string, OddsRange][];
+  bands?: Record<BetType, [string, OddsRange][]>;
+  fair?: SerializedProbabilityTable;
+} & Record<ComboBetType, [string, number][]>;
+
+export type SerializedProbabilityTable = {
+  win: number[];
+  place: number[];
+} & Record<ComboBetType, [string, number][]>;
+
+function serializeProbabilityTable(probabilities: ProbabilityTable): SerializedProbabilityTable {
+  const combos = Object.fromEntries(
+    COMBO_BET_TYPES.map((type) => [type, Array.from(probabilities[type])])
+  ) as Record<ComboBetType, [string, number][]>;
+
+  return { win: probabilities.win, place: probabilities.place, ...combos };
+}
+
+function deserializeProbabilityTable(serialized: SerializedProbabilityTable): ProbabilityTable {
+  const combos = Object.fromEntries(
+    COMBO_BET_TYPES.map((type) => [type, new Map(serialized[type])])
+  ) as Record<ComboBetType, Map<string, number>>;
+
+  return { win: serialized.win, place: serialized.place, ...combos };
+}
+
+export function serializeOddsTable(odds: OddsTable): SerializedOddsTable {
+  const combos = Object.fromEntries(
+    COMBO_BET_TYPES.map((type) => [type, Array.from(odds[type])])
+  ) as Record<ComboBetType, [string, number][]>;
+
+  return {
+    win: odds.win,
+    place: odds.place,
+    ...combos,
+    pools: odds.pools ? serializePools(odds.pools) : undefined,
+    multiWinner: odds.multiWinner && {
+      place: serializePool(odds.multiWinner.place),
+      wide: serializePool(odds.multiWinner.wide),
+    },
+    placeRange: odds.placeRange,
+    wideRange: odds.wideRange && Array.from(odds.wideRange),
+    bands:
+      odds.bands &&
+      (Object.fromEntries(
+        Object.entries(odds.bands).map(([type, bands]) => [type, Array.from(bands)])
+      ) as Record<BetType, [string, OddsRange][]>),
+    fair: odds.fair && serializeProbabilityTable(odds.fair),
+  };
+}
+
+export function deserializeOddsTable(serialized: SerializedOddsTable): OddsTable {
+  const combos = Object.fromEntries(
+    COMBO_BET_TYPES.map((type) => [type, new Map(serialized[type])])
+  ) as Record<ComboBetType, Map<string, number>>;
+
+  return {
+    win: serialized.win,
+    place: serialized.place,
+    ...combos,
+    pools: serialized.pools ? deserializePools(serialized.pools) : undefined,
+    multiWinner: serialized.multiWinner && {
+      place: deserializePool(serialized.multiWinner.place),
+      wide: deserializePool(serialized.multiWinner.wide),
+    },
+    placeRange: serialized.placeRange,
+    wideRange: serialized.wideRange && new Map(serialized.wideRange),
+    bands:
+      serialized.bands &&
+      (Object.fromEntries(
+        Object.entries(serialized.bands).map(([type, bands]) => [type, new Map(bands)])
+      ) as OddsBands),
+    fair: serialized.fair && deserializeProbabilityTable(serialized.fair),
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExactProbabilities, priceProbabilityTable } from './odds';
+import { generateHorses } from './race';
+import {
+  calculateKellyFraction,
+  calculateReturnVariance,
+  planStakes,
+  roundStake,
+  solveKellyFractions,
+} from './staking';
+import type { StakingContext } from './staking';
+import type { Bet, OddsTable, RaceConfig, StakingOptions } from './types';
+import { MIN_BET } from './types';
+
+describe('staking', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'staking-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+  const fair = calculateExactProbabilities(horses, config);
+  const priced = priceProbabilityTable(fair, config.margin);
+  // Win prices at twice the fair odds: every win bet has a 100% edge
+  const generous: OddsTable = { ...priced, win: fair.win.map((p) => 2 / p), fair };
+  const context: StakingContext = {
+    bankroll: 10000,
+    maxBetPercentage: 0.5,
+    minBet: MIN_BET,
+    numHorses: 8,
+    scratched: [],
+  };
+  const kelly: StakingOptions = { method: 'kelly', kellyFraction: 0.5, fixedFraction: 0.02, flatStake: 300 };
+  const winBet = (horse: number): Bet => ({ type: 'win', horses: [horse], stake: MIN_BET });
+
+  it('sizes a single bet by edge / (odds − 1)', () => {
+    expect(calculateKellyFraction(0.5, 3)).toBeCloseTo(0.25);
+    expect(calculateKellyFraction(0.2, 4)).toBe(0);
+    expect(calculateReturnVariance(0.5, 3)).toBeCloseTo(2.25);
+    expect(roundStake(1299, MIN_BET)).toBe(1200);
+    expect(roundStake(99, MIN_BET)).toBe(0);
+  });
+
+  it('matches the single-bet formula when solving one bet', () => {
+    const [fraction] = solveKellyFractions(
+      [
+        { probability: 0.5, returns: [3] },
+        { probability: 0.5, returns: [0] },
+      ],
+      [null]
+    );
+    expect(fraction).toBeCloseTo(0.25, 6);
+  });
+
+  it('solves exclusive win bets like the closed form', () => {
+    // Kelly for win bets on several horses: f_i = p_i − R / odds_i,
+    // with reserve R = (1 − Σp) / (1 − Σ 1/odds) over the backed horses
+    const plan = planStakes([winBet(1), winBet(2)], [], generous, { ...context, maxBetPercentage: 1 }, kelly);
+    const reserve = (1 - fair.win[0] - fair.win[1]) / (1 - 1 / generous.win[0] - 1 / generous.win[1]);
+    plan.suggestions.forEach((s, i) => {
+      expect(s.kellyFraction!).toBeCloseTo(fair.win[i] - reserve / generous.win[i], 5);
+      expect(s.edge).toBeCloseTo(1);
+    });
+  });
+
+  it('backs nothing without an edge', () => {
+    const fairPriced: OddsTable = { ...priced, fair };
+    const plan = planStakes([winBet(1), winBet(3)], [], fairPriced, context, kelly);
+    expect(plan.totalStake).toBe(0);
+    plan.suggestions.forEach((s) => expect(s.edge!).toBeLessThan(0));
+  });
+
+  it('halves full Kelly for half Kelly', () => {
+    const full = planStakes([winBet(2)], [], generous, context, kelly);
+    const half = planStakes([winBet(2)], [], generous, context, { ...kelly, method: 'fractionalKelly' });
+    expect(half.suggestions[0].fraction).toBeCloseTo(full.suggestions[0].fraction / 2);
+  });
+
+  it('keeps within maxBetPercentage after the held bets, in whole units', () => {
+    const held: Bet[] = [{ type: 'win', horses: [5], stake: 4500, ticketId: 't1' }];
+    const plan = planStakes([winBet(1), winBet(2)], held, generous, context, kelly);
+    expect(plan.limit).toBe(500);
+    expect(plan.scale).toBeLessThan(1);
+    expect(plan.totalStake).toBeLessThanOrEqual(500);
+    plan.suggestions.forEach((s) => expect(s.bet.stake % MIN_BET).toBe(0));
+  });
+
+  it('stakes a fixed fraction or a flat amount per bet', () => {
+    const fixed = planStakes([winBet(1), winBet(2)], [], priced, context, { ...kelly, method: 'fixedFraction' });
+    expect(fixed.suggestions.map((s) => s.bet.stake)).toEqual([200, 200]);
+    expect(fixed.suggestions[0].edge).toBeNull();
+
+    const flat = planStakes([winBet(1)], [], priced, context, { ...kelly, method: 'flat' });
+    expect(flat.suggestions[0].bet.stake).toBe(300);
+  });
+
+  it('needs fair probabilities for Kelly', () => {
+    const plan = planStakes([winBet(1)], [], priced, context, kelly);
+    expect(plan.suggestions[0].kellyFraction).toBeNull();
+    expect(plan.totalStake).toBe(0);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Stake sizing
+ * Full and fractional Kelly, fixed-fraction and flat staking. Several bets
+ * on one race are sized together by a multi-outcome Kelly solver that
+ * maximises the expected log bankroll over the possible top-3 finishes.
+ * Suggestions are capped at maxBetPercentage and rounded down to MIN_BET units.
+ */
+
+import type {
+  Bet,
+  OddsTable,
+  ProbabilityTable,
+  StakeSuggestion,
+  StakingMethod,
+  StakingOptions,
+  StakingPlan,
+} from './types';
+import { getFairProbability } from './value';
+import { getOddsForBet, isBetRefunded, isBetWinner } from './payout';
+
+export const STAKING_METHOD_LABELS: Record<StakingMethod, string> = {
+  kelly: 'Full Kelly',
+  fractionalKelly: 'Fractional Kelly',
+  fixedFraction: 'Fixed fraction',
+  flat: 'Flat',
+};
+
+// Methods that need the fair probabilities (training mode)
+export const KELLY_METHODS: StakingMethod[] = ['kelly', 'fractionalKelly'];
+
+export interface StakingContext {
+  bankroll: number;
+  maxBetPercentage: number;
+  minBet: number;
+  numHorses: number; // Declared field, including scratched horses
+  scratched: number[];
+}
+
+const MAX_SWEEPS = 200;
+const TOLERANCE = 1e-7;
+
+/**
+ * Kelly share of bankroll for a single bet: edge / (odds − 1), 0 without an edge
+ */
+export function calculateKellyFraction(probability: number, odds: number): number {
+  if (!(odds > 1)) return 0;
+  return Math.max(0, (probability * odds - 1) / (odds - 1));
+}
+
+/**
+ * Variance of the return per unit stake: p (1 − p) odds²
+ */
+export function calculateReturnVariance(probability: number, odds: number): number {
+  return probability * (1 - probability) * odds * odds;
+}
+
+/**
+ * Round a stake down to whole betting units (below one unit is no bet)
+ */
+export function roundStake(stake: number, minBet: number): number {
+  return Math.max(0, Math.floor(stake / minBet + 1e-9) * minBet);
+}
+
+export interface OutcomeGroup {
+  probability: number;
+  returns: number[]; // Gross return per unit stake of each bet (0 or its odds)
+}
+
+/**
+ * Group the possible top-3 finishes (top-2 with two runners) by which bets they pay
+ */
+export function groupOutcomes(
+  bets: Bet[],
+  prices: number[],
+  fair: ProbabilityTable,
+  numHorses: number,
+  runners: number
+): OutcomeGroup[] {
+  const outcomes = runners >= 3 ? fair.trifecta : fair.exacta;
+  const groups = new Map<string, OutcomeGroup>();
+
+  outcomes.forEach((probability, key) => {
+    if (probability <= 0) return;
+    const order = key.split('-').map(Number);
+    const returns = bets.map((bet, i) =>
+      isBetWinner(bet, order, numHorses, runners) ? prices[i] : 0
+    );
+    const groupKey = returns.map((r) => (r > 0 ? 1 : 0)).join('');
+    const group = groups.get(groupKey);
+    if (group) {
+      group.probability += probability;
+    } else {
+      groups.set(groupKey, { probability, returns });
+    }
+  });
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Multi-outcome Kelly: the bankroll shares that maximise E[log wealth]
+ * Held bets keep their share; the others are solved by coordinate-wise
+ * Newton steps (the objective is concave, so this finds the optimum)
+ */
+export function solveKellyFractions(groups: OutcomeGroup[], held: (number | null)[]): number[] {
+  const fractions = held.map((share) => share ?? 0);
+  const wealth = groups.map((group) =>
+    fractions.reduce((w, f, i) => w + f * (group.returns[i] - 1), 1)
+  );
+
+  for (let sweep = 0; sweep < MAX_SWEEPS; sweep++) {
+    let largestStep = 0;
+
+    fractions.forEach((fraction, i) => {
+      if (held[i] !== null) return;
+
+      let gradient = 0;
+      let curvature = 0;
+      groups.forEach((group, g) => {
+        const gain = group.returns[i] - 1;
+        gradient += (group.probability * gain) / wealth[g];
+        curvature += (group.probability * gain * gain) / (wealth[g] * wealth[g]);
+      });
+      if (curvature <= 0) return;
+
+      // Newton step, kept at f ≥ 0 and halved until every outcome leaves some wealth
+      let step = Math.max(-fraction, gradient / curvature);
+      while (step !== 0 && groups.some((group, g) => wealth[g] + step * (group.returns[i] - 1) <= 1e-9)) {
+        step /= 2;
+        if (Math.abs(step) < TOLERANCE) step = 0;
+      }
+
+      fractions[i] = fraction + step;
+      groups.forEach((group, g) => {
+        wealth[g] += step * (group.returns[i] - 1);
+      });
+      largestStep = Math.max(largestStep, Math.abs(step));
+    });
+
+    if (largestStep < TOLERANCE) break;
+  }
+
+  return fractions;
+}
+
+/**
+ * Suggest stakes for bets placed together on one race
+ * heldBets are already on the slip and keep their stakes (e.g. ticket bets);
+ * the suggestions share what is left of maxBetPercentage with them
+ */
+export function planStakes(
+  bets: Bet[],
+  heldBets: Bet[],
+  odds: OddsTable,
+  context: StakingContext,
+  options: StakingOptions
+): StakingPlan {
+  const { bankroll, maxBetPercentage, minBet, numHorses, scratched } = context;
+  const live = (bet: Bet) => !isBetRefunded(bet, scratched, numHorses);
+  const heldStake = heldBets.reduce((sum, bet) => sum + bet.stake, 0);
+  const limit = Math.max(0, Math.floor(Math.min(bankroll * maxBetPercentage, bankroll) - heldStake));
+
+  // Full Kelly, solved jointly with the held bets (refunded bets do not move the bankroll)
+  const fair = odds.fair;
+  let kellyFractions: (number | null)[] = bets.map(() => null);
+  if (fair && bankroll > 0) {
+    const all = [...bets, ...heldBets.filter(live)];
+    const prices = all.map((bet) => getOddsForBet(bet, odds));
+    const held = all.map((bet, i) =>
+      i >= bets.length ? bet.stake / bankroll : live(bet) && prices[i] > 1 ? null : 0
+    );
+    const groups = groupOutcomes(all, prices, fair, numHorses, numHorses - scratched.length);
+    kellyFractions = solveKellyFractions(groups, held).slice(0, bets.length);
+  }
+
+  const suggestions = bets.map((bet, i): StakeSuggestion => {
+    const price = getOddsForBet(bet, odds);
+    const probability = fair && live(bet) ? getFairProbability(bet, fair) : null;
+    const kellyFraction = kellyFractions[i];
+    const fraction =
+      options.method === 'kelly'
+        ? (kellyFraction ?? 0)
+        : options.method === 'fractionalKelly'
+          ? (kellyFraction ?? 0) * options.kellyFraction
+          : options.method === 'fixedFraction'
+            ? options.fixedFraction
+            : bankroll > 0 ? options.flatStake / bankroll : 0;
+
+    return {
+      bet,
+      probability,
+      edge: probability === null ? null : probability * price - 1,
+      variance: probability === null ? null : calculateReturnVariance(probability, price),
+      kellyFraction,
+      fraction,
+    };
+  });
+
+  // Scale everything down to fit the per-race limit, then round to betting units
+  const wanted = suggestions.reduce((sum, s) => sum + s.fraction * bankroll, 0);
+  const scale = wanted > limit ? limit / wanted : 1;
+  suggestions.forEach((s) => {
+    s.bet = { ...s.bet, stake: roundStake(s.fraction * bankroll * scale, minBet) };
+  });
+
+  return {
+    method: options.method,
+    suggestions,
+    totalStake: suggestions.reduce((sum, s) => sum + s.bet.stake, 0),
+    limit,
+    scale,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExactProbabilities, priceProbabilityTable } from './odds';
+import { generateHorses } from './race';
+import { runBacktest } from './backtest';
+import {
+  countTrailingLosses,
+  createTrifectaBoxStrategy,
+  flatFavoriteStrategy,
+  kellyStrategy,
+  martingaleStrategy,
+  rankByOdds,
+  valueHunterStrategy,
+} from './strategies';
+import type { BacktestRaceLog, OddsTable, RaceConfig, StrategyContext } from './types';
+import { MIN_BET } from './types';
+
+describe('strategies', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'strategies-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+  const fair = calculateExactProbabilities(horses, config);
+  const odds: OddsTable = { ...priceProbabilityTable(fair, config.margin), fair };
+  const context: StrategyContext = {
+    horses,
+    odds,
+    difficulty: 'standard',
+    bankroll: 10000,
+    history: [],
+    minBet: MIN_BET,
+    maxBetPercentage: 0.5,
+  };
+  const favourite = rankByOdds(horses, odds.win)[0].id;
+
+  const race = (stake: number, hit: boolean): BacktestRaceLog => ({
+    index: 0,
+    seed: '',
+    bets: [],
+    rejected: 0,
+    finishOrder: [],
+    stake,
+    payout: hit ? stake * 2 : 0,
+    profit: hit ? stake : -stake,
+    hit,
+    bankroll: 10000,
+  });
+
+  it('backs the shortest-priced runner', () => {
+    expect(flatFavoriteStrategy.placeBets(context)).toEqual([{ type: 'win', horses: [favourite], stake: MIN_BET }]);
+
+    const scratched = horses.map((horse) => (horse.id === favourite ? { ...horse, scratched: true } : horse));
+    const [bet] = flatFavoriteStrategy.placeBets({ ...context, horses: scratched });
+    expect(bet.horses[0]).not.toBe(favourite);
+  });
+
+  it('hunts value only where the price beats the fair odds', () => {
+    expect(valueHunterStrategy.placeBets(context)).toHaveLength(0);
+
+    // Horse 8 at twice its fair odds
+    const generous: OddsTable = { ...odds, win: odds.win.map((price, idx) => (idx === 7 ? 2 / fair.win[7] : price)) };
+    expect(valueHunterStrategy.placeBets({ ...context, odds: generous })).toEqual([
+      { type: 'win', horses: [8], stake: MIN_BET },
+    ]);
+  });
+
+  it('doubles after losses and resets after a win or at the limit', () => {
+    expect(countTrailingLosses([race(100, true), race(100, false), race(0, false), race(200, false)])).toBe(2);
+
+    const stakeAfter = (history: BacktestRaceLog[], bankroll = 10000) =>
+      martingaleStrategy.placeBets({ ...context, history, bankroll })[0].stake;
+    expect(stakeAfter([])).toBe(MIN_BET);
+    expect(stakeAfter([race(100, false), race(200, false)])).toBe(400);
+    expect(stakeAfter([race(100, false), race(200, true)])).toBe(MIN_BET);
+    expect(stakeAfter([race(100, false), race(200, false)], 600)).toBe(MIN_BET); // 400 is over half of 600
+  });
+
+  it('sizes Kelly bets only on an edge, within the limit', () => {
+    expect(kellyStrategy.placeBets(context)).toHaveLength(0);
+
+    const generous: OddsTable = { ...odds, win: fair.win.map((p) => 1.3 / p) };
+    const bets = kellyStrategy.placeBets({ ...context, odds: generous });
+    expect(bets.length).toBeGreaterThan(0);
+    bets.forEach((bet) => expect(bet.stake % MIN_BET).toBe(0));
+    expect(bets.reduce((sum, bet) => sum + bet.stake, 0)).toBeLessThanOrEqual(5000);
+  });
+
+  it('boxes the favourites in the trifecta', () => {
+    const bets = createTrifectaBoxStrategy(4).placeBets(context);
+    expect(bets).toHaveLength(24);
+    const top = rankByOdds(horses, odds.win)
+      .slice(0, 4)
+      .map((horse) => horse.id);
+    bets.forEach((bet) => bet.horses.forEach((id) => expect(top).toContain(id)));
+  });
+
+  it('runs in the backtester with its own history', () => {
+    const report = runBacktest({
+      strategy: martingaleStrategy.placeBets,
+      startingBankroll: 10000,
+      seedPrefix: 'strategies-backtest',
+      fromSeed: 1,
+      toSeed: 20,
+      baseConfig: config,
+      maxBetPercentage: 0.5,
+      minBet: MIN_BET,
+    });
+    report.log.forEach((entry, idx) => {
+      const previous = report.log.slice(0, idx);
+      const expected = MIN_BET * 2 ** countTrailingLosses(previous);
+      if (expected <= report.bankrollPath[idx] * 0.5) expect(entry.stake).toBe(expected);
+    });
+  });
+});
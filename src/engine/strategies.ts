@@ -0,0 +1,144 @@
+/**
+ * Auto-betting strategies
+ * A strategy looks at the field, the prices, its bankroll and its own
+ * earlier races and returns the bets to place. The same strategies drive
+ * the learning panel and the headless backtester (engine/backtest.ts).
+ */
+
+import type { Bet, BettingStrategy, Horse, StrategyContext } from './types';
+import { getBetValue } from './value';
+import { planStakes } from './staking';
+import { expandSelections } from './ticket';
+import { globalPredictor } from './trifecta-predictor';
+
+const VALUE_THRESHOLD = 0.05; // Smallest EV the value hunter backs
+const VALUE_MAX_BETS = 3;
+const KELLY_FRACTION = 0.5;
+export const DEFAULT_BOX_SIZE = 4;
+
+/**
+ * Runners (scratched horses left out), shortest-priced first
+ */
+export function rankByOdds(horses: Horse[], win: number[]): Horse[] {
+  return horses
+    .filter((horse) => !horse.scratched)
+    .sort((a, b) => win[a.id - 1] - win[b.id - 1] || a.id - b.id);
+}
+
+/**
+ * Consecutive losing races at the end of a history (races without bets skipped)
+ */
+export function countTrailingLosses(history: StrategyContext['history']): number {
+  let losses = 0;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].stake === 0) continue;
+    if (history[i].hit) break;
+    losses++;
+  }
+  return losses;
+}
+
+export const flatFavoriteStrategy: BettingStrategy = {
+  id: 'flatFavorite',
+  name: 'Flat favourite',
+  description: 'One minimum bet to win on the favourite',
+  placeBets: ({ horses, odds, minBet }) => {
+    const favourite = rankByOdds(horses, odds.win)[0];
+    return favourite ? [{ type: 'win', horses: [favourite.id], stake: minBet }] : [];
+  },
+};
+
+export const valueHunterStrategy: BettingStrategy = {
+  id: 'valueHunter',
+  name: 'Value hunter',
+  description: `Minimum bets to win on up to ${VALUE_MAX_BETS} horses priced ${VALUE_THRESHOLD * 100}% or more above their fair odds`,
+  placeBets: ({ horses, odds, minBet }) =>
+    rankByOdds(horses, odds.win)
+      .map((horse): Bet => ({ type: 'win', horses: [horse.id], stake: minBet }))
+      .map((bet) => ({ bet, ev: getBetValue(bet, odds)?.ev ?? -1 }))
+      .filter(({ ev }) => ev >= VALUE_THRESHOLD)
+      .sort((a, b) => b.ev - a.ev)
+      .slice(0, VALUE_MAX_BETS)
+      .map(({ bet }) => bet),
+};
+
+export const martingaleStrategy: BettingStrategy = {
+  id: 'martingale',
+  name: 'Martingale',
+  description: 'Win bet on the favourite, doubling the stake after each loss and resetting after a win or when the limit is reached',
+  placeBets: ({ horses, odds, bankroll, history, minBet, maxBetPercentage }) => {
+    const favourite = rankByOdds(horses, odds.win)[0];
+    if (!favourite) return [];
+    const doubled = minBet * 2 ** countTrailingLosses(history);
+    const stake = doubled <= Math.min(bankroll, bankroll * maxBetPercentage) ? doubled : minBet;
+    return [{ type: 'win', horses: [favourite.id], stake }];
+  },
+};
+
+export const kellyStrategy: BettingStrategy = {
+  id: 'kelly',
+  name: 'Half Kelly',
+  description: 'Win bets on every horse with an edge, sized together at half Kelly (needs fair prices)',
+  placeBets: ({ horses, odds, bankroll, minBet, maxBetPercentage }) => {
+    const runners = horses.filter((horse) => !horse.scratched);
+    const bets: Bet[] = runners.map((horse) => ({ type: 'win', horses: [horse.id], stake: minBet }));
+    const plan = planStakes(
+      bets,
+      [],
+      odds,
+      {
+        bankroll,
+        maxBetPercentage,
+        minBet,
+        numHorses: horses.length,
+        scratched: horses.filter((horse) => horse.scratched).map((horse) => horse.id),
+      },
+      { method: 'fractionalKelly', kellyFraction: KELLY_FRACTION, fixedFraction: 0, flatStake: minBet }
+    );
+    return plan.suggestions.map((suggestion) => suggestion.bet).filter((bet) => bet.stake > 0);
+  },
+};
+
+/**
+ * Trifecta box of the n shortest-priced runners, a minimum bet on each order
+ */
+export function createTrifectaBoxStrategy(n: number): BettingStrategy {
+  return {
+    id: 'trifectaBox',
+    name: `Trifecta box (top ${n})`,
+    description: `Every order of the ${n} favourites in the trifecta`,
+    placeBets: ({ horses, odds, minBet }) => {
+      const top = rankByOdds(horses, odds.win).slice(0, n);
+      if (top.length < 3) return [];
+      return expandSelections('trifecta', 'box', [top.map((horse) => horse.id)]).map((selection) => ({
+        type: 'trifecta',
+        horses: selection,
+        stake: minBet,
+      }));
+    },
+  };
+}
+
+export const predictorStrategy: BettingStrategy = {
+  id: 'predictor',
+  name: 'Predictor top pick',
+  description: "One minimum bet on the trifecta predictor's first prediction",
+  placeBets: ({ horses, odds, difficulty, minBet }) => {
+    const [best] = globalPredictor.predict(horses, odds, difficulty);
+    return best ? [{ type: 'trifecta', horses: [...best.horses], stake: minBet }] : [];
+  },
+};
+
+/**
+ * Strategies that ship with the game
+ */
+export function getBuiltInStrategies(boxSize = DEFAULT_BOX_SIZE): BettingStrategy[] {
+  return [
+    predictorStrategy,
+    flatFavoriteStrategy,
+    valueHunterStrategy,
+    martingaleStrategy,
+    kellyStrategy,
+    createTrifectaBoxStrategy(boxSize),
+  ];
+}
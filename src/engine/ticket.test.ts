@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createTicket, expandSelections, expandTicket, summarizeTickets } from './ticket';
+import { resolveRace } from './payout';
+import type { OddsTable } from './types';
+
+describe('ticket', () => {
+  describe('expandSelections', () => {
+    it('expands a trifecta box into every ordering', () => {
+      const selections = expandSelections('trifecta', 'box', [[1, 2, 3, 4]]);
+
+      expect(selections).toHaveLength(24); // 4P3
+      expect(selections).toContainEqual([4, 2, 1]);
+    });
+
+    it('expands an unordered box into combinations', () => {
+      expect(expandSelections('trio', 'box', [[1, 2, 3, 4, 5]])).toHaveLength(10); // 5C3
+      expect(expandSelections('quinella', 'box', [[1, 2, 3]])).toHaveLength(3);
+    });
+
+    it('keeps the key horse first in an exacta wheel', () => {
+      const selections = expandSelections('exacta', 'wheel', [[3], [1, 3, 5, 7]]);
+
+      expect(selections).toEqual([
+        [3, 1],
+        [3, 5],
+        [3, 7],
+      ]);
+    });
+
+    it('wheels two keys in a trio', () => {
+      const selections = expandSelections('trio', 'wheel', [[1, 2], [3, 4, 5]]);
+
+      expect(selections).toEqual([
+        [1, 2, 3],
+        [1, 2, 4],
+        [1, 2, 5],
+      ]);
+    });
+
+    it('expands a formation without repeated horses', () => {
+      const selections = expandSelections('trifecta', 'formation', [[1, 2], [1, 2, 3], [3, 4]]);
+
+      // 1-2-3, 1-2-4, 1-3-4, 2-1-3, 2-1-4, 2-3-4
+      expect(selections).toHaveLength(6);
+      selections.forEach((s) => expect(new Set(s).size).toBe(3));
+    });
+
+    it('dedupes unordered formation selections', () => {
+      // 1-2 and 2-1 are the same quinella
+      expect(expandSelections('quinella', 'formation', [[1, 2], [1, 2]])).toEqual([[1, 2]]);
+    });
+
+    it('allows same-bracket bracket quinella', () => {
+      expect(expandSelections('bracketQuinella', 'box', [[1, 1, 2]])).toEqual([
+        [1, 1],
+        [1, 2],
+      ]);
+    });
+  });
+
+  describe('tickets', () => {
+    it('expands into bets tagged with the ticket id', () => {
+      const ticket = createTicket('trio', 'box', [[1, 2, 3, 4]], 200);
+      const bets = expandTicket(ticket);
+
+      expect(ticket.count).toBe(4);
+      expect(bets).toHaveLength(4);
+      bets.forEach((bet) => {
+        expect(bet.ticketId).toBe(ticket.id);
+        expect(bet.stake).toBe(200);
+      });
+    });
+
+    it('summarizes which leg of a ticket hit', () => {
+      const odds: OddsTable = {
+        win: [2, 3, 4, 5],
+        place: [1.2, 1.5, 1.8, 2],
+        quinella: new Map(),
+        exacta: new Map([
+          ['2-1', 12],
+          ['2-3', 18],
+          ['2-4', 25],
+        ]),
+        wide: new Map(),
+        trio: new Map(),
+        trifecta: new Map(),
+        bracketQuinella: new Map(),
+      };
+      const ticket = createTicket('exacta', 'wheel', [[2], [1, 3, 4]], 100);
+
+      const result = resolveRace(expandTicket(ticket), [2, 3, 1, 4], odds);
+      const [summary] = summarizeTickets([ticket], result.payouts);
+
+      expect(summary.totalStake).toBe(300);
+      expect(summary.totalPayout).toBe(1800);
+      expect(summary.hits.map((hit) => hit.bet.horses)).toEqual([[2, 3]]);
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Bet tickets: box, wheel and formation expansion
+ * A ticket expands into individual bets that share one stake per bet
+ */
+
+import type { Bet, BetTicket, BetType, Payout, TicketMethod } from './types';
+import { BET_SELECTION_COUNTS } from './types';
+import { getSelectionKey } from './odds';
+
+/**
+ * Bet types where the order of the selection matters
+ */
+const ORDERED_BET_TYPES: BetType[] = ['exacta', 'trifecta'];
+
+/**
+ * Number of legs a ticket method uses for a bet type
+ */
+export function getTicketLegCount(type: BetType, method: TicketMethod): number {
+  switch (method) {
+    case 'single':
+    case 'box':
+      return 1;
+
+    case 'wheel':
+      return 2;
+
+    case 'formation':
+      return BET_SELECTION_COUNTS[type];
+  }
+}
+
+/**
+ * All ordered selections of `size` items
+ */
+function permutations(items: number[], size: number): number[][] {
+  if (size === 0) return [[]];
+  const result: number[][] = [];
+  items.forEach((item, idx) => {
+    const rest = [...items.slice(0, idx), ...items.slice(idx + 1)];
+    for (const tail of permutations(rest, size - 1)) {
+      result.push([item, ...tail]);
+    }
+  });
+  return result;
+}
+
+/**
+ * All unordered selections of `size` items
+ */
+function combinations(items: number[], size: number): number[][] {
+  if (size === 0) return [[]];
+  const result: number[][] = [];
+  items.forEach((item, idx) => {
+    for (const tail of combinations(items.slice(idx + 1), size - 1)) {
+      result.push([item, ...tail]);
+    }
+  });
+  return result;
+}
+
+/**
+ * Expand a ticket's legs into individual selections
+ * Box: every selection from one set of horses
+ * Wheel: key horse(s) in every selection (first positions for exacta/trifecta),
+ * partners fill the rest
+ * Formation: one horse set per position
+ * Duplicate selections (same key) are removed
+ */
+export function expandSelections(type: BetType, method: TicketMethod, legs: number[][]): number[][] {
+  const size = BET_SELECTION_COUNTS[type];
+  const ordered = ORDERED_BET_TYPES.includes(type);
+  // Brackets can repeat (枠連 8-8); horses cannot
+  const allowsRepeats = type === 'bracketQuinella';
+  let selections: number[][] = [];
+
+  switch (method) {
+    case 'single':
+      selections = legs[0]?.length === size ? [legs[0]] : [];
+      break;
+
+    case 'box':
+      selections = ordered ? permutations(legs[0] || [], size) : combinations(legs[0] || [], size);
+      break;
+
+    case 'wheel': {
+      const [keys = [], partners = []] = legs;
+      if (keys.length === 0 || keys.length >= size) break;
+      const rest = allowsRepeats ? partners : partners.filter((id) => !keys.includes(id));
+      const fills = ordered
+        ? permutations(rest, size - keys.length)
+        : combinations(rest, size - keys.length);
+      selections = fills.map((fill) => [...keys, ...fill]);
+      break;
+    }
+
+    case 'formation':
+      selections = legs
+        .slice(0, size)
+        .reduce<number[][]>(
+          (partial, leg) => partial.flatMap((prefix) => leg.map((id) => [...prefix, id])),
+          [[]]
+        )
+        .filter((selection) => selection.length === size);
+      break;
+  }
+
+  const unique = new Map<string, number[]>();
+  for (const selection of selections) {
+    if (!allowsRepeats && new Set(selection).size !== selection.length) continue;
+    const key = getSelectionKey(type, selection);
+    if (!unique.has(key)) unique.set(key, selection);
+  }
+
+  return Array.from(unique.values());
+}
+
+/**
+ * Create a ticket from legs (count is the number of expanded bets)
+ */
+export function createTicket(
+  type: BetType,
+  method: TicketMethod,
+  legs: number[][],
+  stakePerBet: number
+): BetTicket {
+  return {
+    id: `ticket-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    type,
+    method,
+    legs: legs.map((leg) => [...leg]),
+    stakePerBet,
+    count: expandSelections(type, method, legs).length,
+  };
+}
+
+/**
+ * Expand a ticket into individual bets tagged with the ticket ID
+ */
+export function expandTicket(ticket: BetTicket): Bet[] {
+  return expandSelections(ticket.type, ticket.method, ticket.legs).map((horses) => ({
+    type: ticket.type,
+    horses,
+    stake: ticket.stakePerBet,
+    ticketId: ticket.id,
+  }));
+}
+
+/**
+ * Human-readable legs, e.g. "1,2 → 3,5,7"
+ */
+export function describeTicketLegs(ticket: BetTicket): string {
+  return ticket.legs.map((leg) => leg.join(',')).join(' → ');
+}
+
+export interface TicketSummary {
+  ticket: BetTicket;
+  totalStake: number;
+  totalPayout: number;
+  hits: Payout[]; // Winning legs of the ticket
+}
+
+/**
+ * Group race payouts by ticket so the breakdown shows which leg hit
+ */
+export function summarizeTickets(tickets: BetTicket[], payouts: Payout[]): TicketSummary[] {
+  return tickets.map((ticket) => {
+    const ticketPayouts = payouts.filter((p) => p.bet.ticketId === ticket.id);
+    return {
+      ticket,
+      totalStake: ticketPayouts.reduce((sum, p) => sum + p.bet.stake, 0),
+      totalPayout: ticketPayouts.reduce((sum, p) => sum + p.payout, 0),
+      hits: ticketPayouts.filter((p) => p.won),
+    };
+  });
+}
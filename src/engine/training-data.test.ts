@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExactProbabilities, priceProbabilityTable } from './odds';
+import { generateHorses } from './race';
+import { serializeOddsTable } from './serialize';
+import {
+  TRAINING_DATA_FORMAT,
+  TRAINING_DATA_VERSION,
+  exportTrainingData,
+  mergeTrainingData,
+  parseTrainingData,
+} from './training-data';
+import type { RaceDataPoint } from './trifecta-predictor';
+import type { RaceConfig } from './types';
+
+describe('training data', () => {
+  const config: RaceConfig = {
+    numHorses: 6,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'training-data-test',
+    difficulty: 'easy',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+  const fair = calculateExactProbabilities(horses, config);
+  const odds = { ...priceProbabilityTable(fair, config.margin), fair };
+
+  const point = (seed: string, actualResult: number[]): RaceDataPoint => ({
+    raceNumber: 1,
+    seed,
+    horses,
+    odds: { win: odds.win },
+    difficulty: 'easy',
+    actualResult,
+    trifecta: [actualResult[0], actualResult[1], actualResult[2]],
+    trifectaOdds: odds.trifecta.get(actualResult.slice(0, 3).join('-'))!,
+  });
+
+  it('round-trips races through JSON, keeping only the win odds', () => {
+    const races = [point('a', [1, 2, 3, 4, 5, 6]), point('b', [6, 5, 4, 3, 2, 1])];
+    const parsed = parseTrainingData(exportTrainingData(races));
+    expect(parsed).toEqual(races);
+
+    // A race recorded with the full table is trimmed when saved
+    const full = { ...point('c', [1, 2, 3, 4, 5, 6]), odds };
+    expect(parseTrainingData(exportTrainingData([full]))[0].odds).toEqual({ win: odds.win });
+  });
+
+  it('trims the full odds tables of version 1 files', () => {
+    const legacy = JSON.stringify({
+      format: TRAINING_DATA_FORMAT,
+      version: 1,
+      exportedAt: '2026-10-18T00:00:00.000Z',
+      races: [{ ...point('a', [1, 2, 3, 4, 5, 6]), odds: serializeOddsTable(odds) }],
+    });
+    expect(parseTrainingData(legacy)).toEqual([point('a', [1, 2, 3, 4, 5, 6])]);
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseTrainingData('not json')).toThrow('Not a JSON file');
+    expect(() => parseTrainingData('[]')).toThrow('Not a training data file');
+    const future = JSON.stringify({ format: TRAINING_DATA_FORMAT, version: TRAINING_DATA_VERSION + 1, races: [] });
+    expect(() => parseTrainingData(future)).toThrow(/newer/);
+  });
+
+  it('merges datasets, keeping each race once', () => {
+    const mine = [point('a', [1, 2, 3, 4, 5, 6]), point('b', [2, 1, 3, 4, 5, 6])];
+    const theirs = [point('b', [2, 1, 3, 4, 5, 6]), point('c', [3, 1, 2, 4, 5, 6])];
+    const merged = mergeTrainingData(mine, parseTrainingData(exportTrainingData(theirs)));
+    expect(merged.map((race) => race.seed)).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Trifecta predictor training data files
+ * Versioned JSON, so datasets can be saved, shared and merged. Each race keeps
+ * only its win odds, all the rating model reads; version 1 stored the whole
+ * odds table (hundreds of KB per race) and is trimmed when read
+ */
+
+import type { RaceDataPoint } from './trifecta-predictor';
+import type { SerializedOddsTable } from './serialize';
+
+export const TRAINING_DATA_FORMAT = 'keiba-dash-training-data';
+export const TRAINING_DATA_VERSION = 2;
+
+export type SerializedRaceDataPoint = RaceDataPoint;
+
+// A race as version 1 saved it, with its odds table serialized in full
+export type LegacyRaceDataPoint = Omit<RaceDataPoint, 'odds'> & { odds: SerializedOddsTable };
+
+export interface TrainingDataFile {
+  format: typeof TRAINING_DATA_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  races: SerializedRaceDataPoint[];
+}
+
+export function serializeRaceDataPoint(point: RaceDataPoint): SerializedRaceDataPoint {
+  return { ...point, odds: { win: point.odds.win } };
+}
+
+/**
+ * Read a saved race of any version, keeping only the win odds
+ */
+export function deserializeRaceDataPoint(saved: SerializedRaceDataPoint | LegacyRaceDataPoint): RaceDataPoint {
+  return { ...saved, odds: { win: saved.odds.win } };
+}
+
+/**
+ * Training data as a versioned JSON file
+ */
+export function exportTrainingData(points: RaceDataPoint[], exportedAt = new Date()): string {
+  const file: TrainingDataFile = {
+    format: TRAINING_DATA_FORMAT,
+    version: TRAINING_DATA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    races: points.map(serializeRaceDataPoint),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Read a training data file; throws if it is not one this version can read
+ */
+export function parseTrainingData(json: string): RaceDataPoint[] {
+  let file: Partial<TrainingDataFile>;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+
+  if (file?.format !== TRAINING_DATA_FORMAT || !Array.isArray(file.races)) {
+    throw new Error('Not a training data file');
+  }
+  if (typeof file.version !== 'number' || file.version > TRAINING_DATA_VERSION) {
+    throw new Error(`Training data version ${file.version} is newer than this game supports (${TRAINING_DATA_VERSION})`);
+  }
+
+  return file.races.map(deserializeRaceDataPoint);
+}
+
+/**
+ * Identity of a recorded race: the same race recorded twice (e.g. by two
+ * teammates importing each other's data) has the same key
+ */
+export function getRaceDataKey(point: RaceDataPoint): string {
+  return [point.seed ?? '', point.actualResult.join('-'), point.odds.win.join(',')].join('|');
+}
+
+/**
+ * Combine datasets into one training set, in order, each race once
+ */
+export function mergeTrainingData(...datasets: RaceDataPoint[][]): RaceDataPoint[] {
+  const merged = new Map<string, RaceDataPoint>();
+  for (const point of datasets.flat()) {
+    const key = getRaceDataKey(point);
+    if (!merged.has(key)) merged.set(key, point);
+  }
+  return Array.from(merged.values());
+}
@@ -1,36 +1,54 @@
 /**
  * Trifecta Prediction System
- * Learns from race results to predict trifecta outcomes based on odds
+ * Learns from race results to predict trifecta outcomes: a Plackett-Luce
+ * rating model over market features is refitted by maximum likelihood
+ * on the recorded races (see engine/rating-model.ts)
  */
 
-import type { Horse, OddsTable } from './types';
+import type { Difficulty, Horse, OddsTable, RatingModel } from './types';
+import { MARKET_WEIGHTS, fitRatingModel, predictTrifectas } from './rating-model';
 
 export interface TrifectaPrediction {
   horses: [number, number, number]; // IDs in order: 1st, 2nd, 3rd
-  confidence: number; // 0-100
+  confidence: number; // Model probability of this exact order, in % (0-100)
+  probability: number; // The same, unrounded (0-1)
+  strategy: string; // How it was made; predictions are scored per strategy (see engine/evaluation.ts)
   expectedOdds: number;
   reasoning: string;
 }
 
+// The part of a race's odds table kept for training: the rating model only reads the win odds
+export type TrainingOdds = Pick<OddsTable, 'win'>;
+
 export interface RaceDataPoint {
   raceNumber: number;
+  seed?: string; // Missing in data recorded before the predictor was saved
   horses: Horse[];
-  odds: OddsTable;
+  odds: TrainingOdds;
+  difficulty?: Difficulty; // Missing in data recorded before the rating model
   actualResult: number[]; // Finish order
   trifecta: [number, number, number];
   trifectaOdds: number;
 }
 
-export interface PatternAnalysis {
-  favoritesWinRate: number;
-  averageWinnerOdds: number;
-  oddsRankCorrelation: number[];
-  upsetFrequency: number;
+// Races recorded before the fitted weights replace the market-only ones
+export const MIN_TRAINING_RACES = 10;
+
+// Most recent races kept for training
+export const MAX_TRAINING_RACES = 1000;
+
+const PREDICTION_COUNT = 3;
+
+export const FITTED_STRATEGY = 'Fitted model';
+export const MARKET_STRATEGY = 'Market-implied';
+
+function formatPercent(probability: number): string {
+  return `${(probability * 100).toFixed(1)}%`;
 }
 
 export class TrifectaPredictor {
   private raceHistory: RaceDataPoint[] = [];
-  private readonly MAX_HISTORY = 1000; // Keep last 1000 races
+  private model: RatingModel | null = null; // Fitted on demand, dropped when the history changes
 
   /**
    * Record a race result for learning
@@ -39,234 +57,65 @@ export class TrifectaPredictor {
     this.raceHistory.push(dataPoint);
 
     // Keep only recent history
-    if (this.raceHistory.length > this.MAX_HISTORY) {
+    if (this.raceHistory.length > MAX_TRAINING_RACES) {
       this.raceHistory.shift();
     }
+    this.model = null;
 
     console.log(`[Predictor] Recorded race #${dataPoint.raceNumber}. Total data points: ${this.raceHistory.length}`);
   }
 
   /**
-   * Predict trifecta based on current odds and historical data
-   */
-  predict(horses: Horse[], odds: OddsTable): TrifectaPrediction[] {
-    if (this.raceHistory.length < 10) {
-      // Not enough data, use simple odds-based prediction
-      return this.predictByOdds(horses, odds);
-    }
-
-    // Analyze patterns from history
-    const patterns = this.analyzePatterns();
-
-    // Generate predictions using learned patterns
-    return this.predictWithPatterns(horses, odds, patterns);
-  }
-
-  /**
-   * Simple prediction based on win odds (fallback for early races)
-   */
-  private predictByOdds(horses: Horse[], odds: OddsTable): TrifectaPrediction[] {
-    // Sort horses by win odds (lower odds = favorite)
-    const sortedByOdds = horses
-      .map((horse, idx) => ({ horse, odds: odds.win[idx] }))
-      .sort((a, b) => a.odds - b.odds);
-
-    const predictions: TrifectaPrediction[] = [];
-
-    // Strategy 1: Top 3 favorites in order
-    if (sortedByOdds.length >= 3) {
-      const top3 = sortedByOdds.slice(0, 3);
-      const trifectaKey = `${top3[0].horse.id}-${top3[1].horse.id}-${top3[2].horse.id}`;
-      predictions.push({
-        horses: [top3[0].horse.id, top3[1].horse.id, top3[2].horse.id],
-        confidence: 30,
-        expectedOdds: odds.trifecta.get(trifectaKey) || 10,
-        reasoning: 'Top 3 favorites by odds',
-      });
-    }
-
-    // Strategy 2: Favorite + 2nd + dark horse (4th or 5th)
-    if (sortedByOdds.length >= 5) {
-      const darkHorse = sortedByOdds[4];
-      const trifectaKey = `${sortedByOdds[0].horse.id}-${sortedByOdds[1].horse.id}-${darkHorse.horse.id}`;
-      predictions.push({
-        horses: [sortedByOdds[0].horse.id, sortedByOdds[1].horse.id, darkHorse.horse.id],
-        confidence: 25,
-        expectedOdds: odds.trifecta.get(trifectaKey) || 20,
-        reasoning: 'Favorites with dark horse finish',
-      });
-    }
-
-    // Strategy 3: Mixed favorites (1st, 3rd, 2nd order)
-    if (sortedByOdds.length >= 3) {
-      const trifectaKey = `${sortedByOdds[0].horse.id}-${sortedByOdds[2].horse.id}-${sortedByOdds[1].horse.id}`;
-      predictions.push({
-        horses: [sortedByOdds[0].horse.id, sortedByOdds[2].horse.id, sortedByOdds[1].horse.id],
-        confidence: 20,
-        expectedOdds: odds.trifecta.get(trifectaKey) || 15,
-        reasoning: 'Upset scenario with 3rd favorite placing 2nd',
-      });
-    }
-
-    return predictions.slice(0, 3);
-  }
-
-  /**
-   * Analyze historical patterns
+   * Rating model fitted on the recorded races
    */
-  private analyzePatterns(): PatternAnalysis {
-    const patterns: PatternAnalysis = {
-      favoritesWinRate: 0,
-      averageWinnerOdds: 0,
-      oddsRankCorrelation: [],
-      upsetFrequency: 0,
-    };
-
-    if (this.raceHistory.length === 0) return patterns;
-
-    let favoritesWon = 0;
-    let totalWinnerOdds = 0;
-    let upsets = 0;
-
-    for (const race of this.raceHistory) {
-      const winner = race.actualResult[0];
-      const winnerIdx = race.horses.findIndex(h => h.id === winner);
-
-      if (winnerIdx !== -1) {
-        const winnerOdds = race.odds.win[winnerIdx];
-        totalWinnerOdds += winnerOdds;
-
-        // Check if favorite won (odds < 3.0)
-        if (winnerOdds < 3.0) {
-          favoritesWon++;
-        }
-
-        // Check for upset (odds > 8.0)
-        if (winnerOdds > 8.0) {
-          upsets++;
-        }
-
-        // Rank correlation: find odds rank of actual finishers
-        const oddsRanks = this.getOddsRanks(race.horses, race.odds);
-        for (let i = 0; i < Math.min(3, race.actualResult.length); i++) {
-          const horseId = race.actualResult[i];
-          const rank = oddsRanks.get(horseId) || 0;
-          if (!patterns.oddsRankCorrelation[i]) {
-            patterns.oddsRankCorrelation[i] = 0;
-          }
-          patterns.oddsRankCorrelation[i] += rank;
-        }
-      }
+  getModel(): RatingModel {
+    if (!this.model) {
+      this.model = fitRatingModel(this.raceHistory);
     }
-
-    const raceCount = this.raceHistory.length;
-    patterns.favoritesWinRate = favoritesWon / raceCount;
-    patterns.averageWinnerOdds = totalWinnerOdds / raceCount;
-    patterns.upsetFrequency = upsets / raceCount;
-    patterns.oddsRankCorrelation = patterns.oddsRankCorrelation.map(sum => sum / raceCount);
-
-    console.log('[Predictor] Pattern analysis:', patterns);
-
-    return patterns;
+    return this.model;
   }
 
   /**
-   * Get odds ranking for each horse (1 = lowest odds/favorite)
+   * Probability of every trifecta: fitted weights once there is enough
+   * history, the market's implied probabilities before that
    */
-  private getOddsRanks(horses: Horse[], odds: OddsTable): Map<number, number> {
-    const sorted = horses
-      .map((horse, idx) => ({ id: horse.id, odds: odds.win[idx] }))
-      .sort((a, b) => a.odds - b.odds);
-
-    const ranks = new Map<number, number>();
-    sorted.forEach((item, idx) => {
-      ranks.set(item.id, idx + 1);
-    });
-
-    return ranks;
+  getTrifectaProbabilities(horses: Horse[], odds: TrainingOdds, difficulty: Difficulty = 'standard'): Map<string, number> {
+    const weights = this.raceHistory.length >= MIN_TRAINING_RACES ? this.getModel().weights : MARKET_WEIGHTS;
+    return predictTrifectas(weights, horses, odds, difficulty);
   }
 
   /**
-   * Predict with learned patterns
+   * Most likely trifectas under the model, most likely first
    */
-  private predictWithPatterns(horses: Horse[], odds: OddsTable, patterns: PatternAnalysis): TrifectaPrediction[] {
-    const predictions: TrifectaPrediction[] = [];
-
-    // Sort by odds
-    const sortedByOdds = horses
-      .map((horse, idx) => ({ horse, odds: odds.win[idx], idx }))
-      .sort((a, b) => a.odds - b.odds);
-
-    // Strategy 1: Pattern-based favorite prediction
-    if (patterns.favoritesWinRate > 0.4) {
-      // Favorites tend to win often
-      const top3 = sortedByOdds.slice(0, 3);
-      const trifectaKey = `${top3[0].horse.id}-${top3[1].horse.id}-${top3[2].horse.id}`;
-      predictions.push({
-        horses: [top3[0].horse.id, top3[1].horse.id, top3[2].horse.id],
-        confidence: Math.min(80, Math.round(patterns.favoritesWinRate * 100)),
-        expectedOdds: odds.trifecta.get(trifectaKey) || 10,
-        reasoning: `Favorites win ${Math.round(patterns.favoritesWinRate * 100)}% of the time`,
-      });
-    }
-
-    // Strategy 2: Upset scenario prediction
-    if (patterns.upsetFrequency > 0.2 && sortedByOdds.length >= 8) {
-      const longshot = sortedByOdds[Math.floor(Math.random() * 4) + 4]; // 5th-8th favorite
-      const trifectaKey = `${longshot.horse.id}-${sortedByOdds[0].horse.id}-${sortedByOdds[1].horse.id}`;
-      predictions.push({
-        horses: [longshot.horse.id, sortedByOdds[0].horse.id, sortedByOdds[1].horse.id],
-        confidence: Math.round(patterns.upsetFrequency * 100),
-        expectedOdds: odds.trifecta.get(trifectaKey) || 50,
-        reasoning: `Upset occurs ${Math.round(patterns.upsetFrequency * 100)}% of the time`,
-      });
-    }
-
-    // Strategy 3: Correlation-based prediction
-    if (patterns.oddsRankCorrelation.length >= 3) {
-      // Use average rank positions to predict likely finishers
-      const avgRanks = patterns.oddsRankCorrelation;
-      const predicted = [
-        sortedByOdds[Math.min(Math.round(avgRanks[0]) - 1, sortedByOdds.length - 1)],
-        sortedByOdds[Math.min(Math.round(avgRanks[1]) - 1, sortedByOdds.length - 1)],
-        sortedByOdds[Math.min(Math.round(avgRanks[2]) - 1, sortedByOdds.length - 1)],
-      ];
-
-      // Ensure no duplicates
-      const uniqueIds = new Set(predicted.map(p => p.horse.id));
-      if (uniqueIds.size === 3) {
-        const trifectaKey = `${predicted[0].horse.id}-${predicted[1].horse.id}-${predicted[2].horse.id}`;
-        predictions.push({
-          horses: [predicted[0].horse.id, predicted[1].horse.id, predicted[2].horse.id],
-          confidence: 60,
-          expectedOdds: odds.trifecta.get(trifectaKey) || 20,
-          reasoning: `Based on historical rank correlation pattern`,
-        });
-      }
-    }
-
-    // Fill with simple odds-based if not enough predictions
-    if (predictions.length < 3) {
-      predictions.push(...this.predictByOdds(horses, odds));
-    }
-
-    // Return top 3 unique predictions
-    const seen = new Set<string>();
-    return predictions.filter(p => {
-      const key = p.horses.join('-');
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    }).slice(0, 3);
+  predict(horses: Horse[], odds: OddsTable, difficulty: Difficulty = 'standard'): TrifectaPrediction[] {
+    const trained = this.raceHistory.length >= MIN_TRAINING_RACES;
+    const probabilities = this.getTrifectaProbabilities(horses, odds, difficulty);
+    const market = trained ? predictTrifectas(MARKET_WEIGHTS, horses, odds, difficulty) : probabilities;
+
+    return Array.from(probabilities)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, PREDICTION_COUNT)
+      .map(([key, probability]) => ({
+        horses: key.split('-').map(Number) as [number, number, number],
+        confidence: Math.round(probability * 1000) / 10,
+        probability,
+        strategy: trained ? FITTED_STRATEGY : MARKET_STRATEGY,
+        expectedOdds: odds.trifecta.get(key) ?? 0,
+        reasoning: trained
+          ? `Fitted on ${this.raceHistory.length} races: ${formatPercent(probability)} (market ${formatPercent(market.get(key) ?? 0)})`
+          : `Market-implied ${formatPercent(probability)} (model fits after ${MIN_TRAINING_RACES} races)`,
+      }));
   }
 
   /**
    * Get prediction statistics
    */
   getStats() {
+    const readyForPrediction = this.raceHistory.length >= MIN_TRAINING_RACES;
     return {
       totalRaces: this.raceHistory.length,
-      readyForPrediction: this.raceHistory.length >= 10,
+      readyForPrediction,
+      model: readyForPrediction ? this.getModel() : null,
     };
   }
 
@@ -281,7 +130,8 @@ export class TrifectaPredictor {
    * Import history data
    */
   importHistory(data: RaceDataPoint[]): void {
-    this.raceHistory = data.slice(-this.MAX_HISTORY);
+    this.raceHistory = data.slice(-MAX_TRAINING_RACES);
+    this.model = null;
   }
 }
 
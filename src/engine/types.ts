@@ -7,6 +7,22 @@ export interface Horse {
   name: string;
   rating: number; // Strength rating (60-100)
   color: string;
+  scratched?: boolean; // Withdrawn (出走取消) after odds were published
+  aptitudes: HorseAptitudes;
+  style: RunningStyle; // 脚質
+}
+
+// 逃げ / 先行 / 差し / 追込 (see engine/pace.ts)
+export type RunningStyle = 'front' | 'stalker' | 'midpack' | 'closer';
+
+export type PaceScenario = 'slow' | 'average' | 'fast';
+
+// How well a horse suits the race conditions (see engine/conditions.ts)
+export interface HorseAptitudes {
+  distance: number; // Best distance in metres
+  surface: number; // -1 (dirt specialist) to +1 (turf specialist)
+  going: number; // -1 (needs good ground) to +1 (relishes 不良)
+  gate: number; // 0-1: how much the draw bias affects the horse
 }
 
 export interface RaceConfig {
@@ -15,38 +31,367 @@ export interface RaceConfig {
   margin: number; // Bookmaker margin (e.g., 0.18)
   seed: string;
   difficulty: Difficulty;
+  pricing: PricingMode;
+  model: RaceModelName;
+  conditions: RaceConditions;
+}
+
+export type Surface = 'turf' | 'dirt';
+
+// JRA going, from firmest to softest: 良 / 稍重 / 重 / 不良
+export type Going = 'good' | 'slightlyHeavy' | 'heavy' | 'bad';
+
+export interface RaceConditions {
+  distance: number; // Metres (1200-3200)
+  surface: Surface;
+  going: Going;
+  drawBias: number; // > 0 favours inside gates, < 0 outside gates
 }
 
 export type Difficulty = 'easy' | 'standard' | 'hard';
 
+// How ratings turn into finish orders (see engine/models.ts)
+export type RaceModelName = 'plackett-luce' | 'harville-discounted' | 'thurstone';
+
+// How prices are shown and entered (see engine/odds-format.ts); decimal internally
+export type OddsFormat = 'decimal' | 'fractional' | 'american' | 'hongkong';
+
+// fixed: bookmaker prices with margin / parimutuel: JRA-style pools with takeout
+export type PricingMode = 'fixed' | 'parimutuel';
+
 export interface OddsTable {
   win: number[]; // Decimal odds for each horse
   place: number[]; // Decimal odds for place bets
   quinella: Map<string, number>; // Key: "i-j" (smaller id first), value: odds
+  exacta: Map<string, number>; // Key: "i-j" (order matters), value: odds
+  wide: Map<string, number>; // Key: "i-j" (smaller id first), value: odds
+  trio: Map<string, number>; // Key: "i-j-k" (ascending ids), value: odds
   trifecta: Map<string, number>; // Key: "i-j-k" (order matters), value: odds
+  bracketQuinella: Map<string, number>; // Key: "a-b" bracket numbers (a <= b), value: odds
+  pools?: PoolTable; // Present in pari-mutuel mode: the money behind each price
+  multiWinner?: MultiWinnerPools; // Present in fixed mode: notional place/wide pools that settle per outcome
+  placeRange?: OddsRange[]; // Place dividend range per horse (depends on which other horses place)
+  wideRange?: Map<string, OddsRange>; // Wide dividend range per pair (depends on the third horse)
+  bands?: OddsBands; // 95% band of the Monte Carlo estimated price per selection
+  fair?: ProbabilityTable; // Model probability behind every price (expected value, see engine/value.ts)
+}
+
+// Key: selection key (horse ID for win), value: odds band
+// Place and wide have none: their prices are pool dividends, not 1 / (p × (1 + margin))
+export type OddsBands = Partial<Record<BetType, Map<string, OddsRange>>>;
+
+// Place and wide odds depend on the other winners: JRA shows them as min–max
+export interface OddsRange {
+  min: number;
+  max: number;
+}
+
+export interface BetPool {
+  takeout: number; // Fraction kept by the house (e.g., 0.15)
+  total: number; // Total money in the pool
+  stakes: Map<string, number>; // Key: selection (horse id or combination key), value: money
+}
+
+export interface ProbabilityTable {
+  win: number[]; // P(horse finishes 1st)
+  place: number[]; // P(horse finishes in the place positions)
+  quinella: Map<string, number>; // Same keys as OddsTable.quinella
+  exacta: Map<string, number>; // Same keys as OddsTable.exacta
+  wide: Map<string, number>; // P(both horses finish in the top 3)
+  trio: Map<string, number>; // Same keys as OddsTable.trio
+  trifecta: Map<string, number>; // Same keys as OddsTable.trifecta
+  bracketQuinella: Map<string, number>; // Same keys as OddsTable.bracketQuinella
+}
+
+// A price set against the model's fair probability (see engine/value.ts)
+export interface SelectionValue {
+  key: string; // Selection key (horse ID for win/place)
+  probability: number; // Fair (model) probability
+  odds: number; // Offered decimal odds (lowest dividend for place/wide)
+  ev: number; // Expected profit per unit stake: probability × odds − 1
+}
+
+export interface SlipValue {
+  stake: number;
+  expectedProfit: number; // Points (refunded bets count 0)
+  ev: number; // expectedProfit / stake
+}
+
+// Stake sizing (see engine/staking.ts)
+export type StakingMethod = 'kelly' | 'fractionalKelly' | 'fixedFraction' | 'flat';
+
+export interface StakingOptions {
+  method: StakingMethod;
+  kellyFraction: number; // Share of full Kelly for fractionalKelly (e.g., 0.5)
+  fixedFraction: number; // Share of bankroll per bet for fixedFraction (e.g., 0.02)
+  flatStake: number; // Points per bet for flat
+}
+
+export interface StakeSuggestion {
+  bet: Bet; // With the suggested stake (0 = no bet)
+  probability: number | null; // Fair probability (null without fair prices)
+  edge: number | null; // EV per unit stake
+  variance: number | null; // Variance of the return per unit stake
+  kellyFraction: number | null; // Full Kelly share of bankroll (solved jointly with the other bets)
+  fraction: number; // Suggested share of bankroll before the cap and rounding
+}
+
+export interface StakingPlan {
+  method: StakingMethod;
+  suggestions: StakeSuggestion[];
+  totalStake: number;
+  limit: number; // Points still allowed this race (maxBetPercentage less the held bets)
+  scale: number; // Factor applied to fit the limit (1 = not capped)
+}
+
+// Bet portfolio optimizer (see engine/portfolio.ts)
+export type PortfolioObjective = 'growth' | 'hitRate' | 'minVariance';
+
+export interface PortfolioOptions {
+  objective: PortfolioObjective;
+  budget: number; // Points to spread over the slip
+  targetEv: number; // EV floor (hitRate) or target (minVariance) per unit stake, e.g. 0
+}
+
+export interface PortfolioOutcome {
+  profit: number; // Points won or lost by the whole slip
+  probability: number;
+}
+
+export interface PortfolioResult {
+  objective: PortfolioObjective;
+  bets: Bet[]; // Ready to place
+  totalStake: number;
+  expectedProfit: number;
+  stdDev: number; // Of the profit, in points
+  hitProbability: number; // P(at least one bet pays)
+  expectedLogGrowth: number; // E[log(bankroll after / before)]
+  distribution: PortfolioOutcome[]; // Every possible profit, lowest first
+  note?: string; // Why the slip is empty or short
 }
 
-export type BetType = 'win' | 'place' | 'quinella' | 'trifecta';
+// Dutching and hedging (see engine/dutching.ts)
+export type HedgeMode = 'breakEven' | 'lockIn';
+
+export interface DutchLine {
+  odds: number;
+  stake: number;
+  payout: number; // floor(stake × odds)
+  profit: number; // If this selection wins, after every stake counted
+}
+
+export interface DutchResult {
+  lines: DutchLine[];
+  totalStake: number; // Of the calculated bets only
+  minProfit: number;
+  maxProfit: number;
+  bookPercentage: number; // Σ 1/odds: under 1 leaves room for a profit on every line
+}
+
+// Auto-betting strategies (see engine/strategies.ts)
+export interface StrategyContext {
+  horses: Horse[];
+  odds: OddsTable; // With fair probabilities when the game has them
+  difficulty: Difficulty;
+  bankroll: number; // Before this race
+  history: BacktestRaceLog[]; // The strategy's own earlier races, oldest first
+  minBet: number;
+  maxBetPercentage: number;
+}
+
+export interface BettingStrategy {
+  id: string;
+  name: string;
+  description: string;
+  placeBets: (context: StrategyContext) => Bet[];
+}
+
+// Plackett-Luce rating model fitted to race history (see engine/rating-model.ts)
+export interface RatingModel {
+  weights: number[]; // One per RATING_FEATURES entry
+  races: number; // Races fitted
+  logLikelihood: number; // Of the recorded top-3 finishes under the weights
+  marketLogLikelihood: number; // The same finishes under the market-only weights
+  iterations: number;
+}
+
+// Predictor evaluation (see engine/evaluation.ts)
+export interface ScoredPrediction {
+  raceNumber: number;
+  strategy: string;
+  horses: [number, number, number];
+  probability: number; // Predicted chance of this exact trifecta
+  hit: boolean; // The first three home in this order
+}
+
+export interface CalibrationBin {
+  low: number; // Predicted probability range [low, high)
+  high: number;
+  count: number;
+  meanProbability: number; // Average prediction in the bin
+  observedRate: number; // Share of the bin's predictions that hit
+}
+
+export interface PredictionEvaluation {
+  strategy: string;
+  predictions: number;
+  races: number;
+  hitRate: number; // Share of predictions that hit
+  raceHitRate: number; // Share of races where one of the predictions hit
+  brierScore: number; // Mean (probability − hit)², lower is better
+  logLoss: number; // Mean −log of the probability given to what happened, lower is better
+  calibration: CalibrationBin[]; // Non-empty bins only
+}
+
+// Headless strategy backtesting (see engine/backtest.ts)
+export interface BacktestRace extends StrategyContext {
+  index: number; // Seed number in the range
+  seed: string;
+  config: RaceConfig;
+}
+
+// Bets to place on a race (invalid ones are rejected, not placed)
+export type BacktestStrategy = (race: BacktestRace) => Bet[];
+
+export interface BacktestOptions {
+  strategy: BacktestStrategy;
+  startingBankroll: number;
+  seedPrefix: string; // Race n is seeded `${seedPrefix}-${n}`
+  fromSeed: number;
+  toSeed: number; // Inclusive
+  baseConfig: Omit<RaceConfig, 'seed' | 'conditions'>;
+  maxBetPercentage: number;
+  minBet: number;
+}
+
+export interface BacktestRaceLog {
+  index: number;
+  seed: string;
+  bets: Bet[]; // As placed
+  rejected: number; // Bets the strategy returned that failed validation
+  finishOrder: number[];
+  stake: number;
+  payout: number; // Includes refunds
+  profit: number;
+  hit: boolean; // At least one bet won
+  bankroll: number; // After this race
+}
+
+export interface BacktestReport {
+  races: number; // Run before the range ended or the bankroll ran out
+  racesBet: number;
+  totalStake: number;
+  totalPayout: number;
+  profit: number;
+  roi: number; // (profit / totalStake) * 100
+  hitRate: number; // Share of races bet with a winning bet
+  maxDrawdown: number; // Largest fall from a bankroll peak, in points
+  maxDrawdownPercentage: number; // The same fall as a share of that peak
+  longestLosingStreak: number; // Races bet in a row without a winning bet
+  finalBankroll: number;
+  bankrollPath: number[]; // Starting bankroll, then after each race
+  busted: boolean; // Stopped with less than the minimum bet left
+  log: BacktestRaceLog[];
+}
+
+export type BetType =
+  | 'win' // 単勝
+  | 'place' // 複勝
+  | 'quinella' // 馬連
+  | 'exacta' // 馬単
+  | 'wide' // ワイド
+  | 'trio' // 三連複
+  | 'trifecta' // 三連単
+  | 'bracketQuinella'; // 枠連
+
+// Bet types priced per combination (OddsTable maps)
+export type ComboBetType = Exclude<BetType, 'win' | 'place'>;
+
+export const COMBO_BET_TYPES: ComboBetType[] = [
+  'quinella',
+  'exacta',
+  'wide',
+  'trio',
+  'trifecta',
+  'bracketQuinella',
+];
+
+export type PoolTable = Record<BetType, BetPool>;
+
+// Bet types with several winning selections per race
+export type MultiWinnerBetType = Extract<BetType, 'place' | 'wide'>;
+
+export type MultiWinnerPools = Record<MultiWinnerBetType, BetPool>;
 
 export interface Bet {
   type: BetType;
-  horses: number[]; // Horse IDs (1 for win/place, 2 for quinella, 3 for trifecta)
+  horses: number[]; // Horse IDs (see BET_SELECTION_COUNTS); bracket numbers for bracketQuinella
   stake: number; // Points wagered
+  ticketId?: string; // Set when the bet was expanded from a BetTicket
+}
+
+// 通常 / ボックス (box) / 流し (wheel) / フォーメーション (formation)
+export type TicketMethod = 'single' | 'box' | 'wheel' | 'formation';
+
+export interface BetTicket {
+  id: string;
+  type: BetType;
+  method: TicketMethod;
+  // single/box: [horses] / wheel: [keys, partners] / formation: one set per position
+  legs: number[][];
+  stakePerBet: number;
+  count: number; // Number of bets the ticket expands into
+}
+
+export interface RaceOutcome {
+  finishOrder: number[]; // Runners' IDs in finish order (scratched horses excluded)
+  positions: number[]; // Finishing position of each finishOrder entry; dead heats share one (e.g., [1, 1, 3])
+  scratched: number[]; // IDs of scratched horses
+  pace?: PaceScenario; // Pace the race was run at
+  times?: RaceTimes; // Split and final times (see engine/physics.ts)
+}
+
+export type RaceSegment = 'start' | 'early' | 'corner' | 'stretch';
+
+export interface SegmentInfo {
+  name: RaceSegment;
+  label: string;
+  length: number; // Metres
+}
+
+export interface HorseRun {
+  horseId: number;
+  splits: number[]; // Seconds per segment
+  time: number; // Final time in seconds
+  lengthsBehind: number; // Lengths behind the winner
+  margin: string; // 着差 to the horse ahead (e.g. クビ, 1 1/2), empty for the winner
+}
+
+export interface RaceTimes {
+  segments: SegmentInfo[];
+  runs: HorseRun[]; // In finish order
 }
 
 export interface RaceResult {
   finishOrder: number[]; // Array of horse IDs in finish order (1st, 2nd, 3rd, ...)
+  positions: number[]; // Finishing positions, tied horses share a position
+  scratched: number[]; // Horses withdrawn; bets on them are refunded
+  pace?: PaceScenario;
+  times?: RaceTimes; // Missing for results saved before the race physics
   payouts: Payout[];
   totalStake: number;
-  totalPayout: number;
+  totalPayout: number; // Includes refunds
+  totalRefund: number;
   netProfit: number;
 }
 
 export interface Payout {
   bet: Bet;
   won: boolean;
-  payout: number; // 0 if lost, stake * odds (floored) if won
+  payout: number; // 0 if lost, stake * odds * deadHeatFactor (floored) if won, stake if refunded
   odds: number;
+  refunded: boolean; // Bet included a scratched horse (返還)
+  deadHeatFactor: number; // Share of the stake paid at odds: 1, or less after a dead heat (fixed odds)
 }
 
 export interface GameState {
@@ -54,14 +399,159 @@ export interface GameState {
   raceNumber: number;
   history: HistoryEntry[];
   settings: GameSettings;
+  meeting: Meeting | null; // Today's race card
+  currentRace: number; // Race number on the card (1-based)
+  multiLegBets: MultiLegBet[]; // Open multi-race bets (stakes already taken)
+  carryover: Record<MultiLegBetType, number>; // Unclaimed multi-race pools (キャリーオーバー)
+  challenge: Challenge | null; // Challenge in progress
+  challengeRaces: ChallengeRace[]; // Races run so far in the challenge
+  leaderboard: LeaderboardEntry[];
+}
+
+// A day's racing: a card of races generated up front from one seed (see engine/meeting.ts)
+export interface Meeting {
+  number: number; // Meeting (開催日) counter
+  seed: string;
+  venue: string;
+  races: MeetingRace[];
+}
+
+export interface MeetingRace {
+  number: number; // R1-R12
+  name: string;
+  postTime: string; // e.g. "15:40"
+  seed: string;
+  conditions: RaceConditions;
+  horses: Horse[];
+  config?: RaceConfig; // Fixed when the race opens, before it is priced (missing on cards saved before)
+  result?: LegResult; // Set once the race is run
+}
+
+// What a multi-race bet needs from each finished leg
+export interface LegResult {
+  winners: number[]; // Several after a dead heat for 1st
+  favourite: number; // 1番人気: stands in for scratched selections
+  scratched: number[];
+}
+
+// 2 / 4 / 5 consecutive winners (see engine/multileg.ts)
+export type MultiLegBetType = 'dailyDouble' | 'pick4' | 'win5';
+
+export interface MultiLegBet {
+  id: string;
+  type: MultiLegBetType;
+  meetingNumber: number;
+  legs: number[][]; // Horse IDs picked in each leg
+  stake: number; // Per combination
+}
+
+export interface MultiLegPayout {
+  bet: MultiLegBet;
+  won: boolean;
+  winningCombinations: number;
+  payout: number;
+}
+
+export interface MultiLegSettlement {
+  type: MultiLegBetType;
+  dividend: number; // Decimal odds per winning combination (0 if nobody hit)
+  poolTotal: number; // Crowd and player money, before takeout
+  carryoverIn: number;
+  carryoverOut: number; // Goes to the same pool at the next meeting
+  payouts: MultiLegPayout[];
+}
+
+// Prices a race was bet at: enough to check a replay without storing every combination
+export interface OddsSnapshot {
+  win: number[];
+  place: number[];
+  bets: number[]; // Quoted price of each of the entry's bets, in order
+}
+
+// A past race rebuilt from its seed and config (see engine/replay.ts)
+export interface RaceReplay {
+  horses: Horse[];
+  odds: OddsTable;
+  result: RaceResult;
+  checks: ReplayChecks; // Whether each part matches what the history recorded
+}
+
+export interface ReplayChecks {
+  horses: boolean;
+  odds: boolean;
+  finishOrder: boolean;
+  payouts: boolean;
+}
+
+// SHA-256 of a race seed and its secret nonce, published before betting opens (see engine/commitment.ts)
+export interface SeedCommitment {
+  hash: string; // Hex digest
+  committedAt: string; // ISO date
+}
+
+// The seed and nonce behind a commitment, revealed once the race is run
+export interface SeedReveal {
+  seed: string;
+  nonce?: string; // Empty for challenge races; missing on races committed to the seed alone
+  revealedAt: string; // ISO date
+}
+
+export interface CommitmentCheck {
+  commitment: boolean; // The revealed seed and nonce hash to the commitment
+  finishOrder: boolean; // They give the recorded finish order
+}
+
+// A seeded run of races everyone plays the same way (see engine/challenge.ts)
+export interface Challenge {
+  seed: string; // Session seed: meeting n is drawn from `${seed}-M${n}`
+  races: number;
+  startingBankroll: number;
+  difficulty: Difficulty;
+  numHorses: number;
+  pricingMode: PricingMode;
+  maxBetPercentage: number;
+}
+
+// What the player did in one challenge race
+export interface ChallengeRace {
+  bets: Bet[];
+  scratched: number[];
+}
+
+// Everything needed to re-run a finished challenge and check its result
+export interface ChallengeProof {
+  version: number;
+  challenge: Challenge;
+  races: ChallengeRace[];
+  finalBankroll: number;
+}
+
+export interface ChallengeVerification {
+  valid: boolean;
+  races: number; // Races re-run
+  finalBankroll: number; // Bankroll the engine gives
+  error?: string;
+}
+
+export interface LeaderboardEntry {
+  player: string;
+  finishedAt: string; // ISO date
+  proof: ChallengeProof;
 }
 
 export interface HistoryEntry {
   raceNumber: number;
   seed: string;
+  conditions?: RaceConditions; // Missing in history saved before race conditions
+  config?: RaceConfig; // Everything the race was built from; missing in history saved before replays
+  odds?: OddsSnapshot; // Missing in history saved before replays
+  commitment?: SeedCommitment; // Published before betting opened; missing in history saved before commitments
+  reveal?: SeedReveal;
   horses: Horse[];
   bets: Bet[];
+  tickets: BetTicket[]; // Groups of bets placed as box/wheel/formation
   result: RaceResult;
+  multiLeg?: MultiLegSettlement[]; // Multi-race pools whose last leg was this race
   bankrollBefore: number;
   bankrollAfter: number;
   roi: number; // (netProfit / totalStake) * 100
@@ -71,8 +561,14 @@ export interface GameSettings {
   difficulty: Difficulty;
   numHorses: number;
   showRatings: boolean;
-  monteCarloTrials: number;
+  monteCarloTrials: number; // Trial cap; sampling stops earlier once the target precision is met
+  monteCarloPrecision: number; // Target relative standard error
+  monteCarloTimeBudgetMs: number;
   maxBetPercentage: number; // Max % of bankroll per race (e.g., 0.5 = 50%)
+  pricingMode: PricingMode;
+  oddsFormat: OddsFormat;
+  trainingMode: boolean; // Show fair probabilities and expected value while ratings are hidden
+  staking: StakingOptions;
   soundEnabled: boolean;
   animationEnabled: boolean;
 }
@@ -83,6 +579,35 @@ export interface MonteCarloProgress {
   totalTrials: number;
 }
 
+export interface MonteCarloDeviation {
+  trials: number;
+  maxDeviation: Record<BetType, number>; // Largest |estimated - exact| probability per bet type
+}
+
+export interface MonteCarloOptions {
+  maxTrials: number; // Trial cap (0 skips Monte Carlo)
+  targetPrecision: number; // Relative standard error wanted for the selections that matter (e.g., 0.05)
+  timeBudgetMs: number; // Stop sampling after this long even if the target is not met
+}
+
+export interface ProbabilityEstimate {
+  probability: number;
+  standardError: number; // sqrt(p(1 - p) / trials)
+  low: number; // 95% confidence interval (Wilson score)
+  high: number;
+}
+
+// Key: selection key (horse ID for win/place), value: Monte Carlo estimate
+export type EstimateTable = Record<BetType, Map<string, ProbabilityEstimate>>;
+
+export interface MonteCarloPrecision {
+  trials: number;
+  precision: number; // Largest relative standard error among the selections that matter
+  targetPrecision: number;
+  precisionMet: boolean;
+  elapsedMs: number;
+}
+
 export interface MonteCarloResult {
   probabilities: number[];
   type: 'place' | 'quinella' | 'trifecta';
@@ -94,16 +619,19 @@ export const DIFFICULTY_CONFIGS: Record<Difficulty, Partial<RaceConfig>> = {
     temperature: 25,
     margin: 0.15,
     numHorses: 8,
+    model: 'plackett-luce',
   },
   standard: {
     temperature: 20,
     margin: 0.18,
     numHorses: 16,
+    model: 'harville-discounted',
   },
   hard: {
     temperature: 15,
     margin: 0.22,
     numHorses: 16,
+    model: 'thurstone',
   },
 };
 
@@ -111,11 +639,32 @@ export const DEFAULT_SETTINGS: GameSettings = {
   difficulty: 'standard',
   numHorses: 16,
   showRatings: false,
-  monteCarloTrials: 50000,
+  monteCarloTrials: 200000,
+  monteCarloPrecision: 0.05,
+  monteCarloTimeBudgetMs: 5000,
   maxBetPercentage: 0.5,
+  pricingMode: 'fixed',
+  oddsFormat: 'decimal',
+  trainingMode: false,
+  staking: { method: 'fractionalKelly', kellyFraction: 0.5, fixedFraction: 0.02, flatStake: 100 },
   soundEnabled: false,
   animationEnabled: true,
 };
 
+// Number of horses (or brackets) picked for each bet type
+export const BET_SELECTION_COUNTS: Record<BetType, number> = {
+  win: 1,
+  place: 1,
+  quinella: 2,
+  exacta: 2,
+  wide: 2,
+  trio: 3,
+  trifecta: 3,
+  bracketQuinella: 2,
+};
+
+// Number of brackets (枠) in a race
+export const NUM_BRACKETS = 8;
+
 export const INITIAL_BANKROLL = 10000;
 export const MIN_BET = 100;
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { calculateExactProbabilities, priceProbabilityTable } from './odds';
+import { generateHorses } from './race';
+import {
+  calculateExpectedValue,
+  formatExpectedValue,
+  getBetValue,
+  getSlipValue,
+  listSelectionValues,
+} from './value';
+import { deserializeOddsTable, serializeOddsTable } from './serialize';
+import type { OddsTable, RaceConfig } from './types';
+
+describe('value', () => {
+  const config: RaceConfig = {
+    numHorses: 8,
+    temperature: 20,
+    margin: 0.18,
+    seed: 'value-test',
+    difficulty: 'standard',
+    pricing: 'fixed',
+    model: 'plackett-luce',
+    conditions: { distance: 1600, surface: 'turf', going: 'good', drawBias: 0.5 },
+  };
+  const horses = generateHorses(config);
+  const probabilities = calculateExactProbabilities(horses, config);
+  const odds: OddsTable = { ...priceProbabilityTable(probabilities, config.margin), fair: probabilities };
+
+  it('is probability × odds − 1 per unit stake', () => {
+    expect(calculateExpectedValue(0.5, 2.4)).toBeCloseTo(0.2);
+    expect(calculateExpectedValue(0.25, 2)).toBeCloseTo(-0.5);
+    expect(formatExpectedValue(0.125)).toBe('+12.5%');
+    expect(formatExpectedValue(-0.05)).toBe('-5.0%');
+  });
+
+  it('prices every win bet at a loss equal to the margin', () => {
+    // Odds of 1 / (p (1 + m)) return 1 / (1 + m) of the stake (bar the 1.05 floor)
+    listSelectionValues('win', odds)
+      .filter((value) => value.odds > 1.05)
+      .forEach((value) => expect(value.ev).toBeCloseTo(1 / (1 + config.margin) - 1, 6));
+  });
+
+  it('lists every offered price of a bet type, best value first', () => {
+    const trifecta = listSelectionValues('trifecta', odds);
+    expect(trifecta).toHaveLength(odds.trifecta.size);
+    for (let i = 1; i < trifecta.length; i++) {
+      expect(trifecta[i].ev).toBeLessThanOrEqual(trifecta[i - 1].ev);
+    }
+    expect(listSelectionValues('quinella', odds)[0].probability).toBe(
+      probabilities.quinella.get(listSelectionValues('quinella', odds)[0].key)
+    );
+  });
+
+  it('finds value where the offered price beats the fair odds', () => {
+    const generous: OddsTable = { ...odds, win: odds.win.map((price, idx) => (idx === 0 ? 2 / probabilities.win[0] : price)) };
+    const value = getBetValue({ type: 'win', horses: [1], stake: 100 }, generous)!;
+    expect(value.probability).toBe(probabilities.win[0]);
+    expect(value.ev).toBeCloseTo(1);
+  });
+
+  it('needs fair probabilities', () => {
+    const unpriced: OddsTable = { ...odds, fair: undefined };
+    expect(getBetValue({ type: 'win', horses: [1], stake: 100 }, unpriced)).toBeNull();
+    expect(listSelectionValues('win', unpriced)).toEqual([]);
+  });
+
+  it('sums the slip and counts refunded bets as breaking even', () => {
+    const bets = [
+      { type: 'win' as const, horses: [1], stake: 200 },
+      { type: 'trifecta' as const, horses: [1, 2, 3], stake: 100 },
+      { type: 'quinella' as const, horses: [4, 5], stake: 100 },
+    ];
+    const expected =
+      getBetValue(bets[0], odds)!.ev * 200 + getBetValue(bets[1], odds)!.ev * 100;
+
+    const slip = getSlipValue(bets, odds, [5], horses.length)!;
+    expect(slip.stake).toBe(400);
+    expect(slip.expectedProfit).toBeCloseTo(expected);
+    expect(slip.ev).toBeCloseTo(expected / 400);
+    expect(getSlipValue([], odds, [], horses.length)).toBeNull();
+  });
+
+  it('keeps fair probabilities through serialization', () => {
+    const restored = deserializeOddsTable(serializeOddsTable(odds));
+    expect(restored.fair?.win).toEqual(probabilities.win);
+    expect(restored.fair?.trifecta.get('1-2-3')).toBe(probabilities.trifecta.get('1-2-3'));
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Expected value of offered prices
+ * Sets every price against the model's fair probability:
+ * EV per unit stake = probability × odds − 1. Place and wide are valued at
+ * the lowest dividend of their range, so their EV is a floor.
+ */
+
+import type { Bet, BetType, OddsTable, ProbabilityTable, SelectionValue, SlipValue } from './types';
+import { getSelectionKey } from './odds';
+import { getOddsForBet, isBetRefunded } from './payout';
+
+/**
+ * Expected profit per unit stake of a price
+ */
+export function calculateExpectedValue(probability: number, odds: number): number {
+  return probability * odds - 1;
+}
+
+/**
+ * Fair (model) probability of a bet
+ */
+export function getFairProbability(bet: Bet, fair: ProbabilityTable): number {
+  switch (bet.type) {
+    case 'win':
+      return fair.win[bet.horses[0] - 1] ?? 0;
+
+    case 'place':
+      return fair.place[bet.horses[0] - 1] ?? 0;
+
+    default:
+      return fair[bet.type].get(getSelectionKey(bet.type, bet.horses)) || 0;
+  }
+}
+
+/**
+ * Value of a single bet; null if the table has no fair probabilities
+ * or the selection is not offered
+ */
+export function getBetValue(bet: Bet, odds: OddsTable): SelectionValue | null {
+  if (!odds.fair) return null;
+  const price = getOddsForBet(bet, odds);
+  if (!(price > 0)) return null;
+
+  const probability = getFairProbability(bet, odds.fair);
+  return {
+    key: getSelectionKey(bet.type, bet.horses),
+    probability,
+    odds: price,
+    ev: calculateExpectedValue(probability, price),
+  };
+}
+
+/**
+ * Value of every offered price of one bet type, best EV first
+ */
+export function listSelectionValues(type: BetType, odds: OddsTable): SelectionValue[] {
+  const fair = odds.fair;
+  if (!fair) return [];
+
+  const prices: [string, number][] =
+    type === 'win' || type === 'place'
+      ? odds[type].map((price, idx) => [String(idx + 1), price])
+      : Array.from(odds[type]);
+  const probabilities = (key: string) =>
+    type === 'win' || type === 'place' ? fair[type][Number(key) - 1] : fair[type].get(key);
+
+  return prices
+    .filter(([, price]) => price > 0)
+    .map(([key, price]) => {
+      const probability = probabilities(key) ?? 0;
+      return { key, probability, odds: price, ev: calculateExpectedValue(probability, price) };
+    })
+    .sort((a, b) => b.ev - a.ev);
+}
+
+/**
+ * Expected profit of the whole slip before the race
+ * Bets on scratched horses are refunded, so they add stake but no profit
+ */
+export function getSlipValue(
+  bets: Bet[],
+  odds: OddsTable,
+  scratched: number[],
+  numHorses: number
+): SlipValue | null {
+  if (!odds.fair || bets.length === 0) return null;
+
+  let stake = 0;
+  let expectedProfit = 0;
+  for (const bet of bets) {
+    stake += bet.stake;
+    if (isBetRefunded(bet, scratched, numHorses)) continue;
+    const value = getBetValue(bet, odds);
+    expectedProfit += value ? value.ev * bet.stake : -bet.stake;
+  }
+
+  return { stake, expectedProfit, ev: stake > 0 ? expectedProfit / stake : 0 };
+}
+
+/**
+ * EV as a signed percentage, e.g. "+12.5%"
+ */
+export function formatExpectedValue(ev: number): string {
+  return `${ev >= 0 ? '+' : ''}${(ev * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { ChallengeProof, ChallengeVerification } from '../engine/types';
+import type { ChallengeWorkerMessage } from '../engine/challenge.worker';
+
+interface PendingCheck {
+  resolve: (verification: ChallengeVerification) => void;
+  reject: (error: Error) => void;
+}
+
+export function useChallengeWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const nextIdRef = useRef(0);
+  const pendingRef = useRef(new Map<number, PendingCheck>());
+
+  useEffect(() => {
+    // Initialize worker
+    const worker = new Worker(new URL('../engine/challenge.worker.ts', import.meta.url), { type: 'module' });
+    const pending = pendingRef.current;
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<ChallengeWorkerMessage>) => {
+      const message = event.data;
+      const check = pending.get(message.id);
+      if (!check) return;
+      pending.delete(message.id);
+
+      if (message.type === 'result') {
+        check.resolve(message.verification);
+      } else {
+        check.reject(new Error(message.error));
+      }
+    };
+
+    return () => {
+      worker.terminate();
+      pending.forEach((check) => check.reject(new Error('Verification was stopped')));
+      pending.clear();
+    };
+  }, []);
+
+  // Re-run a proof in the worker
+  const verify = useCallback((proof: ChallengeProof): Promise<ChallengeVerification> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.reject(new Error('Worker not initialized'));
+
+    nextIdRef.current += 1;
+    const id = nextIdRef.current;
+    return new Promise((resolve, reject) => {
+      pendingRef.current.set(id, { resolve, reject });
+      worker.postMessage({ id, proof });
+    });
+  }, []);
+
+  return { verify };
+}
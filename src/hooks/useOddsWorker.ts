@@ -1,12 +1,24 @@
 import { useEffect, useRef, useState } from 'react';
-import type { Horse, RaceConfig, OddsTable } from '../engine/types';
+import type {
+  Horse,
+  RaceConfig,
+  OddsTable,
+  MonteCarloDeviation,
+  MonteCarloOptions,
+  MonteCarloPrecision,
+} from '../engine/types';
 import type { WorkerMessage } from '../engine/montecarlo.worker';
+import { deserializeOddsTable } from '../engine/serialize';
 
 export function useOddsWorker() {
   const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0); // Id of the latest request; older replies are dropped
   const [loading, setLoading] = useState(false);
+  const [sampling, setSampling] = useState(false); // Exact odds are in, Monte Carlo bands still running
   const [progress, setProgress] = useState(0);
   const [odds, setOdds] = useState<OddsTable | null>(null);
+  const [deviation, setDeviation] = useState<MonteCarloDeviation | null>(null);
+  const [precision, setPrecision] = useState<MonteCarloPrecision | null>(null);
 
   useEffect(() => {
     // Initialize worker
@@ -17,19 +29,23 @@ export function useOddsWorker() {
 
     workerRef.current.onmessage = (event: MessageEvent<WorkerMessage>) => {
       const message = event.data;
+      if (message.id !== requestRef.current) return;
 
-      if (message.type === 'progress') {
+      if (message.type === 'odds') {
+        console.log('[Hook] Received exact odds');
+        setOdds(deserializeOddsTable(message.odds));
+        setLoading(false);
+        setSampling(true);
+      } else if (message.type === 'progress') {
         setProgress(message.progress);
       } else if (message.type === 'result') {
         console.log('[Hook] Received odds result');
-        const oddsTable: OddsTable = {
-          win: message.winOdds,
-          place: message.placeOdds,
-          quinella: new Map(message.quinellaOdds),
-          trifecta: new Map(message.trifectaOdds),
-        };
+        const oddsTable = deserializeOddsTable(message.odds);
         setOdds(oddsTable);
+        setDeviation(message.deviation);
+        setPrecision(message.precision);
         setLoading(false);
+        setSampling(false);
         console.log('[Hook] Odds set, loading=false');
       }
     };
@@ -39,23 +55,28 @@ export function useOddsWorker() {
     };
   }, []);
 
-  const calculateOdds = (horses: Horse[], config: RaceConfig, numTrials: number) => {
+  const calculateOdds = (horses: Horse[], config: RaceConfig, sampling: MonteCarloOptions) => {
     if (!workerRef.current) {
       console.error('[Hook] Worker not initialized');
       return;
     }
 
-    console.log('[Hook] Starting odds calculation', { numHorses: horses.length, numTrials });
+    console.log('[Hook] Starting odds calculation', { numHorses: horses.length, sampling });
+    requestRef.current += 1;
     setLoading(true);
+    setSampling(false);
     setProgress(0);
     setOdds(null);
+    setDeviation(null);
+    setPrecision(null);
 
     workerRef.current.postMessage({
+      id: requestRef.current,
       horses,
       config,
-      numTrials,
+      sampling,
     });
   };
 
-  return { calculateOdds, loading, progress, odds };
+  return { calculateOdds, loading, sampling, progress, odds, deviation, precision };
 }
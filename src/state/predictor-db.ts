@@ -0,0 +1,102 @@
+/**
+ * Trifecta predictor persistence
+ * Recorded races are kept in IndexedDB, one record per race (win odds only,
+ * see engine/training-data.ts), so the predictor's training data survives a reload
+ */
+
+import type { RaceDataPoint } from '../engine/trifecta-predictor';
+import { MAX_TRAINING_RACES } from '../engine/trifecta-predictor';
+import { deserializeRaceDataPoint, serializeRaceDataPoint } from '../engine/training-data';
+import type { SerializedRaceDataPoint } from '../engine/training-data';
+
+const DB_NAME = 'keiba-dash';
+const DB_VERSION = 2; // 2: records keep only the win odds
+const RACES_STORE = 'predictorRaces'; // Auto-incremented keys: oldest race first
+
+let database: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        if (event.oldVersion < 1) {
+          request.result.createObjectStore(RACES_STORE, { autoIncrement: true });
+          return;
+        }
+        // Trim the full odds tables that version 1 saved with every race
+        const cursorRequest = request.transaction!.objectStore(RACES_STORE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          cursor.update(serializeRaceDataPoint(deserializeRaceDataPoint(cursor.value)));
+          cursor.continue();
+        };
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again after a failure
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Every saved race, oldest first
+ */
+export async function loadPredictorHistory(): Promise<RaceDataPoint[]> {
+  const db = await openDatabase();
+  const races = db.transaction(RACES_STORE, 'readonly').objectStore(RACES_STORE);
+  const saved = await promisify(races.getAll() as IDBRequest<SerializedRaceDataPoint[]>);
+  return saved.map(deserializeRaceDataPoint);
+}
+
+/**
+ * Save a newly recorded race, dropping the oldest beyond the training limit
+ */
+export async function appendPredictorRace(point: RaceDataPoint): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RACES_STORE, 'readwrite');
+  const races = transaction.objectStore(RACES_STORE);
+  races.add(serializeRaceDataPoint(point));
+
+  const keys = await promisify(races.getAllKeys());
+  const excess = keys.length - MAX_TRAINING_RACES;
+  if (excess > 0) races.delete(IDBKeyRange.upperBound(keys[excess - 1]));
+
+  return complete(transaction);
+}
+
+/**
+ * Replace the saved races (after an import or merge)
+ */
+export async function replacePredictorHistory(points: RaceDataPoint[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RACES_STORE, 'readwrite');
+  const races = transaction.objectStore(RACES_STORE);
+  races.clear();
+  points.slice(-MAX_TRAINING_RACES).forEach((point) => races.add(serializeRaceDataPoint(point)));
+  return complete(transaction);
+}
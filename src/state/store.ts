@@ -10,24 +10,54 @@ import type {
   GameSettings,
   Horse,
   Bet,
+  BetTicket,
   OddsTable,
   RaceConfig,
   HistoryEntry,
+  LegResult,
+  Meeting,
+  MultiLegBet,
+  Challenge,
+  LeaderboardEntry,
+  SeedCommitment,
 } from '../engine/types';
 import {
   INITIAL_BANKROLL,
   DEFAULT_SETTINGS,
-  DIFFICULTY_CONFIGS,
   MIN_BET,
 } from '../engine/types';
-import { generateHorses, simulateRace } from '../engine/race';
+import { getOutcomeSeed, simulateRaceOutcome } from '../engine/race';
 import { resolveRace, validateAllBets } from '../engine/payout';
+import { takeOddsSnapshot } from '../engine/replay';
+import { commitSeed, createNonce, revealSeed } from '../engine/commitment';
+import { expandTicket } from '../engine/ticket';
+import {
+  generateMeeting,
+  getBaseRaceConfig,
+  getMeetingRace,
+  getMeetingRaceConfig,
+  openMeetingRace,
+} from '../engine/meeting';
+import {
+  CHALLENGE_SETTINGS,
+  createChallengeProof,
+  getSessionMeetingSeed,
+  isChallengeOver,
+} from '../engine/challenge';
+import {
+  EMPTY_CARRYOVER,
+  getCombinationCount,
+  isMultiLegOpen,
+  settleMeetingPools,
+} from '../engine/multileg';
 
 interface GameStore extends GameState {
   // Current race state
   currentHorses: Horse[];
   currentBets: Bet[];
+  currentTickets: BetTicket[];
   currentOdds: OddsTable | null;
+  currentCommitment: SeedCommitment | null; // Published before betting opens
   oddsLoading: boolean;
   oddsProgress: number;
   raceInProgress: boolean;
@@ -37,20 +67,73 @@ interface GameStore extends GameState {
   startNewGame: () => void;
   updateSettings: (settings: Partial<GameSettings>) => void;
   generateNewRace: () => void;
+  resumeMeeting: () => void;
   addBet: (bet: Bet) => void;
+  addTicket: (ticket: BetTicket) => void;
   removeBet: (index: number) => void;
+  removeTicket: (ticketId: string) => void;
+  restakeBets: (stakes: Map<number, number>) => void;
+  addMultiLegBet: (bet: MultiLegBet) => void;
+  removeMultiLegBet: (betId: string) => void;
+  scratchHorse: (horseId: number) => void;
   clearBets: () => void;
   setOdds: (odds: OddsTable) => void;
   setOddsLoading: (loading: boolean) => void;
   setOddsProgress: (progress: number) => void;
+  commitRace: () => Promise<void>;
   runRace: () => HistoryEntry | undefined;
   getCurrentRaceConfig: () => RaceConfig;
   continueAfterGameOver: () => void;
   exportHistory: () => string;
+  startChallenge: (challenge: Challenge) => void;
+  abandonChallenge: () => void;
+  addLeaderboardEntry: (entry: LeaderboardEntry) => void;
+  removeLeaderboardEntry: (finishedAt: string) => void;
 }
 
 const STORAGE_KEY = 'keiba-dash-game-state';
 
+/**
+ * Nonce of the committed race: kept out of the store so it is neither saved
+ * nor shown until the race is run (a reload commits again with a new one)
+ */
+let raceSecret: { seed: string; nonce: string } | null = null;
+
+/**
+ * Race config without the per-race parts (seed and conditions)
+ */
+function getSettingsRaceConfig(state: GameState): Omit<RaceConfig, 'seed' | 'conditions'> {
+  return getBaseRaceConfig(state.settings.difficulty, state.settings.numHorses, state.settings.pricingMode);
+}
+
+/**
+ * Draw the card for a new meeting (seeded from the session seed during a challenge)
+ */
+function newMeeting(state: GameState, number: number): Meeting {
+  const seed = state.challenge
+    ? getSessionMeetingSeed(state.challenge.seed, number)
+    : `meeting-${number}-${Date.now()}`;
+  return generateMeeting(number, seed, getSettingsRaceConfig(state));
+}
+
+/**
+ * Fresh per-race state for a race on the card (its config is fixed from the settings as it opens)
+ */
+function loadRace(state: GameState, meeting: Meeting, raceNumber: number) {
+  return {
+    meeting: openMeetingRace(meeting, raceNumber, getSettingsRaceConfig(state)),
+    currentRace: raceNumber,
+    currentHorses: meeting.races[raceNumber - 1].horses,
+    currentBets: [],
+    currentTickets: [],
+    currentOdds: null,
+    currentCommitment: null,
+    oddsLoading: false,
+    oddsProgress: 0,
+    raceInProgress: false,
+  };
+}
+
 export const useGameStore = create<GameStore>()(
   persist(
     (set, get) => ({
@@ -59,68 +142,90 @@ export const useGameStore = create<GameStore>()(
       raceNumber: 1,
       history: [],
       settings: DEFAULT_SETTINGS,
+      meeting: null,
+      currentRace: 1,
+      multiLegBets: [],
+      carryover: EMPTY_CARRYOVER,
+      challenge: null,
+      challengeRaces: [],
+      leaderboard: [],
       currentHorses: [],
       currentBets: [],
+      currentTickets: [],
       currentOdds: null,
+      currentCommitment: null,
       oddsLoading: false,
       oddsProgress: 0,
       raceInProgress: false,
       gameOver: false,
 
       // Helper to get current race config
+      // The config is the one fixed on the card when the race opened, so the odds and the race agree
       getCurrentRaceConfig: (): RaceConfig => {
         const state = get();
-        const difficultyConfig = DIFFICULTY_CONFIGS[state.settings.difficulty];
+        const race = getMeetingRace(state.meeting, state.currentRace);
 
-        return {
-          numHorses: state.settings.numHorses,
-          temperature: difficultyConfig.temperature!,
-          margin: difficultyConfig.margin!,
-          seed: `race-${state.raceNumber}-${Date.now()}`,
-          difficulty: state.settings.difficulty,
-        };
+        if (!race) {
+          throw new Error('No race on the card');
+        }
+
+        return getMeetingRaceConfig(race, getSettingsRaceConfig(state));
       },
 
       // Start completely new game
       startNewGame: () => {
-        const config = get().getCurrentRaceConfig();
-        const horses = generateHorses(config);
-
-        set({
+        const reset = {
           bankroll: INITIAL_BANKROLL,
           raceNumber: 1,
           history: [],
-          currentHorses: horses,
-          currentBets: [],
-          currentOdds: null,
-          oddsLoading: false,
-          oddsProgress: 0,
-          raceInProgress: false,
+          multiLegBets: [],
+          carryover: EMPTY_CARRYOVER,
+          challenge: null,
+          challengeRaces: [],
           gameOver: false,
-        });
+        };
+
+        const state = { ...get(), ...reset };
+        set({ ...reset, ...loadRace(state, newMeeting(state, 1), 1) });
       },
 
-      // Update settings
+      // Update settings (the ones that shape the races are fixed during a challenge)
       updateSettings: (newSettings) => {
-        set((state) => ({
-          settings: { ...state.settings, ...newSettings },
-        }));
+        set((state) => {
+          const fixed = state.challenge
+            ? Object.fromEntries(CHALLENGE_SETTINGS.map((key) => [key, state.settings[key]]))
+            : {};
+          return { settings: { ...state.settings, ...newSettings, ...fixed } };
+        });
       },
 
-      // Generate new race (next race number)
+      // Generate new race (next race on the card, or the first race of the next meeting)
       generateNewRace: () => {
         const state = get();
-        const config = state.getCurrentRaceConfig();
-        const horses = generateHorses(config);
+        const { meeting, currentRace } = state;
 
-        set({
-          currentHorses: horses,
-          currentBets: [],
-          currentOdds: null,
-          oddsLoading: false,
-          oddsProgress: 0,
-          raceInProgress: false,
-        });
+        // Never skip a race on the card: multi-race bets and challenges need every result
+        const race = getMeetingRace(meeting, currentRace);
+        if (race && !race.result) return;
+
+        if (meeting && currentRace < meeting.races.length) {
+          set(loadRace(state, meeting, currentRace + 1));
+        } else {
+          set(loadRace(state, newMeeting(state, (meeting?.number ?? 0) + 1), 1));
+        }
+      },
+
+      // Pick up the saved meeting after a reload (a race already run moves on)
+      resumeMeeting: () => {
+        const state = get();
+        const { meeting, currentRace } = state;
+        const race = getMeetingRace(meeting, currentRace);
+
+        if (meeting && race && !race.result) {
+          set(loadRace(state, meeting, currentRace));
+        } else {
+          get().generateNewRace();
+        }
       },
 
       // Add bet to current race
@@ -130,16 +235,85 @@ export const useGameStore = create<GameStore>()(
         }));
       },
 
-      // Remove bet by index
+      // Add box/wheel/formation ticket as its expanded bets
+      addTicket: (ticket) => {
+        set((state) => ({
+          currentBets: [...state.currentBets, ...expandTicket(ticket)],
+          currentTickets: [...state.currentTickets, ticket],
+        }));
+      },
+
+      // Remove bet by index (tickets left without bets are dropped)
       removeBet: (index) => {
+        set((state) => {
+          const currentBets = state.currentBets.filter((_, i) => i !== index);
+          const currentTickets = state.currentTickets
+            .map((ticket) => ({
+              ...ticket,
+              count: currentBets.filter((bet) => bet.ticketId === ticket.id).length,
+            }))
+            .filter((ticket) => ticket.count > 0);
+          return { currentBets, currentTickets };
+        });
+      },
+
+      // Remove a ticket and all its bets
+      removeTicket: (ticketId) => {
+        set((state) => ({
+          currentBets: state.currentBets.filter((bet) => bet.ticketId !== ticketId),
+          currentTickets: state.currentTickets.filter((ticket) => ticket.id !== ticketId),
+        }));
+      },
+
+      // Change stakes by bet index (a stake of 0 drops the bet)
+      restakeBets: (stakes) => {
         set((state) => ({
-          currentBets: state.currentBets.filter((_, i) => i !== index),
+          currentBets: state.currentBets
+            .map((bet, i) => (stakes.has(i) ? { ...bet, stake: stakes.get(i)! } : bet))
+            .filter((bet) => bet.stake > 0),
+        }));
+      },
+
+      // Place a multi-race bet: the stake is taken now, the bet settles after its last leg
+      // (not during a challenge, whose proof covers single-race bets only)
+      addMultiLegBet: (bet) => {
+        if (get().challenge) return;
+        set((state) => ({
+          bankroll: state.bankroll - bet.stake * getCombinationCount(bet.legs),
+          multiLegBets: [...state.multiLegBets, bet],
+        }));
+      },
+
+      // Cancel a multi-race bet and return its stake
+      removeMultiLegBet: (betId) => {
+        set((state) => {
+          const bet = state.multiLegBets.find((b) => b.id === betId);
+          if (!bet || !state.meeting || !isMultiLegOpen(bet.type, state.meeting)) return {};
+          return {
+            bankroll: state.bankroll + bet.stake * getCombinationCount(bet.legs),
+            multiLegBets: state.multiLegBets.filter((b) => b.id !== betId),
+          };
+        });
+      },
+
+      // Scratch a horse after odds are published
+      // Clearing the odds reprices the remaining field; bets on it are refunded
+      scratchHorse: (horseId) => {
+        // Keep at least two runners so there is still a race
+        const runners = get().currentHorses.filter((horse) => !horse.scratched);
+        if (runners.length <= 2) return;
+
+        set((state) => ({
+          currentHorses: state.currentHorses.map((horse) =>
+            horse.id === horseId ? { ...horse, scratched: true } : horse
+          ),
+          currentOdds: null,
         }));
       },
 
       // Clear all bets
       clearBets: () => {
-        set({ currentBets: [] });
+        set({ currentBets: [], currentTickets: [] });
       },
 
       // Set calculated odds
@@ -161,17 +335,33 @@ export const useGameStore = create<GameStore>()(
         set({ oddsProgress: progress });
       },
 
+      // Commit to the current race's seed and a secret nonce; dropped if the race changed while hashing
+      // Challenge races have an empty nonce: their finish must follow from the challenge seed for proofs to verify
+      commitRace: async () => {
+        const { seed } = get().getCurrentRaceConfig();
+        const nonce = get().challenge ? '' : createNonce();
+        const commitment = await commitSeed(seed, nonce, new Date().toISOString());
+        if (get().getCurrentRaceConfig().seed === seed && !get().currentCommitment) {
+          raceSecret = { seed, nonce };
+          set({ currentCommitment: commitment });
+        }
+      },
+
       // Run the race and process results
       runRace: () => {
         const state = get();
 
-        // Validate bets
-        const validation = validateAllBets(
-          state.currentBets,
-          state.bankroll,
-          state.settings.maxBetPercentage,
-          MIN_BET
-        );
+        // Validate bets (a race can also run without any, e.g. one the auto-bettor passes)
+        const validation =
+          state.currentBets.length === 0
+            ? { valid: true, errors: [] }
+            : validateAllBets(
+                state.currentBets,
+                state.bankroll,
+                state.settings.maxBetPercentage,
+                MIN_BET,
+                state.currentHorses.length
+              );
 
         if (!validation.valid) {
           alert(`Cannot start race:\n${validation.errors.join('\n')}`);
@@ -183,26 +373,69 @@ export const useGameStore = create<GameStore>()(
           return;
         }
 
+        const config = state.getCurrentRaceConfig();
+        const secret = raceSecret;
+        if (!state.currentCommitment || secret?.seed !== config.seed) {
+          alert('Race seed not committed yet. Please wait.');
+          return;
+        }
+
         set({ raceInProgress: true });
 
-        // Simulate race
-        const config = state.getCurrentRaceConfig();
-        const finishOrder = simulateRace(state.currentHorses, config);
+        // Simulate race (the finish is drawn from the seed and the secret nonce)
+        const outcome = simulateRaceOutcome(state.currentHorses, {
+          ...config,
+          seed: getOutcomeSeed(config.seed, secret.nonce),
+        });
+        raceSecret = null;
+
+        // Calculate payouts (refunds for scratched horses, dead-heat splits)
+        const result = resolveRace(state.currentBets, outcome, state.currentOdds);
+
+        // Record the leg for multi-race bets; the favourite stands in for scratched picks
+        const odds = state.currentOdds;
+        const runners = outcome.finishOrder;
+        const legResult: LegResult = {
+          winners: runners.filter((_, idx) => outcome.positions[idx] === 1),
+          favourite: runners.reduce((best, id) => (odds.win[id - 1] < odds.win[best - 1] ? id : best)),
+          scratched: outcome.scratched,
+        };
+        const meeting = state.meeting && {
+          ...state.meeting,
+          races: state.meeting.races.map((race) =>
+            race.number === state.currentRace ? { ...race, result: legResult } : race
+          ),
+        };
 
-        // Calculate payouts
-        const result = resolveRace(state.currentBets, finishOrder, state.currentOdds);
+        // Settle the multi-race pools that ended with this race
+        const pools = meeting
+          ? settleMeetingPools(meeting, state.currentRace, state.multiLegBets, state.carryover, (race) =>
+              getMeetingRaceConfig(race, getSettingsRaceConfig(state))
+            )
+          : { settlements: [], openBets: state.multiLegBets, carryover: state.carryover };
+        const multiLegPayout = pools.settlements.reduce(
+          (sum, settlement) => sum + settlement.payouts.reduce((total, p) => total + p.payout, 0),
+          0
+        );
 
         // Update bankroll
-        const newBankroll = state.bankroll + result.netProfit;
+        const newBankroll = state.bankroll + result.netProfit + multiLegPayout;
         const roi = result.totalStake > 0 ? (result.netProfit / result.totalStake) * 100 : 0;
 
         // Add to history
         const historyEntry: HistoryEntry = {
           raceNumber: state.raceNumber,
           seed: config.seed,
+          conditions: config.conditions,
+          config,
+          odds: takeOddsSnapshot(state.currentOdds, state.currentBets),
+          commitment: state.currentCommitment,
+          reveal: revealSeed(config.seed, secret.nonce, new Date().toISOString()),
           horses: state.currentHorses,
           bets: state.currentBets,
+          tickets: state.currentTickets,
           result,
+          multiLeg: pools.settlements.length > 0 ? pools.settlements : undefined,
           bankrollBefore: state.bankroll,
           bankrollAfter: newBankroll,
           roi,
@@ -211,10 +444,33 @@ export const useGameStore = create<GameStore>()(
         // Check game over
         const isGameOver = newBankroll <= 0;
 
+        // Record the race for the challenge; a finished challenge goes on the leaderboard
+        const challengeRaces = state.challenge
+          ? [...state.challengeRaces, { bets: state.currentBets, scratched: outcome.scratched }]
+          : [];
+        const challengeOver =
+          !!state.challenge && isChallengeOver(state.challenge, challengeRaces.length, Math.max(0, newBankroll));
+        const leaderboard = challengeOver
+          ? [
+              ...state.leaderboard,
+              {
+                player: 'You',
+                finishedAt: new Date().toISOString(),
+                proof: createChallengeProof(state.challenge!, challengeRaces, Math.max(0, newBankroll)),
+              },
+            ]
+          : state.leaderboard;
+
         set({
           bankroll: Math.max(0, newBankroll),
           raceNumber: state.raceNumber + 1,
           history: [...state.history, historyEntry],
+          meeting,
+          multiLegBets: pools.openBets,
+          carryover: pools.carryover,
+          challenge: challengeOver ? null : state.challenge,
+          challengeRaces: challengeOver ? [] : challengeRaces,
+          leaderboard,
           raceInProgress: false,
           gameOver: isGameOver,
         });
@@ -256,6 +512,44 @@ export const useGameStore = create<GameStore>()(
 
         return lines.join('\n');
       },
+
+      // Start a challenge: its bankroll and settings, and meetings drawn from its seed
+      // Open multi-race bets are dropped along with the old bankroll
+      startChallenge: (challenge) => {
+        const reset = {
+          bankroll: challenge.startingBankroll,
+          settings: {
+            ...get().settings,
+            difficulty: challenge.difficulty,
+            numHorses: challenge.numHorses,
+            pricingMode: challenge.pricingMode,
+            maxBetPercentage: challenge.maxBetPercentage,
+          },
+          multiLegBets: [],
+          challenge,
+          challengeRaces: [],
+          gameOver: false,
+        };
+
+        const state = { ...get(), ...reset };
+        set({ ...reset, ...loadRace(state, newMeeting(state, 1), 1) });
+      },
+
+      // Stop the challenge and carry on with normal play (the run is not recorded)
+      abandonChallenge: () => {
+        set({ challenge: null, challengeRaces: [] });
+      },
+
+      // Add a finished run (one's own or someone else's proof) to the leaderboard
+      addLeaderboardEntry: (entry) => {
+        set((state) => ({ leaderboard: [...state.leaderboard, entry] }));
+      },
+
+      removeLeaderboardEntry: (finishedAt) => {
+        set((state) => ({
+          leaderboard: state.leaderboard.filter((entry) => entry.finishedAt !== finishedAt),
+        }));
+      },
     }),
     {
       name: STORAGE_KEY,
@@ -264,7 +558,23 @@ export const useGameStore = create<GameStore>()(
         raceNumber: state.raceNumber,
         history: state.history,
         settings: state.settings,
+        meeting: state.meeting,
+        currentRace: state.currentRace,
+        multiLegBets: state.multiLegBets,
+        carryover: state.carryover,
+        challenge: state.challenge,
+        challengeRaces: state.challengeRaces,
+        leaderboard: state.leaderboard,
       }),
+      // Fill settings added since the state was saved
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<GameState>;
+        return {
+          ...current,
+          ...saved,
+          settings: { ...DEFAULT_SETTINGS, ...saved.settings },
+        };
+      },
     }
   )
 );